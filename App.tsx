@@ -1,23 +1,47 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Header from './components/Header';
 import ProductRegistration from './components/ProductRegistration';
 import SalesScreen from './components/SalesScreen';
 import DailyReport from './components/DailyReport';
 import PreviousReport from './components/PreviousReport';
+import SalesAnalytics from './components/SalesAnalytics';
 import OpenCashDrawerModal from './components/OpenCashDrawerModal';
-
-import { Product, Sale, View, CashDrawer, HistoricalReport, PaymentMethod, SaleItem, Withdrawal } from './types';
-
-// ===== Integração Supabase (deixe estes imports; se ainda não criou os arquivos, comente temporariamente) =====
+import Settings from './components/Settings';
+import CashCountModal from './components/CashCountModal';
+import RejectedWritesModal from './components/RejectedWritesModal';
+import ReceiptModal from './components/ReceiptModal';
+
+import { Product, Category, Sale, View, CashDrawer, HistoricalReport, PaymentMethod, SaleItem, SalePayment, Withdrawal, AppSettings, CheckoutOptions, Refund, RefundItem, CashCount, StockMovement, StockMovementType } from './types';
+import { PAYMENT_TOLERANCE, discountAmountFor, paymentsMatchTotal, roundMoney, roundPayments } from './lib/payments';
+import { ReportTotals, reportTotals, summarizeSales } from './lib/reports';
+import { buildRefund, saleStatusAfterRefunds } from './lib/refunds';
+import { expectedDrawerCash } from './lib/cashCount';
+import { applyStockMovement, buildStockMovement } from './lib/stockMovements';
+import { soldOutDuringDay } from './lib/stockAlerts';
+import { isKit, kitCost, snapshotComponents, stockDemand } from './lib/kits';
+import { DEFAULT_CATEGORIES } from './lib/categories';
+import type { ProductImportPlan } from './lib/productImport';
+import { DEFAULT_BUSINESS_DAY, addDays, businessDayOf, configureBusinessDay, todayBusinessDay } from './lib/businessDay';
+import type { DayRange } from './lib/periods';
+import { mergeById, mergeReports, missingRanges, recordsSince, reportsSince } from './lib/history';
+import { DEFAULT_RECEIPT_SETTINGS } from './lib/receipt';
+
+// ===== Backend de dados (Supabase, local ou memória — ver services/dataBackend) =====
+import { repository } from './services/dataBackend';
+import { RECENT_DAYS, RejectedWriteError } from './services/repository';
 import {
-  fetchInitialData,
-  upsertProduct,
-  upsertProducts,
-  recordSale,
-  openCashDrawer,
-  closeCashDrawer,
-  recordWithdrawal,
-} from './services/supabaseRepo';
+  discardRejected,
+  enqueueWrite,
+  getPendingCount,
+  getRejectedEntries,
+  retryRejected,
+  startOutbox,
+  subscribeOutbox,
+  subscribeRejections,
+  writeNow,
+  type OutboxEntry,
+  type OutboxOperation,
+} from './services/outbox';
 
 // ===== Util =====
 export function formatCurrency(value: number): string {
@@ -29,7 +53,12 @@ export function formatCurrency(value: number): string {
 }
 
 // ===== Hook de estado persistente no localStorage =====
-function usePersistentState<T>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
+/** `persisted` escolhe o que vai para o localStorage (o estado em memória fica inteiro). */
+function usePersistentState<T>(
+  key: string,
+  initialValue: T,
+  persisted?: (value: T) => T
+): [T, React.Dispatch<React.SetStateAction<T>>] {
   const [state, setState] = useState<T>(() => {
     try {
       const storedValue = window.localStorage.getItem(key);
@@ -47,18 +76,53 @@ function usePersistentState<T>(key: string, initialValue: T): [T, React.Dispatch
 
   useEffect(() => {
     try {
-      window.localStorage.setItem(key, JSON.stringify(state));
+      window.localStorage.setItem(key, JSON.stringify(persisted ? persisted(state) : state));
     } catch {
       /* ignore quota errors */
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [key, state]);
 
   return [state, setState];
 }
 
+const DEFAULT_SETTINGS: AppSettings = {
+  operatorName: '',
+  pix: { key: '', merchantName: 'Cantina', merchantCity: '' },
+  businessDay: DEFAULT_BUSINESS_DAY,
+  receipt: DEFAULT_RECEIPT_SETTINGS,
+};
+
+/** Espera depois da última venda/estorno/sangria antes de buscar os totais dos relatórios de novo. */
+const TOTALS_REFRESH_MS = 2_000;
+
+/** Dias de hoje para trás que a inicialização carrega (e o navegador guarda). */
+const recentRange = (): DayRange => {
+  const today = todayBusinessDay();
+  return { from: addDays(today, -RECENT_DAYS), to: today };
+};
+
+// Histórico antigo carregado sob demanda não vai para o localStorage
+const recentSales = (sales: Sale[]) => recordsSince(sales, recentRange().from);
+const recentRefunds = (refunds: Refund[]) => recordsSince(refunds, recentRange().from);
+const recentReports = (reports: Record<string, HistoricalReport>) => reportsSince(reports, recentRange().from);
+
+/** Configurações salvas por versões anteriores não têm os campos novos. */
+function withDefaultSettings(stored: Partial<AppSettings>): AppSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    pix: { ...DEFAULT_SETTINGS.pix, ...stored.pix },
+    businessDay: { ...DEFAULT_SETTINGS.businessDay, ...stored.businessDay },
+    receipt: { ...DEFAULT_SETTINGS.receipt, ...stored.receipt },
+  };
+}
+
 const App: React.FC = () => {
   const [products, setProducts] = usePersistentState<Product[]>('pdv-products', []);
-  const [sales, setSales] = usePersistentState<Sale[]>('pdv-sales', []);
+  const [categories, setCategories] = usePersistentState<Category[]>('pdv-categories', DEFAULT_CATEGORIES);
+  const [sales, setSales] = usePersistentState<Sale[]>('pdv-sales', [], recentSales);
+  const [refunds, setRefunds] = usePersistentState<Refund[]>('pdv-refunds', [], recentRefunds);
   const [currentView, setCurrentView] = usePersistentState<View>('pdv-view', 'register');
   const [cashDrawer, setCashDrawer] = usePersistentState<CashDrawer>('pdv-cashDrawer', {
     isOpen: false,
@@ -66,23 +130,47 @@ const App: React.FC = () => {
     previousClosingCash: 0,
   });
   const [historicalReports, setHistoricalReports] =
-    usePersistentState<Record<string, HistoricalReport>>('pdv-historicalReports', {});
+    usePersistentState<Record<string, HistoricalReport>>('pdv-historicalReports', {}, recentReports);
+  const [storedSettings, setSettings] = usePersistentState<AppSettings>('pdv-settings', DEFAULT_SETTINGS);
+  const settings = useMemo(() => withDefaultSettings(storedSettings), [storedSettings]);
+
+  // Fuso e virada do dia valem para tudo que agrupa por data (relatórios, caixa, backends).
+  // Aplicados num efeito (o primeiro do App); as telas só montam depois e remontam
+  // quando a configuração muda, para nenhum cálculo ficar com o fuso anterior.
+  const { timeZone, cutoffHour } = settings.businessDay;
+  const [businessDayKey, setBusinessDayKey] = useState<string | null>(null);
+  useEffect(() => {
+    configureBusinessDay({ timeZone, cutoffHour });
+    setBusinessDayKey(`${timeZone}|${cutoffHour}`);
+  }, [timeZone, cutoffHour]);
 
   const [notification, setNotification] = useState<string | null>(null);
   const [isCashDrawerModalOpen, setIsCashDrawerModalOpen] = useState(false);
+  const [isCashCountModalOpen, setIsCashCountModalOpen] = useState(false);
+  const [pendingWrites, setPendingWrites] = useState(getPendingCount);
+  const [rejectedWrites, setRejectedWrites] = useState(getRejectedEntries);
+  const [isRejectedModalOpen, setIsRejectedModalOpen] = useState(false);
+  /** Intervalos de dias já em memória (os dias recentes vêm na inicialização). */
+  const loadedRanges = useRef<DayRange[]>([recentRange()]);
+  const [loadingHistory, setLoadingHistory] = useState(0);
+  /** Cupom aberto: logo após a venda ou reimpressão (2ª via) pelos relatórios. */
+  const [receipt, setReceipt] = useState<{ sale: Sale; copy: boolean } | null>(null);
 
   const showNotification = useCallback((message: string) => {
     setNotification(message);
     setTimeout(() => setNotification(null), 3000);
   }, []);
 
-  // Carrega dados do Supabase ao iniciar (mantém app funcionando offline caso falhe)
+  // Carrega dados do backend ao iniciar (mantém app funcionando offline caso falhe)
   useEffect(() => {
     (async () => {
       try {
-        const data = await fetchInitialData();
+        const data = await repository.fetchInitialData();
+        loadedRanges.current = [recentRange()];
         if (data?.products) setProducts(data.products);
+        if (data?.categories?.length) setCategories(data.categories);
         if (data?.sales) setSales(data.sales);
+        if (data?.refunds) setRefunds(data.refunds);
         if (data?.historicalReports) setHistoricalReports(data.historicalReports);
         if (data?.cashDrawer) {
           setCashDrawer(prev => ({
@@ -90,152 +178,437 @@ const App: React.FC = () => {
             isOpen: !!data.cashDrawer.isOpen,
             openingCash: data.cashDrawer.openingCash ?? 0,
             previousClosingCash: data.cashDrawer.previousClosingCash ?? prev.previousClosingCash,
+            date: data.cashDrawer.date,
           }));
         }
       } catch (e) {
-        console.warn('Falha ao carregar do Supabase (seguindo local):', e);
+        console.warn('Falha ao carregar do backend (seguindo local):', e);
       }
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Relatórios de datas antigas: busca só os dias que ainda não estão em memória
+  const handleLoadHistory = useCallback(async (range: DayRange) => {
+    const missing = missingRanges(loadedRanges.current, range);
+    if (!missing.length) return;
+    loadedRanges.current = [...loadedRanges.current, ...missing];
+    setLoadingHistory(n => n + 1);
+    try {
+      const loaded = await Promise.all(missing.map(r => repository.fetchHistory(r)));
+      loaded.forEach(history => {
+        setSales(prev => mergeById(prev, history.sales));
+        setRefunds(prev => mergeById(prev, history.refunds));
+        setHistoricalReports(prev => mergeReports(prev, history.historicalReports));
+      });
+    } catch (e) {
+      // Libera os intervalos para tentar de novo na próxima vez
+      loadedRanges.current = loadedRanges.current.filter(r => !missing.includes(r));
+      console.warn('Falha ao carregar histórico:', e);
+      showNotification('Não foi possível carregar o histórico desse período.');
+    } finally {
+      setLoadingHistory(n => n - 1);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showNotification]);
+
+  // Totais dos relatórios: agregados no banco quando a fila está vazia; com gravações
+  // pendentes (ou sem conexão) o banco está atrasado, então calcula com o que está aqui.
+  // O estado vai por ref para a função não mudar a cada venda; quem pede os totais
+  // busca de novo quando `totalsVersion` avança (alguns segundos depois da última mudança).
+  const localData = useRef({ sales, refunds, historicalReports, pendingWrites });
+  localData.current = { sales, refunds, historicalReports, pendingWrites };
+  const [totalsVersion, setTotalsVersion] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setTotalsVersion(v => v + 1), TOTALS_REFRESH_MS);
+    return () => clearTimeout(timer);
+  }, [sales, refunds, historicalReports]);
+
+  const handleLoadReportTotals = useCallback(async (range: DayRange): Promise<ReportTotals> => {
+    const localTotals = () => {
+      const { sales, refunds, historicalReports } = localData.current;
+      // Dias fora da memória: traz o histórico (a chegada dispara novo cálculo) e avisa que está incompleto
+      const partial = missingRanges(loadedRanges.current, range).length > 0;
+      if (partial) void handleLoadHistory(range);
+      return { ...reportTotals(sales, refunds, historicalReports, range), ...(partial ? { partial } : {}) };
+    };
+    if (localData.current.pendingWrites > 0) return localTotals();
+    try {
+      return await repository.fetchReportTotals(range);
+    } catch (e) {
+      console.warn('Falha ao carregar totais do backend (calculando localmente):', e);
+      return localTotals();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [totalsVersion, handleLoadHistory]);
+
+  // Alterações feitas em outros terminais (estoque, vendas, caixa e sangrias)
+  useEffect(() => {
+    return repository.subscribeToChanges({
+      onProduct: product => {
+        setProducts(prev =>
+          prev.some(p => p.id === product.id)
+            ? prev.map(p => (p.id === product.id ? product : p))
+            : [...prev, product]
+        );
+      },
+      onProductDeleted: id => {
+        setProducts(prev => prev.filter(p => p.id !== id));
+      },
+      onCategory: category => {
+        setCategories(prev =>
+          prev.some(c => c.id === category.id)
+            ? prev.map(c => (c.id === category.id ? category : c))
+            : [...prev, category]
+        );
+      },
+      onSale: sale => {
+        setSales(prev =>
+          prev.some(s => s.id === sale.id)
+            ? prev.map(s => (s.id === sale.id ? sale : s))
+            : [...prev, sale]
+        );
+      },
+      onRefund: refund => {
+        setRefunds(prev => (prev.some(r => r.id === refund.id) ? prev : [...prev, refund]));
+      },
+      onCashDrawer: day => {
+        setHistoricalReports(prev => ({
+          ...prev,
+          [day.date]: {
+            withdrawals: [],
+            ...prev[day.date],
+            date: day.date,
+            openingCash: day.openingCash,
+            closingCash: day.closingCash ?? 0,
+            ...(day.cashCount ? { cashCount: day.cashCount } : {}),
+          },
+        }));
+        // Só o caixa deste dia de operação (ou um aberto depois dele) muda a gaveta
+        setCashDrawer(prev => {
+          if (day.date < (prev.isOpen && prev.date ? prev.date : todayBusinessDay())) return prev;
+          return day.closingCash === null
+            ? { ...prev, isOpen: true, openingCash: day.openingCash, previousClosingCash: day.previousClosingCash, date: day.date }
+            : { isOpen: false, openingCash: 0, previousClosingCash: day.closingCash };
+        });
+      },
+      onWithdrawal: (date, withdrawal) => {
+        setHistoricalReports(prev => {
+          const report = prev[date] ?? { openingCash: 0, closingCash: 0, date, withdrawals: [] };
+          if (report.withdrawals.some(w => w.id === withdrawal.id)) return prev;
+          return { ...prev, [date]: { ...report, withdrawals: [...report.withdrawals, withdrawal] } };
+        });
+      },
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Vendas, estornos e movimentos de estoque entram aqui antes de o servidor
+   * confirmar. `direction` -1 desfaz um que foi recusado; 1 reaplica ao tentar
+   * de novo. Fica num ref para a assinatura da fila ver o estado atual.
+   */
+  const applyLocally = useRef<(op: OutboxOperation, direction: 1 | -1) => void>(() => {});
+  applyLocally.current = (op, direction) => {
+    if (op.kind === 'commitSale') {
+      const sale = op.payload;
+      const sold = stockDemand(sale.items);
+      setSales(prev => (direction < 0 ? prev.filter(s => s.id !== sale.id) : mergeById(prev, [sale])));
+      setProducts(prev => prev.map(p => (sold.has(p.id) ? { ...p, stock: Math.max(0, p.stock - direction * sold.get(p.id)!) } : p)));
+    }
+    if (op.kind === 'recordRefund') {
+      const refund = op.payload;
+      const others = refunds.filter(r => r.id !== refund.id);
+      const after = direction < 0 ? others : [...others, refund];
+      const returned = stockDemand(refund.items, products);
+      setRefunds(prev => (direction < 0 ? prev.filter(r => r.id !== refund.id) : mergeById(prev, [refund])));
+      setSales(prev => prev.map(s => (s.id === refund.saleId ? { ...s, status: saleStatusAfterRefunds(s, after) } : s)));
+      setProducts(prev => prev.map(p => (returned.has(p.id) ? { ...p, stock: Math.max(0, p.stock + direction * returned.get(p.id)!) } : p)));
+    }
+    if (op.kind === 'recordStockMovement') {
+      // Inventário também volta pela variação calculada quando a contagem entrou
+      const movement = op.payload;
+      setProducts(prev => prev.map(p => (p.id === movement.productId ? { ...p, stock: Math.max(0, p.stock + direction * movement.quantity) } : p)));
+    }
+  };
+
+  // Fila de gravações: reenvia o que ficou pendente e acompanha quantas faltam
+  useEffect(() => {
+    const unsubscribe = subscribeOutbox(pending => {
+      setPendingWrites(pending);
+      setRejectedWrites(getRejectedEntries());
+    });
+    const unsubscribeRejections = subscribeRejections(entry => {
+      applyLocally.current(entry.op, -1);
+      showNotification(`Gravação recusada pelo servidor: ${entry.lastError}`);
+    });
+    const stop = startOutbox();
+    return () => {
+      unsubscribe();
+      unsubscribeRejections();
+      stop();
+    };
+  }, [showNotification]);
+
+  const handleRetryRejected = (entry: OutboxEntry) => {
+    applyLocally.current(entry.op, 1);
+    retryRejected(entry.id);
+  };
+
   // ===== Handlers =====
-  const handleAddProduct = async (productData: Omit<Product, 'id'>) => {
+  const handleAddProduct = (productData: Omit<Product, 'id'>): Product => {
     const newProduct: Product = {
       id: crypto?.randomUUID?.() ?? `p-${Date.now()}`,
       ...productData,
     };
     setProducts(prev => [...prev, newProduct]);
-    try {
-      await upsertProduct(newProduct);
-    } catch (e) {
-      console.warn(e);
-    }
+    enqueueWrite({ kind: 'upsertProduct', payload: newProduct });
+    // O cadastro grava o produto com estoque zero; o estoque informado entra como movimento
+    enqueueInitialStock([newProduct], 'Estoque inicial');
     showNotification(`Produto "${newProduct.name}" adicionado!`);
+    return newProduct;
+  };
+
+  const handleUpdateProduct = (updatedProduct: Product) => {
+    // O estoque não é editado no cadastro, só por movimentos
+    setProducts(prev => prev.map(p => (p.id === updatedProduct.id ? { ...updatedProduct, stock: p.stock } : p)));
+    enqueueWrite({ kind: 'upsertProduct', payload: updatedProduct });
+    showNotification(`Produto "${updatedProduct.name}" atualizado!`);
+  };
+
+  // Arquivar não apaga: vendas antigas continuam apontando para o produto
+  const handleSetProductActive = (product: Product, active: boolean) => {
+    const updated: Product = { ...product, active };
+    setProducts(prev => prev.map(p => (p.id === product.id ? { ...p, active } : p)));
+    enqueueWrite({ kind: 'upsertProduct', payload: updated });
+    showNotification(`Produto "${product.name}" ${active ? 'restaurado' : 'arquivado'}.`);
+  };
+
+  const enqueueInitialStock = (newProducts: Product[], reason: string) => {
+    newProducts
+      .filter(p => p.stock > 0)
+      .forEach(p => {
+        const movement = buildStockMovement({ ...p, stock: 0 }, 'receipt', p.stock, reason, settings.operatorName);
+        enqueueWrite({ kind: 'recordStockMovement', payload: movement }, movement.id);
+      });
+  };
+
+  const handleSaveCategories = (changed: Category[]) => {
+    if (!changed.length) return;
+    setCategories(prev => [
+      ...prev.map(c => changed.find(x => x.id === c.id) ?? c),
+      ...changed.filter(c => !prev.some(x => x.id === c.id)),
+    ]);
+    changed.forEach(category => enqueueWrite({ kind: 'upsertCategory', payload: category }));
+    showNotification(changed.length === 1 ? `Categoria "${changed[0].name}" salva!` : `${changed.length} categorias salvas!`);
   };
 
-  const handleUpdateProduct = async (updatedProduct: Product) => {
-    setProducts(prev => prev.map(p => (p.id === updatedProduct.id ? updatedProduct : p)));
+  const handleStockMovement = async (
+    product: Product,
+    type: StockMovementType,
+    value: number,
+    reason: string
+  ): Promise<boolean> => {
+    const movement = buildStockMovement(product, type, value, reason, settings.operatorName);
+    if (movement.quantity === 0 && type !== 'inventory') return false;
+    if (applyStockMovement(product.stock, movement) < 0) {
+      showNotification(`Estoque insuficiente para "${product.name}".`);
+      return false;
+    }
+
     try {
-      await upsertProduct(updatedProduct);
+      await writeNow({ kind: 'recordStockMovement', payload: movement }, movement.id);
     } catch (e) {
-      console.warn(e);
+      if (e instanceof RejectedWriteError) {
+        showNotification(e.message);
+        return false;
+      }
+      throw e;
     }
-    showNotification(`Produto "${updatedProduct.name}" atualizado!`);
+
+    setProducts(prev => prev.map(p => (p.id === product.id ? { ...p, stock: applyStockMovement(p.stock, movement) } : p)));
+    showNotification(`Estoque de "${product.name}" atualizado.`);
+    return true;
   };
 
-  const handleBulkAddProducts = async (newProducts: Omit<Product, 'id'>[]) => {
-    const withIds: Product[] = newProducts.map(p => ({
+  const handleLoadStockMovements = (productId: string): Promise<StockMovement[]> =>
+    repository.fetchStockMovements(productId);
+
+  // Importação: categorias novas primeiro (a fila grava em ordem), depois cadastro e estoque
+  const handleImportProducts = (plan: ProductImportPlan) => {
+    const reason = 'Importação de produtos';
+    const withIds: Product[] = plan.create.map(p => ({
       id: crypto?.randomUUID?.() ?? `p-${Date.now()}-${p.name}`,
       ...p,
     }));
-    setProducts(prev => [...prev, ...withIds]);
-    try {
-      await upsertProducts(withIds);
-    } catch (e) {
-      console.warn(e);
+    const counts = plan.stockCounts.flatMap(({ productId, countedStock }) => {
+      const product = products.find(p => p.id === productId);
+      return product ? [buildStockMovement(product, 'inventory', countedStock, reason, settings.operatorName)] : [];
+    });
+
+    if (plan.categories.length) {
+      setCategories(prev => [...prev, ...plan.categories]);
+      plan.categories.forEach(category => enqueueWrite({ kind: 'upsertCategory', payload: category }));
     }
-    showNotification(`${withIds.length} produtos adicionados!`);
+
+    setProducts(prev => [
+      ...prev.map(p => {
+        const updated = plan.update.find(u => u.id === p.id);
+        const count = counts.find(m => m.productId === p.id);
+        if (!updated && !count) return p;
+        return { ...(updated ?? p), stock: count ? applyStockMovement(p.stock, count) : p.stock };
+      }),
+      ...withIds,
+    ]);
+
+    if (withIds.length) enqueueWrite({ kind: 'upsertProducts', payload: withIds });
+    if (plan.update.length) enqueueWrite({ kind: 'upsertProducts', payload: plan.update });
+    enqueueInitialStock(withIds, reason);
+    counts.forEach(movement => enqueueWrite({ kind: 'recordStockMovement', payload: movement }, movement.id));
+
+    showNotification(`${withIds.length} produtos criados e ${plan.update.length} atualizados.`);
   };
 
   const handleAddSale = async (
     cartItems: SaleItem[],
-    paymentMethod: PaymentMethod,
-    discount?: { type: 'percentage' | 'fixed'; value: number }
-  ) => {
-    if (!cartItems?.length) return;
-
-    const subtotal = cartItems.reduce((acc, item) => acc + item.pricePerItem * item.quantity, 0);
-
-    let discountAmount = 0;
-    if (discount && discount.value > 0) {
-      discountAmount = discount.type === 'percentage' ? subtotal * (discount.value / 100) : discount.value;
+    payments: SalePayment[],
+    { saleId, discount, cashTendered }: CheckoutOptions = {}
+  ): Promise<boolean> => {
+    if (!cartItems?.length) return false;
+
+    // Valores em centavos, como o banco guarda: os totais locais e os do servidor batem
+    const subtotal = roundMoney(cartItems.reduce((acc, item) => acc + item.pricePerItem * item.quantity, 0));
+    const discountAmount = discountAmountFor(subtotal, discount);
+    const total = roundMoney(subtotal - discountAmount);
+
+    if (!paymentsMatchTotal(payments, total)) {
+      showNotification(`Os pagamentos não somam o total de ${formatCurrency(total)}.`);
+      return false;
+    }
+    const salePayments = roundPayments(payments.filter(p => p.amount > 0), total);
+
+    const cashDue = salePayments
+      .filter(p => p.method === PaymentMethod.Cash)
+      .reduce((acc, p) => acc + p.amount, 0);
+    if (cashTendered !== undefined && cashTendered < cashDue - PAYMENT_TOLERANCE) {
+      showNotification(`Valor recebido menor que ${formatCurrency(cashDue)} em dinheiro.`);
+      return false;
     }
-    const total = subtotal - discountAmount;
 
     const newSale: Sale = {
-      id: `sale-${Date.now()}`,
-      items: cartItems,
+      id: saleId ?? `sale-${Date.now()}`,
+      // Custo (e composição dos kits) congelados na venda: mudar o cadastro depois não altera o já apurado
+      items: cartItems.map(item => {
+        const product = products.find(p => p.id === item.productId);
+        if (product && isKit(product)) {
+          return {
+            ...item,
+            costPerItem: kitCost(product.components!, products),
+            components: snapshotComponents(product, products),
+          };
+        }
+        return { ...item, costPerItem: product?.costPrice ?? item.costPerItem };
+      }),
       subtotal,
       discountType: discount?.type,
       discountValue: discount?.value,
       discountAmount,
       total,
-      paymentMethod,
+      payments: salePayments,
+      cashTendered: cashDue > 0 && cashTendered !== undefined ? roundMoney(cashTendered) : undefined,
+      changeDue: cashDue > 0 && cashTendered !== undefined ? roundMoney(cashTendered - cashDue) : undefined,
+      operator: settings.operatorName || undefined,
       timestamp: new Date(),
     };
 
-    setSales(prev => [...prev, newSale]);
-
-    // Atualiza estoque local
-    const updatedProducts = [...products];
-    cartItems.forEach(item => {
-      const idx = updatedProducts.findIndex(p => p.id === item.productId);
-      if (idx !== -1) {
-        updatedProducts[idx] = {
-          ...updatedProducts[idx],
-          stock: Math.max(0, updatedProducts[idx].stock - item.quantity),
-        };
-      }
-    });
-    setProducts(updatedProducts);
-
-    // Persiste no Supabase (se falhar, segue local)
+    // Venda + itens + baixa de estoque numa transação no servidor; se estiver
+    // offline, vai para a fila e é enviada quando a conexão voltar.
     try {
-      await recordSale(newSale);
-      await upsertProducts(updatedProducts);
+      await writeNow({ kind: 'commitSale', payload: newSale }, newSale.id);
     } catch (e) {
-      console.warn('Falha ao salvar venda no Supabase:', e);
+      if (e instanceof RejectedWriteError) {
+        showNotification(e.message);
+        return false;
+      }
+      throw e;
+    }
+
+    // O aviso em tempo real da própria venda (com o estoque já baixado) pode chegar antes desta linha
+    const echoed = localData.current.sales.some(s => s.id === newSale.id);
+    setSales(prev => mergeById(prev, [newSale]));
+
+    // Atualiza estoque local (o servidor já baixou o dele a partir do valor atual); kits baixam os componentes
+    if (!echoed) {
+      const sold = stockDemand(newSale.items);
+      setProducts(prev => prev.map(p => (sold.has(p.id) ? { ...p, stock: Math.max(0, p.stock - sold.get(p.id)!) } : p)));
     }
 
     showNotification('Venda finalizada com sucesso!');
+    if (settings.receipt.printAfterSale) setReceipt({ sale: newSale, copy: false });
+    return true;
   };
 
-  const handleStartDay = async (openingAmount: number) => {
-    setCashDrawer(prev => ({ ...prev, isOpen: true, openingCash: openingAmount }));
+  const handleStartDay = (openingAmount: number) => {
+    const date = todayBusinessDay();
+    setCashDrawer(prev => ({ ...prev, isOpen: true, openingCash: openingAmount, date }));
     setIsCashDrawerModalOpen(false);
-    try {
-      await openCashDrawer(openingAmount, cashDrawer.previousClosingCash);
-    } catch (e) {
-      console.warn(e);
-    }
+    enqueueWrite({
+      kind: 'openCashDrawer',
+      payload: {
+        date,
+        openingAmount,
+        previousClosingCash: cashDrawer.previousClosingCash,
+      },
+    });
     showNotification(`Caixa iniciado com ${formatCurrency(openingAmount)}.`);
   };
 
-  const handleEndDay = async () => {
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
-
-    const todaySales = sales.filter(
-      sale => new Date(sale.timestamp).toISOString().split('T')[0] === todayStr
-    );
-
-    const totalCashSales = todaySales
-      .filter(s => s.paymentMethod === PaymentMethod.Cash)
-      .reduce((acc, sale) => acc + sale.total, 0);
+  // Dia de operação do caixa aberto: caixas de antes desta versão não guardam a data
+  const drawerDay = (cashDrawer.isOpen && cashDrawer.date) || todayBusinessDay();
+
+  // Dinheiro que deveria estar na gaveta agora (comparado com a contagem no fechamento):
+  // tudo desde o dia em que o caixa abriu, inclusive o que passou da virada
+  const expectedCash = useMemo(() => {
+    const sinceOpening = (timestamp: Date) => businessDayOf(timestamp) >= drawerDay;
+    const drawerSales = sales.filter(sale => sinceOpening(sale.timestamp));
+    const drawerRefunds = refunds.filter(refund => sinceOpening(refund.timestamp));
+    const withdrawals = Object.values(historicalReports)
+      .filter(report => report.date >= drawerDay)
+      .flatMap(report => report.withdrawals);
+    // Só a parte em dinheiro de cada venda entra no caixa (estornos em dinheiro saem)
+    const cashSales = summarizeSales(drawerSales, drawerRefunds).cashSales;
+    return expectedDrawerCash(cashDrawer.openingCash, cashSales, withdrawals);
+  }, [sales, refunds, cashDrawer.openingCash, historicalReports, drawerDay]);
+
+  const handleEndDay = () => {
+    setIsCashCountModalOpen(true);
+  };
 
-    const closingCash = cashDrawer.openingCash + totalCashSales;
+  const handleConfirmCashCount = (cashCount: CashCount) => {
+    const closingCash = cashCount.countedCash;
 
     const newReport: HistoricalReport = {
       openingCash: cashDrawer.openingCash,
       closingCash,
-      date: todayStr,
-      withdrawals: historicalReports[todayStr]?.withdrawals ?? [],
+      date: drawerDay,
+      withdrawals: historicalReports[drawerDay]?.withdrawals ?? [],
+      cashCount,
     };
 
-    setHistoricalReports(prev => ({ ...prev, [todayStr]: newReport }));
+    setHistoricalReports(prev => ({ ...prev, [drawerDay]: newReport }));
     setCashDrawer({ isOpen: false, openingCash: 0, previousClosingCash: closingCash });
+    setIsCashCountModalOpen(false);
 
-    try {
-      await closeCashDrawer(closingCash);
-    } catch (e) {
-      console.warn(e);
-    }
+    enqueueWrite({ kind: 'closeCashDrawer', payload: { date: drawerDay, closingCash, cashCount } });
 
-    showNotification(`Dia encerrado. Caixa final: ${formatCurrency(closingCash)}.`);
+    const difference = cashCount.difference === 0
+      ? 'sem diferença'
+      : `${cashCount.difference > 0 ? 'sobra' : 'falta'} de ${formatCurrency(Math.abs(cashCount.difference))}`;
+    showNotification(`Dia encerrado. Caixa final: ${formatCurrency(closingCash)} (${difference}).`);
   };
 
-  const handleAddWithdrawal = async (date: string, amount: number, reason: string) => {
+  const handleAddWithdrawal = (date: string, amount: number, reason: string) => {
     const report = historicalReports[date] ?? {
       openingCash: 0,
       closingCash: 0,
@@ -258,34 +631,72 @@ const App: React.FC = () => {
       },
     }));
 
+    enqueueWrite({ kind: 'recordWithdrawal', payload: { date, withdrawal: newWithdrawal } }, newWithdrawal.id);
+
+    showNotification('Retirada registrada!');
+  };
+
+  const handleRefundSale = async (sale: Sale, items: RefundItem[], reason: string) => {
+    const refund: Refund = { ...buildRefund(sale, items, reason, refunds), operator: settings.operatorName || undefined };
+    if (!refund.items.length) return;
+
+    // O servidor confere o que ainda pode ser estornado com todos os estornos da venda
+    // (este terminal pode não ter os antigos carregados, ou outro pode ter estornado antes)
     try {
-      await recordWithdrawal(newWithdrawal, date);
+      await writeNow({ kind: 'recordRefund', payload: refund }, refund.id);
     } catch (e) {
-      console.warn(e);
+      if (e instanceof RejectedWriteError) {
+        showNotification(e.message);
+        return;
+      }
+      throw e;
     }
 
-    showNotification('Retirada registrada!');
+    // O aviso em tempo real do próprio estorno pode chegar antes desta linha
+    const allRefunds = [...refunds, refund];
+    setRefunds(prev => (prev.some(r => r.id === refund.id) ? prev : [...prev, refund]));
+    setSales(prev => prev.map(s => (s.id === sale.id ? { ...s, status: saleStatusAfterRefunds(s, allRefunds) } : s)));
+
+    // Devolve o estoque localmente (o servidor faz o mesmo na transação do estorno)
+    const returned = stockDemand(refund.items, products);
+    setProducts(prev => prev.map(p => (returned.has(p.id) ? { ...p, stock: p.stock + returned.get(p.id)! } : p)));
+
+    showNotification(`Estorno de ${formatCurrency(refund.amount)} registrado.`);
   };
 
-  const today = useMemo(() => new Date().toISOString().split('T')[0], []);
+  const handlePrintReceipt = (sale: Sale) => setReceipt({ sale, copy: true });
+
+  const handleSaveSettings = (newSettings: AppSettings) => {
+    setSettings(newSettings);
+    showNotification('Configurações salvas!');
+  };
+
+  if (!businessDayKey) return null;
+
+  const today = todayBusinessDay();
 
   return (
-    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
-      <Header currentView={currentView} setCurrentView={setCurrentView} />
+    <div key={businessDayKey} className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+      <Header currentView={currentView} setCurrentView={setCurrentView} pendingWrites={pendingWrites} rejectedWrites={rejectedWrites.length} onShowRejected={() => setIsRejectedModalOpen(true)} />
 
       <main className="max-w-6xl mx-auto p-4 md:p-6">
         {currentView === 'register' && (
           <ProductRegistration
             products={products}
+            categories={categories}
             onAddProduct={handleAddProduct}
             onUpdateProduct={handleUpdateProduct}
-            onBulkAddProducts={handleBulkAddProducts}
+            onSetProductActive={handleSetProductActive}
+            onImportProducts={handleImportProducts}
+            onSaveCategories={handleSaveCategories}
+            onRecordStockMovement={handleStockMovement}
+            onLoadStockMovements={handleLoadStockMovements}
           />
         )}
 
         {currentView === 'sales' && (
           cashDrawer.isOpen ? (
-            <SalesScreen products={products} onAddSale={handleAddSale} />
+            <SalesScreen products={products} categories={categories} onAddSale={handleAddSale} onQuickAddProduct={handleAddProduct} pixSettings={settings.pix} />
           ) : (
             <div className="flex flex-col items-center justify-center h-[calc(100vh-150px)] text-center p-4">
               <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-lg">
@@ -308,20 +719,42 @@ const App: React.FC = () => {
         {currentView === 'report' && (
           <DailyReport
             sales={sales}
+            refunds={refunds}
+            onRefundSale={handleRefundSale}
+            onPrintReceipt={handlePrintReceipt}
+            today={today}
             cashDrawer={cashDrawer}
             onOpenCashDrawer={() => setIsCashDrawerModalOpen(true)}
             onEndDay={handleEndDay}
+            onLoadReportTotals={handleLoadReportTotals}
           />
         )}
 
+        {currentView === 'settings' && (
+          <Settings settings={settings} onSave={handleSaveSettings} />
+        )}
+
         {currentView === 'previousReport' && (
           <PreviousReport
             allSales={sales}
+            allRefunds={refunds}
+            onRefundSale={handleRefundSale}
+            onPrintReceipt={handlePrintReceipt}
             historicalReports={historicalReports}
             onAddWithdrawal={handleAddWithdrawal}
             cashDrawer={cashDrawer}
+            today={today}
+            products={products}
+            categories={categories}
+            onLoadRange={handleLoadHistory}
+            isLoadingHistory={loadingHistory > 0}
+            onLoadReportTotals={handleLoadReportTotals}
           />
         )}
+
+        {currentView === 'analytics' && (
+          <SalesAnalytics sales={sales} refunds={refunds} today={today} onLoadRange={handleLoadHistory} isLoadingHistory={loadingHistory > 0} />
+        )}
       </main>
 
       {notification && (
@@ -336,6 +769,29 @@ const App: React.FC = () => {
         onStartDay={handleStartDay}
         previousClosingCash={cashDrawer.previousClosingCash}
       />
+
+      <CashCountModal
+        isOpen={isCashCountModalOpen}
+        expectedCash={expectedCash}
+        soldOutProducts={isCashCountModalOpen ? soldOutDuringDay(products, sales, drawerDay) : []}
+        onClose={() => setIsCashCountModalOpen(false)}
+        onConfirm={handleConfirmCashCount}
+      />
+
+      <ReceiptModal
+        sale={receipt?.sale ?? null}
+        copy={receipt?.copy ?? false}
+        settings={settings.receipt}
+        onClose={() => setReceipt(null)}
+      />
+
+      <RejectedWritesModal
+        isOpen={isRejectedModalOpen}
+        entries={rejectedWrites}
+        onClose={() => setIsRejectedModalOpen(false)}
+        onRetry={handleRetryRejected}
+        onDiscard={entry => discardRejected(entry.id)}
+      />
     </div>
   );
 };
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CashCount, Product } from '../types';
+import { formatCurrency } from '../App';
+import { DENOMINATIONS, buildCashCount, denominationKey, denominationLabel, describeDifference, sumDenominations } from '../lib/cashCount';
+
+interface CashCountModalProps {
+    isOpen: boolean;
+    /** Só é mostrado depois da contagem (contagem cega). */
+    expectedCash: number;
+    /** Produtos que esgotaram durante o dia (aviso para repor). */
+    soldOutProducts: Product[];
+    onClose: () => void;
+    onConfirm: (count: CashCount) => void;
+}
+
+type Step = 'count' | 'review';
+
+const CashCountModal: React.FC<CashCountModalProps> = ({ isOpen, expectedCash, soldOutProducts, onClose, onConfirm }) => {
+    const [step, setStep] = useState<Step>('count');
+    const [counts, setCounts] = useState<Record<string, number>>({});
+
+    useEffect(() => {
+        if (isOpen) {
+            setStep('count');
+            setCounts({});
+        }
+    }, [isOpen]);
+
+    const countedCash = useMemo(() => sumDenominations(counts), [counts]);
+    const result = useMemo(() => buildCashCount(expectedCash, counts), [expectedCash, counts]);
+
+    if (!isOpen) return null;
+
+    const differenceColor = result.difference > 0
+        ? 'text-green-600 dark:text-green-400'
+        : result.difference < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-300';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg">
+                <h2 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">Encerrar Dia</h2>
+
+                {soldOutProducts.length > 0 && (
+                    <div className="mb-4 p-3 rounded-md bg-amber-50 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 text-sm">
+                        <p className="font-semibold">Esgotaram hoje:</p>
+                        <p>{soldOutProducts.map(p => p.name).join(', ')}</p>
+                    </div>
+                )}
+
+                {step === 'count' ? (
+                    <>
+                        <p className="text-gray-600 dark:text-gray-300 mb-4">
+                            Conte o dinheiro da gaveta e informe a quantidade de cada cédula e moeda.
+                            Depois de conferir, a contagem não pode mais ser alterada.
+                        </p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 max-h-80 overflow-y-auto">
+                            {DENOMINATIONS.map(value => {
+                                const key = denominationKey(value);
+                                return (
+                                    <div key={key} className="flex items-center justify-between">
+                                        <label htmlFor={`count-${key}`} className="text-sm font-medium">{denominationLabel(value)}</label>
+                                        <input
+                                            type="number"
+                                            id={`count-${key}`}
+                                            min={0}
+                                            placeholder="0"
+                                            value={counts[key] || ''}
+                                            onChange={e => {
+                                                const quantity = Math.max(0, parseInt(e.target.value) || 0);
+                                                setCounts(prev => ({ ...prev, [key]: quantity }));
+                                            }}
+                                            className="w-20 text-center px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md"
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className="mt-4 flex justify-between text-lg font-bold">
+                            <span>Total contado</span>
+                            <span>{formatCurrency(countedCash)}</span>
+                        </div>
+                    </>
+                ) : (
+                    <div className="mt-4 p-3 rounded-md bg-gray-50 dark:bg-gray-700 space-y-2">
+                        <div className="flex justify-between">
+                            <span>Valor esperado</span>
+                            <span className="font-semibold">{formatCurrency(result.expectedCash)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span>Valor contado</span>
+                            <span className="font-semibold">{formatCurrency(result.countedCash)}</span>
+                        </div>
+                        <div className={`flex justify-between text-lg font-bold ${differenceColor}`}>
+                            <span>{describeDifference(result.difference)}</span>
+                            <span>{formatCurrency(Math.abs(result.difference))}</span>
+                        </div>
+                    </div>
+                )}
+
+                <div className="mt-8 flex justify-end space-x-4">
+                    {step === 'count' ? (
+                        <>
+                            <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 py-2 px-4 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">
+                                Cancelar
+                            </button>
+                            <button type="button" onClick={() => setStep('review')} className="bg-indigo-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-indigo-700 transition-colors">
+                                Conferir
+                            </button>
+                        </>
+                    ) : (
+                        // Com o esperado à vista, a contagem fica travada: só resta fechar com ela
+                        <button type="button" onClick={() => onConfirm(result)} className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700 transition-colors">
+                            Fechar Caixa com {formatCurrency(result.countedCash)}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CashCountModal;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+import { Category, Product } from '../types';
+import { CATEGORY_COLORS, createCategory, sortCategories, validateCategoryName } from '../lib/categories';
+
+interface CategoryManagerProps {
+    isOpen: boolean;
+    categories: Category[];
+    products: Product[];
+    onClose: () => void;
+    onSave: (categories: Category[]) => void;
+}
+
+const inputClass = "mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+/** Cadastro de categorias: nome, cor, ordem das abas e ativa/inativa. */
+const CategoryManager: React.FC<CategoryManagerProps> = ({ isOpen, categories, products, onClose, onSave }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [color, setColor] = useState(CATEGORY_COLORS[0]);
+
+    const resetForm = () => {
+        setEditingId(null);
+        setName('');
+        setColor(CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length]);
+    };
+
+    useEffect(() => {
+        if (isOpen) resetForm();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const sorted = sortCategories(categories);
+    const nameError = name ? validateCategoryName(categories, name, editingId ?? undefined) : null;
+    const activeCount = categories.filter(c => c.active).length;
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || nameError) return;
+        const existing = categories.find(c => c.id === editingId);
+        onSave([existing ? { ...existing, name: name.trim(), color } : createCategory(categories, name, color)]);
+        resetForm();
+    };
+
+    const handleEdit = (category: Category) => {
+        setEditingId(category.id);
+        setName(category.name);
+        setColor(category.color);
+    };
+
+    // Troca a posição com a vizinha; renumera tudo para não depender de valores antigos repetidos
+    const handleMove = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= sorted.length) return;
+        const reordered = [...sorted];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        const changed = reordered
+            .map((c, order) => ({ ...c, sortOrder: order }))
+            .filter(c => c.sortOrder !== categories.find(x => x.id === c.id)?.sortOrder);
+        onSave(changed);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl m-4 max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-start mb-4">
+                    <h2 className="text-xl font-bold">Categorias</h2>
+                    <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 text-2xl leading-none" aria-label="Fechar">&times;</button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end mb-6">
+                    <div className="sm:col-span-2">
+                        <label htmlFor="category-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            {editingId ? 'Renomear categoria' : 'Nova categoria'}
+                        </label>
+                        <input type="text" id="category-name" value={name} onChange={e => setName(e.target.value)} className={inputClass} required />
+                        {nameError && <p className="mt-1 text-sm text-red-500">{nameError}</p>}
+                    </div>
+                    <div>
+                        <label htmlFor="category-color" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Cor</label>
+                        <input type="color" id="category-color" value={color} onChange={e => setColor(e.target.value)} className="mt-1 block w-full h-10 rounded-md border border-gray-300 dark:border-gray-600" />
+                    </div>
+                    <div className="flex space-x-2">
+                        {editingId && (
+                            <button type="button" onClick={resetForm} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 py-2 px-3 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">
+                                Cancelar
+                            </button>
+                        )}
+                        <button type="submit" disabled={!name.trim() || !!nameError} className="flex-grow bg-indigo-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                            {editingId ? 'Salvar' : 'Adicionar'}
+                        </button>
+                    </div>
+                </form>
+
+                <div className="overflow-y-auto">
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {sorted.map((category, index) => {
+                            const productCount = products.filter(p => p.category === category.id).length;
+                            // A última ativa não pode sair: a tela de vendas precisa de pelo menos uma aba
+                            const isLastActive = category.active && activeCount <= 1;
+                            return (
+                                <li key={category.id} className="py-3 flex items-center justify-between text-sm">
+                                    <div className="flex items-center space-x-3">
+                                        <span className="w-4 h-4 rounded-full" style={{ backgroundColor: category.color }} />
+                                        <div>
+                                            <p className={`font-semibold ${category.active ? '' : 'text-gray-400 line-through'}`}>{category.name}</p>
+                                            <p className="text-gray-500 dark:text-gray-400">{productCount} produto(s)</p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center space-x-3">
+                                        <button type="button" onClick={() => handleMove(index, -1)} disabled={index === 0} className="px-2 text-gray-500 disabled:opacity-30" aria-label={`Mover ${category.name} para cima`}>↑</button>
+                                        <button type="button" onClick={() => handleMove(index, 1)} disabled={index === sorted.length - 1} className="px-2 text-gray-500 disabled:opacity-30" aria-label={`Mover ${category.name} para baixo`}>↓</button>
+                                        <button type="button" onClick={() => handleEdit(category)} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-200 font-medium">
+                                            Editar
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => onSave([{ ...category, active: !category.active }])}
+                                            disabled={isLastActive}
+                                            className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white font-medium disabled:opacity-30 disabled:cursor-not-allowed"
+                                        >
+                                            {category.active ? 'Desativar' : 'Ativar'}
+                                        </button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CategoryManager;
@@ -1,7 +1,15 @@
 
-import React, { useMemo } from 'react';
-import { Sale, CashDrawer, PaymentMethod } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Sale, CashDrawer, Refund, RefundItem } from '../types';
 import { formatCurrency } from '../App';
+import { describePayments } from '../lib/payments';
+import { ReportTotals, sumDays } from '../lib/reports';
+import type { DayRange } from '../lib/periods';
+import { useReportTotals } from '../hooks/useReportTotals';
+import { businessDayOf } from '../lib/businessDay';
+import RefundModal from './RefundModal';
+import SaleStatusBadge from './SaleStatusBadge';
+import MarginReport from './MarginReport';
 
 interface StatCardProps {
     title: string;
@@ -26,26 +34,43 @@ const StatCard: React.FC<StatCardProps> = ({ title, value, icon, color }) => (
 
 interface DailyReportProps {
     sales: Sale[];
+    refunds: Refund[];
+    onRefundSale: (sale: Sale, items: RefundItem[], reason: string) => void;
+    /** Abre o cupom da venda para reimpressão. */
+    onPrintReceipt: (sale: Sale) => void;
+    /** Dia de operação atual (YYYY-MM-DD). */
+    today: string;
     cashDrawer: CashDrawer;
     onOpenCashDrawer: () => void;
     onEndDay: () => void;
+    /** Totais do dia (banco quando online, cálculo local quando não). */
+    onLoadReportTotals: (range: DayRange) => Promise<ReportTotals>;
 }
 
-const DailyReport: React.FC<DailyReportProps> = ({ sales, cashDrawer, onOpenCashDrawer, onEndDay }) => {
+const DailyReport: React.FC<DailyReportProps> = ({ sales, refunds, onRefundSale, onPrintReceipt, today, cashDrawer, onOpenCashDrawer, onEndDay, onLoadReportTotals }) => {
+    const [refundingSale, setRefundingSale] = useState<Sale | null>(null);
     
     const todaySales = useMemo(() => {
-        const todayStr = new Date().toISOString().split('T')[0];
-        return sales.filter(sale => new Date(sale.timestamp).toISOString().split('T')[0] === todayStr);
-    }, [sales]);
+        return sales.filter(sale => businessDayOf(sale.timestamp) === today);
+    }, [sales, today]);
+
+    const todayRefunds = useMemo(() => {
+        return refunds.filter(refund => businessDayOf(refund.timestamp) === today);
+    }, [refunds, today]);
+
+    const todayRange = useMemo(() => ({ from: today, to: today }), [today]);
+    const totals = useReportTotals(onLoadReportTotals, todayRange);
 
     const stats = useMemo(() => {
-        const totalSales = todaySales.reduce((acc, sale) => acc + sale.total, 0);
-        const cashSales = todaySales.filter(s => s.paymentMethod === PaymentMethod.Cash).reduce((acc, sale) => acc + sale.total, 0);
-        const pixSales = todaySales.filter(s => s.paymentMethod === PaymentMethod.Pix).reduce((acc, sale) => acc + sale.total, 0);
-        const totalDiscounts = todaySales.reduce((acc, sale) => acc + sale.discountAmount, 0);
-        const cashInDrawer = cashDrawer.openingCash + cashSales;
-        return { totalSales, cashSales, pixSales, totalDiscounts, cashInDrawer };
-    }, [todaySales, cashDrawer.openingCash]);
+        if (!totals) return null;
+        return sumDays(totals.days);
+    }, [totals]);
+    const money = (value: number | undefined) => (value === undefined ? '...' : formatCurrency(value));
+
+    const handleConfirmRefund = (sale: Sale, items: RefundItem[], reason: string) => {
+        onRefundSale(sale, items, reason);
+        setRefundingSale(null);
+    };
 
     if (!cashDrawer.isOpen) {
         return (
@@ -79,21 +104,26 @@ const DailyReport: React.FC<DailyReportProps> = ({ sales, cashDrawer, onOpenCash
             <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
                 <h2 className="text-xl font-bold mb-4">Resumo de vendas</h2>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-                    <StatCard title="Valor total da gira (Pix + dinheiro)" value={formatCurrency(stats.totalSales)} icon={ICONS.total} color="bg-blue-500" />
-                    <StatCard title="Vendas em Dinheiro" value={formatCurrency(stats.cashSales)} icon={ICONS.cash} color="bg-green-500" />
-                    <StatCard title="Vendas por Pix" value={formatCurrency(stats.pixSales)} icon={ICONS.pix} color="bg-sky-500" />
-                    <StatCard title="Total de Descontos" value={formatCurrency(stats.totalDiscounts)} icon={ICONS.discount} color="bg-amber-500" />
+                    <StatCard title="Valor total da gira (Pix + dinheiro)" value={money(stats?.totalSales)} icon={ICONS.total} color="bg-blue-500" />
+                    <StatCard title="Vendas em Dinheiro" value={money(stats?.cashSales)} icon={ICONS.cash} color="bg-green-500" />
+                    <StatCard title="Vendas por Pix" value={money(stats?.pixSales)} icon={ICONS.pix} color="bg-sky-500" />
+                    <StatCard title="Total de Descontos" value={money(stats?.totalDiscounts)} icon={ICONS.discount} color="bg-amber-500" />
+                    {stats && stats.totalRefunds > 0 && (
+                        <StatCard title="Estornos (já descontados)" value={formatCurrency(stats.totalRefunds)} icon={ICONS.discount} color="bg-red-500" />
+                    )}
                 </div>
             </div>
 
             <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
                 <h2 className="text-xl font-bold mb-4">Resumo do Caixa</h2>
+                {/* O valor esperado na gaveta só aparece na conferência do fechamento (contagem cega) */}
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                      <StatCard title="Valor de abertura" value={formatCurrency(cashDrawer.openingCash)} icon={ICONS.drawer} color="bg-gray-500" />
-                     <StatCard title="Total em caixa hoje (dinheiro)" value={formatCurrency(stats.cashInDrawer)} icon={ICONS.cash} color="bg-indigo-500" />
                 </div>
             </div>
 
+            <MarginReport sales={todaySales} refunds={todayRefunds} />
+
             <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
                 <div className="flex justify-between items-center mb-4">
                     <h2 className="text-xl font-bold">Vendas do Dia</h2>
@@ -111,24 +141,46 @@ const DailyReport: React.FC<DailyReportProps> = ({ sales, cashDrawer, onOpenCash
                                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Hora</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Itens</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Pagamento</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Recebido</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Troco</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Desconto</th>
                                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Total</th>
+                                <th className="px-6 py-3"><span className="sr-only">Ações</span></th>
                             </tr>
                         </thead>
                         <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                            {todaySales.map(sale => (
-                               <tr key={sale.id}>
-                                   <td className="px-6 py-4 whitespace-nowrap">{new Date(sale.timestamp).toLocaleTimeString('pt-BR')}</td>
+                               <tr key={sale.id} className={sale.status === 'cancelled' ? 'opacity-60' : ''}>
+                                   <td className="px-6 py-4 whitespace-nowrap">{new Date(sale.timestamp).toLocaleTimeString('pt-BR')}<SaleStatusBadge status={sale.status} /></td>
                                    <td className="px-6 py-4">{sale.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}</td>
-                                   <td className="px-6 py-4">{sale.paymentMethod}</td>
+                                   <td className="px-6 py-4">{describePayments(sale, formatCurrency)}</td>
+                                   <td className="px-6 py-4">{sale.cashTendered !== undefined ? formatCurrency(sale.cashTendered) : '-'}</td>
+                                   <td className="px-6 py-4">{sale.changeDue !== undefined ? formatCurrency(sale.changeDue) : '-'}</td>
                                    <td className="px-6 py-4 text-red-500">{formatCurrency(sale.discountAmount)}</td>
-                                   <td className="px-6 py-4 font-bold">{formatCurrency(sale.total)}</td>
+                                   <td className={`px-6 py-4 font-bold ${sale.status === 'cancelled' ? 'line-through' : ''}`}>{formatCurrency(sale.total)}</td>
+                                   <td className="px-6 py-4 text-right whitespace-nowrap space-x-3">
+                                       <button onClick={() => onPrintReceipt(sale)} className="text-sm text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">
+                                           Recibo
+                                       </button>
+                                       {sale.status !== 'cancelled' && (
+                                           <button onClick={() => setRefundingSale(sale)} className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-200">
+                                               Estornar
+                                           </button>
+                                       )}
+                                   </td>
                                </tr>
                            ))}
                         </tbody>
                     </table>
                 </div>
             </div>
+
+            <RefundModal
+                sale={refundingSale}
+                refunds={refunds}
+                onClose={() => setRefundingSale(null)}
+                onConfirm={handleConfirmRefund}
+            />
         </div>
     );
 };
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Category, HistoricalReport, Product, Refund, Sale } from '../types';
+import type { DayRange } from '../lib/periods';
+import {
+    CsvFormat,
+    EXPORT_DATASET_LABELS,
+    ExportDataset,
+    ExportSheet,
+    downloadCsv,
+    downloadXlsx,
+    drawersSheet,
+    productsSheet,
+    refundsSheet,
+    salesSheet,
+    withdrawalsSheet,
+} from '../lib/exports';
+
+interface ExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    products: Product[];
+    categories: Category[];
+    sales: Sale[];
+    refunds: Refund[];
+    historicalReports: Record<string, HistoricalReport>;
+    today: string;
+    /** Busca no backend os dias do período que ainda não estão carregados. */
+    onLoadRange: (range: DayRange) => void;
+    isLoadingHistory: boolean;
+}
+
+type ExportFormat = 'xlsx' | CsvFormat;
+
+const DATASETS = Object.keys(EXPORT_DATASET_LABELS) as ExportDataset[];
+
+const inputClass = "mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+/** Exporta catálogo, vendas, estornos, sangrias e caixa de um período para a contabilidade. */
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, products, categories, sales, refunds, historicalReports, today, onLoadRange, isLoadingHistory }) => {
+    const [from, setFrom] = useState(`${today.slice(0, 8)}01`);
+    const [to, setTo] = useState(today);
+    const [selected, setSelected] = useState<ExportDataset[]>(DATASETS);
+    const [format, setFormat] = useState<ExportFormat>('xlsx');
+    const [isExporting, setIsExporting] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setFrom(`${today.slice(0, 8)}01`);
+            setTo(today);
+        }
+    }, [isOpen, today]);
+
+    const isRangeValid = !!from && !!to && from <= to;
+
+    useEffect(() => {
+        if (isOpen && isRangeValid) onLoadRange({ from, to });
+    }, [isOpen, isRangeValid, from, to, onLoadRange]);
+
+    if (!isOpen) return null;
+
+    const toggle = (dataset: ExportDataset) => {
+        setSelected(prev => (prev.includes(dataset) ? prev.filter(d => d !== dataset) : [...prev, dataset]));
+    };
+
+    const buildSheet = (dataset: ExportDataset): ExportSheet => {
+        const range = { from, to };
+        switch (dataset) {
+            case 'products':
+                return productsSheet(products, categories);
+            case 'sales':
+                return salesSheet(sales, range);
+            case 'refunds':
+                return refundsSheet(refunds, range);
+            case 'withdrawals':
+                return withdrawalsSheet(historicalReports, range);
+            case 'drawers':
+                return drawersSheet(historicalReports, sales, refunds, range);
+        }
+    };
+
+    const handleExport = async () => {
+        if (!isRangeValid || !selected.length || isLoadingHistory) return;
+        setIsExporting(true);
+        try {
+            const sheets = DATASETS.filter(d => selected.includes(d)).map(buildSheet);
+            const suffix = `${from}_${to}`;
+            if (format === 'xlsx') {
+                await downloadXlsx(`cantina_${suffix}.xlsx`, sheets);
+            } else {
+                // Um arquivo por conjunto de dados (CSV não tem abas)
+                sheets.forEach(sheet => downloadCsv(`${sheet.fileName}_${suffix}.csv`, sheet, format));
+            }
+            onClose();
+        } catch (e) {
+            console.warn('Falha ao exportar:', e);
+            alert('Não foi possível gerar o arquivo.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg">
+                <h2 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white">Exportar Dados</h2>
+
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="export-from" className="block text-sm font-medium text-gray-700 dark:text-gray-300">De</label>
+                        <input type="date" id="export-from" value={from} max={to} onChange={e => setFrom(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="export-to" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Até</label>
+                        <input type="date" id="export-to" value={to} min={from} onChange={e => setTo(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+                {isLoadingHistory && (
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">Carregando histórico do período...</p>
+                )}
+
+                <fieldset className="mt-4">
+                    <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300">Dados</legend>
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                        {DATASETS.map(dataset => (
+                            <label key={dataset} className="flex items-center text-sm">
+                                <input type="checkbox" checked={selected.includes(dataset)} onChange={() => toggle(dataset)} className="h-4 w-4 text-indigo-600" />
+                                <span className="ml-2">{EXPORT_DATASET_LABELS[dataset]}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Produtos saem com o cadastro atual, sem filtro de data.</p>
+                </fieldset>
+
+                <div className="mt-4">
+                    <label htmlFor="export-format" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Formato</label>
+                    <select id="export-format" value={format} onChange={e => setFormat(e.target.value as ExportFormat)} className={inputClass}>
+                        <option value="xlsx">Excel (XLSX, uma aba por tipo)</option>
+                        <option value="pt-BR">CSV padrão brasileiro (; e vírgula decimal)</option>
+                        <option value="standard">CSV internacional (, e ponto decimal)</option>
+                    </select>
+                </div>
+
+                <div className="mt-8 flex justify-end space-x-4">
+                    <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 py-2 px-4 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">
+                        Cancelar
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleExport}
+                        disabled={!isRangeValid || !selected.length || isExporting || isLoadingHistory}
+                        className="bg-indigo-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {isExporting ? 'Gerando...' : 'Exportar'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportModal;
@@ -4,6 +4,10 @@ import type { View } from '../types';
 interface HeaderProps {
     currentView: View;
     setCurrentView: (view: View) => void;
+    pendingWrites: number;
+    rejectedWrites: number;
+    /** Abre a lista de gravações recusadas. */
+    onShowRejected: () => void;
 }
 
 // FIX: Changed component definition to use React.FC for proper typing of a React functional component, resolving an issue where the `key` prop was being incorrectly type-checked.
@@ -20,7 +24,7 @@ const NavButton: React.FC<{ isActive: boolean; onClick: () => void; children: Re
     </button>
 );
 
-const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView }) => {
+const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView, pendingWrites, rejectedWrites, onShowRejected }) => {
     
     const navItems = [
         {
@@ -59,6 +63,25 @@ const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView }) => {
                     <path fillRule="evenodd" d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z" clipRule="evenodd" />
                 </svg>
             )
+        },
+        {
+            view: 'analytics' as View,
+            label: 'Análises',
+            icon: (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M2 10a8 8 0 018-8v8h8a8 8 0 11-16 0z" />
+                    <path d="M12 2.252A8.014 8.014 0 0117.748 8H12V2.252z" />
+                </svg>
+            )
+        },
+        {
+            view: 'settings' as View,
+            label: 'Configurações',
+            icon: (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.533 1.533 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.533 1.533 0 01.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" />
+                </svg>
+            )
         }
     ];
 
@@ -70,6 +93,24 @@ const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView }) => {
                         <path d="M10.707 2.293a1 1 0 00-1.414 0l-7 7a1 1 0 001.414 1.414L4 10.414V17a1 1 0 001 1h2a1 1 0 001-1v-2a1 1 0 011-1h2a1 1 0 011 1v2a1 1 0 001 1h2a1 1 0 001-1v-6.586l.293.293a1 1 0 001.414-1.414l-7-7z" />
                     </svg>
                     <h1 className="text-xl font-bold text-gray-800 dark:text-white">Cantina PDV</h1>
+                    {pendingWrites > 0 && (
+                        <span
+                            className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100"
+                            title="Gravações aguardando conexão com o servidor"
+                        >
+                            {pendingWrites} {pendingWrites === 1 ? 'pendente' : 'pendentes'}
+                        </span>
+                    )}
+                    {rejectedWrites > 0 && (
+                        <button
+                            type="button"
+                            onClick={onShowRejected}
+                            className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100 hover:bg-red-200 dark:hover:bg-red-800"
+                            title="Gravações recusadas pelo servidor (ex.: venda sem estoque). Clique para conferir."
+                        >
+                            {rejectedWrites} {rejectedWrites === 1 ? 'recusada' : 'recusadas'}
+                        </button>
+                    )}
                 </div>
                 <nav className="flex items-center space-x-2 sm:space-x-4">
                     {navItems.map(item => (
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { Category } from '../types';
+import { formatCurrency } from '../App';
+import { ImportAction, ImportPreview, ProductImportPlan, importPlan } from '../lib/productImport';
+import { categoryName } from '../lib/categories';
+
+interface ImportProductsModalProps {
+    /** Prévia da planilha escolhida; null fecha o modal. */
+    preview: ImportPreview | null;
+    fileName: string;
+    categories: Category[];
+    onClose: () => void;
+    onConfirm: (plan: ProductImportPlan) => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, { label: string; className: string }> = {
+    create: { label: 'Novo', className: 'bg-green-100 text-green-800 dark:bg-green-900/60 dark:text-green-200' },
+    update: { label: 'Atualizar', className: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/60 dark:text-indigo-200' },
+    skip: { label: 'Ignorar', className: 'bg-red-100 text-red-800 dark:bg-red-900/60 dark:text-red-200' },
+};
+
+/** Prévia da importação: mostra o que será criado, atualizado ou ignorado (com o motivo). */
+const ImportProductsModal: React.FC<ImportProductsModalProps> = ({ preview, fileName, categories, onClose, onConfirm }) => {
+    const [isDone, setIsDone] = useState(false);
+    const [showOnlyErrors, setShowOnlyErrors] = useState(false);
+
+    useEffect(() => {
+        setIsDone(false);
+        setShowOnlyErrors(false);
+    }, [preview]);
+
+    if (!preview) return null;
+
+    const count = (action: ImportAction) => preview.rows.filter(r => r.action === action).length;
+    const created = count('create');
+    const updated = count('update');
+    const skipped = count('skip');
+    const allCategories = [...categories, ...preview.newCategories];
+    const rows = showOnlyErrors ? preview.rows.filter(r => r.action === 'skip') : preview.rows;
+
+    const handleConfirm = () => {
+        onConfirm(importPlan(preview));
+        setIsDone(true);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-4xl m-4 max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold">{isDone ? 'Importação concluída' : 'Importar Produtos'}</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{fileName}</p>
+                    </div>
+                    <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 text-2xl leading-none" aria-label="Fechar">&times;</button>
+                </div>
+
+                {preview.fileError ? (
+                    <p className="p-3 rounded-md bg-red-50 dark:bg-red-900/40 text-red-800 dark:text-red-200 text-sm">{preview.fileError}</p>
+                ) : (
+                    <>
+                        <div className="mb-4 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                            <span><span className="font-bold">{created}</span> {isDone ? 'criados' : 'novos'}</span>
+                            <span><span className="font-bold">{updated}</span> {isDone ? 'atualizados' : 'a atualizar'}</span>
+                            <span className={skipped ? 'text-red-600 dark:text-red-400' : ''}><span className="font-bold">{skipped}</span> {isDone ? 'ignorados' : 'com erro (serão ignorados)'}</span>
+                            {preview.newCategories.length > 0 && (
+                                <span>Categorias novas: {preview.newCategories.map(c => c.name).join(', ')}</span>
+                            )}
+                            {skipped > 0 && (
+                                <label className="flex items-center ml-auto">
+                                    <input type="checkbox" checked={showOnlyErrors} onChange={e => setShowOnlyErrors(e.target.checked)} className="h-4 w-4 text-indigo-600" />
+                                    <span className="ml-2">Só linhas com erro</span>
+                                </label>
+                            )}
+                        </div>
+
+                        <div className="overflow-y-auto">
+                            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                                <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Linha</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Produto</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Categoria</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Preço</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Custo</th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Estoque</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Ação</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                                    {rows.map(row => (
+                                        <tr key={row.line}>
+                                            <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                                            <td className="px-3 py-2">
+                                                <p className="font-medium">{row.product.name || '-'}</p>
+                                                {row.product.barcode && <p className="text-xs text-gray-500 dark:text-gray-400">{row.product.barcode}</p>}
+                                            </td>
+                                            <td className="px-3 py-2">{categoryName(allCategories, row.product.category)}</td>
+                                            <td className="px-3 py-2 text-right">{isNaN(row.product.price) ? '-' : formatCurrency(row.product.price)}</td>
+                                            <td className="px-3 py-2 text-right">{row.product.costPrice === undefined || isNaN(row.product.costPrice) ? '-' : formatCurrency(row.product.costPrice)}</td>
+                                            <td className="px-3 py-2 text-right">
+                                                {row.existing && row.countedStock !== undefined && row.countedStock !== row.existing.stock
+                                                    ? `${row.existing.stock} → ${row.countedStock}`
+                                                    : row.existing ? row.existing.stock : row.product.stock}
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${ACTION_LABELS[row.action].className}`}>
+                                                    {ACTION_LABELS[row.action].label}
+                                                </span>
+                                                {row.errors.map(error => (
+                                                    <p key={error} className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+                                                ))}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+
+                <div className="mt-6 flex justify-end space-x-4">
+                    {isDone || preview.fileError ? (
+                        <button type="button" onClick={onClose} className="bg-indigo-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-indigo-700 transition-colors">
+                            Fechar
+                        </button>
+                    ) : (
+                        <>
+                            <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 py-2 px-4 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">
+                                Cancelar
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                disabled={created + updated === 0}
+                                className="bg-green-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            >
+                                Importar {created + updated} produto(s)
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportProductsModal;
@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { KitComponent, Product } from '../types';
+import { formatCurrency } from '../App';
+import { isKit, kitCost } from '../lib/kits';
+import { isActiveProduct } from '../lib/products';
+
+interface KitComponentsEditorProps {
+    /** Todos os produtos (para nomes, preços e custos). */
+    products: Product[];
+    value: KitComponent[];
+    onChange: (components: KitComponent[]) => void;
+    /** Preço do kit, para comparar com a soma dos avulsos. */
+    kitPrice: number;
+    error?: string | null;
+}
+
+const inputClass = "block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+/** Composição de um kit/combo: quais produtos e quantos de cada saem do estoque por kit vendido. */
+const KitComponentsEditor: React.FC<KitComponentsEditorProps> = ({ products, value, onChange, kitPrice, error }) => {
+    const [productId, setProductId] = useState('');
+    const [quantity, setQuantity] = useState(1);
+
+    // Kits não entram em kits; produtos já incluídos também saem da lista
+    const options = useMemo(
+        () => products
+            .filter(p => isActiveProduct(p) && !isKit(p) && !value.some(c => c.productId === p.id))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        [products, value]
+    );
+    const byId = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+    const listPrice = value.reduce((acc, c) => acc + (byId.get(c.productId)?.price ?? 0) * c.quantity, 0);
+    const cost = value.length ? kitCost(value, products) : undefined;
+
+    const handleAdd = () => {
+        const id = productId || options[0]?.id;
+        if (!id || quantity <= 0) return;
+        onChange([...value, { productId: id, quantity: Math.floor(quantity) }]);
+        setProductId('');
+        setQuantity(1);
+    };
+
+    return (
+        <div className="p-3 rounded-md border border-gray-200 dark:border-gray-700 space-y-3">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Itens do kit</p>
+            {value.length > 0 && (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    {value.map((component, idx) => (
+                        <li key={component.productId} className="py-1.5 flex items-center justify-between gap-2">
+                            <span className="truncate">{byId.get(component.productId)?.name ?? component.productId}</span>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="number"
+                                    value={component.quantity}
+                                    min={1}
+                                    step={1}
+                                    onChange={e => onChange(value.map((c, i) => (i === idx ? { ...c, quantity: Math.max(1, Math.floor(Number(e.target.value))) } : c)))}
+                                    className="w-16 px-2 py-1 text-center bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md"
+                                    aria-label={`Quantidade de ${byId.get(component.productId)?.name ?? 'item'}`}
+                                />
+                                <button type="button" onClick={() => onChange(value.filter((_, i) => i !== idx))} className="text-red-600 hover:text-red-800 dark:text-red-400" aria-label="Remover do kit">
+                                    &times;
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {options.length > 0 && (
+                <div className="flex gap-2">
+                    <select value={productId || options[0].id} onChange={e => setProductId(e.target.value)} className={inputClass}>
+                        {options.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <input type="number" value={quantity} min={1} step={1} onChange={e => setQuantity(Number(e.target.value))} className="w-20 px-2 py-2 text-center bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md" aria-label="Quantidade" />
+                    <button type="button" onClick={handleAdd} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 px-3 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500">
+                        Incluir
+                    </button>
+                </div>
+            )}
+            {value.length > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Avulsos somam {formatCurrency(listPrice)}
+                    {kitPrice > 0 && listPrice > kitPrice && ` (desconto de ${formatCurrency(listPrice - kitPrice)} no kit)`}
+                    {cost !== undefined ? ` · custo ${formatCurrency(cost)}` : ' · algum item está sem custo'}
+                </p>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+    );
+};
+
+export default KitComponentsEditor;
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { Refund, Sale } from '../types';
+import { formatCurrency } from '../App';
+import { formatMargin, summarizeMargins } from '../lib/margins';
+
+interface MarginReportProps {
+    sales: Sale[];
+    refunds: Refund[];
+}
+
+const Figure: React.FC<{ title: string; value: string; className?: string }> = ({ title, value, className = '' }) => (
+    <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{title}</p>
+        <p className={`text-2xl font-bold ${className}`}>{value}</p>
+    </div>
+);
+
+/** CMV, lucro bruto e margem do período, no total e por produto (desconto rateado entre os itens). */
+const MarginReport: React.FC<MarginReportProps> = ({ sales, refunds }) => {
+    const [byComponent, setByComponent] = useState(false);
+    const hasKits = useMemo(() => sales.some(sale => sale.items.some(item => item.components?.length)), [sales]);
+    const summary = useMemo(
+        () => summarizeMargins(sales, refunds, { byComponent: hasKits && byComponent }),
+        [sales, refunds, hasKits, byComponent]
+    );
+    const uncosted = summary.revenue - summary.costedRevenue;
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+            <h2 className="text-xl font-bold mb-4">Lucro e Margem</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <Figure title="Receita líquida" value={formatCurrency(summary.revenue)} />
+                <Figure title="Custo das mercadorias (CMV)" value={formatCurrency(summary.cost)} />
+                <Figure title="Lucro bruto" value={formatCurrency(summary.profit)} className={summary.profit < 0 ? 'text-red-500' : 'text-green-600 dark:text-green-400'} />
+                <Figure title="Margem" value={formatMargin(summary.margin)} />
+            </div>
+            {uncosted > 0.005 && (
+                <p className="mt-3 text-sm text-amber-700 dark:text-amber-300">
+                    {formatCurrency(uncosted)} em vendas de produtos sem preço de custo ficaram fora do lucro e da margem.
+                </p>
+            )}
+
+            {hasKits && (
+                <div className="mt-6 flex items-center gap-2 text-sm">
+                    <span className="text-gray-500 dark:text-gray-400">Kits por:</span>
+                    {[false, true].map(option => (
+                        <button
+                            key={String(option)}
+                            type="button"
+                            onClick={() => setByComponent(option)}
+                            className={`px-3 py-1 rounded-full font-semibold ${byComponent === option ? 'bg-indigo-600 text-white' : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}
+                        >
+                            {option ? 'Componente' : 'Kit'}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {summary.products.length > 0 && (
+                <div className={`overflow-x-auto ${hasKits ? 'mt-3' : 'mt-6'}`}>
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Produto</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Qtd.</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Receita</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">CMV</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lucro</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Margem</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                            {summary.products.map(row => {
+                                const hasCost = row.costedRevenue !== 0 || row.cost !== 0;
+                                return (
+                                    <tr key={row.key}>
+                                        <td className="px-6 py-4">{row.productName}</td>
+                                        <td className="px-6 py-4 text-right">{row.quantity}</td>
+                                        <td className="px-6 py-4 text-right">{formatCurrency(row.revenue)}</td>
+                                        <td className="px-6 py-4 text-right">{hasCost ? formatCurrency(row.cost) : <span className="text-gray-400" title="Produto sem preço de custo">sem custo</span>}</td>
+                                        <td className={`px-6 py-4 text-right font-semibold ${row.profit < 0 ? 'text-red-500' : ''}`}>{hasCost ? formatCurrency(row.profit) : '-'}</td>
+                                        <td className="px-6 py-4 text-right">{formatMargin(row.margin)}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MarginReport;
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { HistoricalReport, Refund, Sale } from '../types';
+import { formatCurrency } from '../App';
+import { businessDayOf, formatBusinessDay } from '../lib/businessDay';
+import { DayRange, isInRange } from '../lib/periods';
+import { ReportTotals, sumDays } from '../lib/reports';
+import { useReportTotals } from '../hooks/useReportTotals';
+import MarginReport from './MarginReport';
+
+interface PeriodReportProps {
+    sales: Sale[];
+    refunds: Refund[];
+    historicalReports: Record<string, HistoricalReport>;
+    range: DayRange;
+    /** Abre o relatório detalhado do dia. */
+    onSelectDay: (day: string) => void;
+    /** Totais por dia e produto (banco quando online, cálculo local quando não). */
+    onLoadReportTotals: (range: DayRange) => Promise<ReportTotals>;
+}
+
+/** Quantos produtos o ranking mostra antes de "Ver todos". */
+const RANKING_PREVIEW = 10;
+
+const Figure: React.FC<{ title: string; value: string; className?: string }> = ({ title, value, className = '' }) => (
+    <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{title}</p>
+        <p className={`text-2xl font-bold ${className}`}>{value}</p>
+    </div>
+);
+
+const th = "px-4 py-3 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase";
+
+/** Fechamento de um período (semana, mês ou intervalo): totais, dia a dia e ranking de produtos. */
+const PeriodReport: React.FC<PeriodReportProps> = ({ sales, refunds, historicalReports, range, onSelectDay, onLoadReportTotals }) => {
+    const [showAllProducts, setShowAllProducts] = useState(false);
+
+    const periodSales = useMemo(() => sales.filter(s => isInRange(businessDayOf(s.timestamp), range)), [sales, range]);
+    const periodRefunds = useMemo(() => refunds.filter(r => isInRange(businessDayOf(r.timestamp), range)), [refunds, range]);
+
+    const reportTotals = useReportTotals(onLoadReportTotals, range);
+    const days = reportTotals?.days ?? [];
+    const totals = useMemo(() => sumDays(days), [days]);
+    const ranking = reportTotals?.products ?? [];
+    const visibleRanking = showAllProducts ? ranking : ranking.slice(0, RANKING_PREVIEW);
+
+    if (!reportTotals) {
+        return (
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-lg text-center">
+                <h3 className="text-xl font-semibold">Carregando...</h3>
+            </div>
+        );
+    }
+
+    if (!days.length) {
+        return (
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-lg text-center">
+                <h3 className="text-xl font-semibold">Sem movimento no período</h3>
+                <p className="text-gray-500 dark:text-gray-400 mt-2">Nenhuma venda, estorno ou sangria entre {formatBusinessDay(range.from)} e {formatBusinessDay(range.to)}.</p>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                <h2 className="text-xl font-bold mb-1">Resumo de {formatBusinessDay(range.from)} a {formatBusinessDay(range.to)}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{totals.salesCount} venda(s) em {days.length} dia(s) com movimento.</p>
+                {reportTotals.partial && (
+                    <p className="text-sm text-amber-600 dark:text-amber-400 mb-4">Sem conexão: parte do período não está carregada neste terminal, os totais estão incompletos.</p>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <Figure title="Total de Vendas" value={formatCurrency(totals.totalSales)} />
+                    <Figure title="Vendas em Dinheiro" value={formatCurrency(totals.cashSales)} />
+                    <Figure title="Vendas por Pix" value={formatCurrency(totals.pixSales)} />
+                    <Figure title="Total de Descontos" value={formatCurrency(totals.totalDiscounts)} />
+                    <Figure title="Estornos (já descontados)" value={formatCurrency(totals.totalRefunds)} />
+                    <Figure title="Sangrias" value={formatCurrency(totals.totalWithdrawals)} />
+                    <Figure title="Saldo em dinheiro (vendas − sangrias)" value={formatCurrency(totals.netCash)} className={totals.netCash < 0 ? 'text-red-500' : ''} />
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                <h2 className="text-xl font-bold mb-1">Dia a dia</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Clique em um dia para ver o relatório detalhado.</p>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                            <tr>
+                                <th className={`${th} text-left`}>Data</th>
+                                <th className={`${th} text-right`}>Vendas</th>
+                                <th className={`${th} text-right`}>Total</th>
+                                <th className={`${th} text-right`}>Dinheiro</th>
+                                <th className={`${th} text-right`}>Pix</th>
+                                <th className={`${th} text-right`}>Descontos</th>
+                                <th className={`${th} text-right`}>Estornos</th>
+                                <th className={`${th} text-right`}>Sangrias</th>
+                                <th className={`${th} text-right`}>Saldo em dinheiro</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                            {days.map(day => (
+                                <tr key={day.date} onClick={() => onSelectDay(day.date)} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                                    <td className="px-4 py-3">
+                                        <button type="button" className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium">{formatBusinessDay(day.date)}</button>
+                                        {!historicalReports[day.date] && <span className="ml-2 text-xs text-gray-400" title="Sem abertura/fechamento de caixa registrado">sem caixa</span>}
+                                    </td>
+                                    <td className="px-4 py-3 text-right">{day.salesCount}</td>
+                                    <td className="px-4 py-3 text-right font-semibold">{formatCurrency(day.totalSales)}</td>
+                                    <td className="px-4 py-3 text-right">{formatCurrency(day.cashSales)}</td>
+                                    <td className="px-4 py-3 text-right">{formatCurrency(day.pixSales)}</td>
+                                    <td className="px-4 py-3 text-right">{formatCurrency(day.totalDiscounts)}</td>
+                                    <td className="px-4 py-3 text-right">{formatCurrency(day.totalRefunds)}</td>
+                                    <td className="px-4 py-3 text-right">{formatCurrency(day.totalWithdrawals)}</td>
+                                    <td className={`px-4 py-3 text-right ${day.netCash < 0 ? 'text-red-500' : ''}`}>{formatCurrency(day.netCash)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot className="bg-gray-50 dark:bg-gray-700 font-bold">
+                            <tr>
+                                <td className="px-4 py-3">Total</td>
+                                <td className="px-4 py-3 text-right">{totals.salesCount}</td>
+                                <td className="px-4 py-3 text-right">{formatCurrency(totals.totalSales)}</td>
+                                <td className="px-4 py-3 text-right">{formatCurrency(totals.cashSales)}</td>
+                                <td className="px-4 py-3 text-right">{formatCurrency(totals.pixSales)}</td>
+                                <td className="px-4 py-3 text-right">{formatCurrency(totals.totalDiscounts)}</td>
+                                <td className="px-4 py-3 text-right">{formatCurrency(totals.totalRefunds)}</td>
+                                <td className="px-4 py-3 text-right">{formatCurrency(totals.totalWithdrawals)}</td>
+                                <td className="px-4 py-3 text-right">{formatCurrency(totals.netCash)}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            </div>
+
+            {ranking.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                    <h2 className="text-xl font-bold mb-4">Produtos mais vendidos</h2>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                            <thead className="bg-gray-50 dark:bg-gray-700">
+                                <tr>
+                                    <th className={`${th} text-left`}>#</th>
+                                    <th className={`${th} text-left`}>Produto</th>
+                                    <th className={`${th} text-right`}>Qtd.</th>
+                                    <th className={`${th} text-right`}>Receita</th>
+                                    <th className={`${th} text-right`}>% do período</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                                {visibleRanking.map((row, idx) => (
+                                    <tr key={row.key}>
+                                        <td className="px-4 py-3 text-gray-500">{idx + 1}</td>
+                                        <td className="px-4 py-3">{row.productName}</td>
+                                        <td className="px-4 py-3 text-right">{row.quantity}</td>
+                                        <td className="px-4 py-3 text-right font-semibold">{formatCurrency(row.revenue)}</td>
+                                        <td className="px-4 py-3 text-right">{(row.share * 100).toFixed(1).replace('.', ',')}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {ranking.length > RANKING_PREVIEW && (
+                        <button type="button" onClick={() => setShowAllProducts(v => !v)} className="mt-3 text-sm text-indigo-600 dark:text-indigo-400 hover:underline">
+                            {showAllProducts ? 'Mostrar só os primeiros' : `Ver todos (${ranking.length})`}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <MarginReport sales={periodSales} refunds={periodRefunds} />
+        </>
+    );
+};
+
+export default PeriodReport;
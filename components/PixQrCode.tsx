@@ -0,0 +1,61 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import QRCode from 'qrcode';
+import { PixSettings } from '../types';
+import { buildPixPayload } from '../lib/pix';
+import { formatCurrency } from '../App';
+
+interface PixQrCodeProps {
+    settings: PixSettings;
+    amount: number;
+    txid: string;
+}
+
+const PixQrCode: React.FC<PixQrCodeProps> = ({ settings, amount, txid }) => {
+    const [imageUrl, setImageUrl] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const payload = useMemo(() => {
+        if (!settings.key.trim()) return null;
+        return buildPixPayload({ ...settings, amount, txid });
+    }, [settings, amount, txid]);
+
+    useEffect(() => {
+        if (!payload) return;
+        let cancelled = false;
+        // Desenhado no navegador: não depende de internet
+        QRCode.toDataURL(payload, { margin: 1, width: 220, errorCorrectionLevel: 'M' })
+            .then(url => { if (!cancelled) setImageUrl(url); })
+            .catch(e => console.warn('Falha ao gerar QR Code Pix:', e));
+        return () => { cancelled = true; };
+    }, [payload]);
+
+    if (!payload) {
+        return (
+            <p className="text-sm text-amber-600 dark:text-amber-400 text-center">
+                Cadastre a chave Pix em "Configurações" para exibir o QR Code.
+            </p>
+        );
+    }
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(payload);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch {
+            /* clipboard indisponível */
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center space-y-2">
+            {imageUrl && <img src={imageUrl} alt="QR Code Pix" className="w-44 h-44 bg-white p-1 rounded-md" />}
+            <p className="text-sm font-semibold">Pix {formatCurrency(amount)}</p>
+            <button onClick={handleCopy} className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline">
+                {copied ? 'Copiado!' : 'Copiar código Pix (copia e cola)'}
+            </button>
+        </div>
+    );
+};
+
+export default PixQrCode;
@@ -1,7 +1,18 @@
-import React, { useState, useMemo } from 'react';
-import { Sale, HistoricalReport, PaymentMethod, Withdrawal, CashDrawer } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Sale, HistoricalReport, Withdrawal, CashDrawer, Refund, RefundItem, Product, Category } from '../types';
 import { formatCurrency } from '../App';
+import { describePayments } from '../lib/payments';
+import { ReportTotals, sumDays } from '../lib/reports';
+import { useReportTotals } from '../hooks/useReportTotals';
+import { describeDifference } from '../lib/cashCount';
+import { businessDayOf, formatBusinessDay } from '../lib/businessDay';
+import { DayRange, PERIOD_PRESET_LABELS, PeriodPreset, presetRange } from '../lib/periods';
 import WithdrawalModal from './WithdrawalModal';
+import RefundModal from './RefundModal';
+import SaleStatusBadge from './SaleStatusBadge';
+import ExportModal from './ExportModal';
+import MarginReport from './MarginReport';
+import PeriodReport from './PeriodReport';
 
 interface StatCardProps {
     title: string;
@@ -24,38 +35,96 @@ const StatCard: React.FC<StatCardProps> = ({ title, value, icon, color }) => (
 
 interface PreviousReportProps {
     allSales: Sale[];
+    allRefunds: Refund[];
+    onRefundSale: (sale: Sale, items: RefundItem[], reason: string) => void;
+    /** Abre o cupom da venda para reimpressão. */
+    onPrintReceipt: (sale: Sale) => void;
     historicalReports: Record<string, HistoricalReport>;
     onAddWithdrawal: (date: string, amount: number, reason: string) => void;
     cashDrawer: CashDrawer;
+    /** Dia de operação atual (YYYY-MM-DD), selecionado ao abrir a tela. */
+    today: string;
+    /** Usados na exportação do catálogo. */
+    products: Product[];
+    categories: Category[];
+    /** Busca no backend os dias do intervalo que ainda não estão carregados. */
+    onLoadRange: (range: DayRange) => void;
+    isLoadingHistory: boolean;
+    /** Totais por dia e produto (banco quando online, cálculo local quando não). */
+    onLoadReportTotals: (range: DayRange) => Promise<ReportTotals>;
 }
 
-const PreviousReport: React.FC<PreviousReportProps> = ({ allSales, historicalReports, onAddWithdrawal, cashDrawer }) => {
-    const today = new Date().toISOString().split('T')[0];
+const PreviousReport: React.FC<PreviousReportProps> = ({ allSales, allRefunds, onRefundSale, onPrintReceipt, historicalReports, onAddWithdrawal, cashDrawer, today, products, categories, onLoadRange, isLoadingHistory, onLoadReportTotals }) => {
     const [selectedDate, setSelectedDate] = useState(today);
+    const [preset, setPreset] = useState<PeriodPreset>('day');
+    const [customRange, setCustomRange] = useState(() => presetRange('thisMonth', today));
+    /** Período de onde se abriu o dia (para voltar a ele). */
+    const [drilledFrom, setDrilledFrom] = useState<PeriodPreset | null>(null);
     const [isWithdrawalModalOpen, setIsWithdrawalModalOpen] = useState(false);
+    const [refundingSale, setRefundingSale] = useState<Sale | null>(null);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+
+    const range = useMemo(
+        () => (preset === 'custom' ? customRange : presetRange(preset, today)),
+        [preset, customRange, today]
+    );
+    const isRangeValid = !!range.from && !!range.to && range.from <= range.to;
+
+    // Só os dias recentes vêm na inicialização; datas antigas são buscadas ao abrir
+    useEffect(() => {
+        if (preset === 'day') {
+            if (selectedDate) onLoadRange({ from: selectedDate, to: selectedDate });
+        } else if (isRangeValid) {
+            onLoadRange(range);
+        }
+    }, [preset, selectedDate, range, isRangeValid, onLoadRange]);
+
+    const handlePresetChange = (next: PeriodPreset) => {
+        setPreset(next);
+        setDrilledFrom(null);
+    };
+
+    const handleSelectDay = (day: string) => {
+        setSelectedDate(day);
+        setDrilledFrom(preset);
+        setPreset('day');
+    };
 
     const reportData = useMemo(() => {
         return historicalReports[selectedDate];
     }, [selectedDate, historicalReports]);
 
     const salesForSelectedDate = useMemo(() => {
-        return allSales.filter(sale => new Date(sale.timestamp).toISOString().split('T')[0] === selectedDate);
+        return allSales.filter(sale => businessDayOf(sale.timestamp) === selectedDate);
     }, [selectedDate, allSales]);
 
+    const refundsForSelectedDate = useMemo(() => {
+        return allRefunds.filter(refund => businessDayOf(refund.timestamp) === selectedDate);
+    }, [selectedDate, allRefunds]);
+
+    const dayRange = useMemo(
+        () => (preset === 'day' && selectedDate ? { from: selectedDate, to: selectedDate } : null),
+        [preset, selectedDate]
+    );
+    const dayTotals = useReportTotals(onLoadReportTotals, dayRange);
+
     const stats = useMemo(() => {
-        const totalSales = salesForSelectedDate.reduce((acc, sale) => acc + sale.total, 0);
-        const cashSales = salesForSelectedDate.filter(s => s.paymentMethod === PaymentMethod.Cash).reduce((acc, sale) => acc + sale.total, 0);
-        const pixSales = salesForSelectedDate.filter(s => s.paymentMethod === PaymentMethod.Pix).reduce((acc, sale) => acc + sale.total, 0);
-        const totalDiscounts = salesForSelectedDate.reduce((acc, sale) => acc + sale.discountAmount, 0);
-        const totalWithdrawals = reportData?.withdrawals?.reduce((acc, w) => acc + w.amount, 0) || 0;
-        return { totalSales, cashSales, pixSales, totalDiscounts, totalWithdrawals };
-    }, [salesForSelectedDate, reportData]);
+        if (!dayTotals) return null;
+        const { totalSales, cashSales, pixSales, totalDiscounts, totalRefunds, totalWithdrawals } = sumDays(dayTotals.days);
+        return { totalSales, cashSales, pixSales, totalDiscounts, totalRefunds, totalWithdrawals };
+    }, [dayTotals]);
+    const money = (value: number | undefined) => (value === undefined ? '...' : formatCurrency(value));
     
     const handleConfirmWithdrawal = (amount: number, reason: string) => {
         onAddWithdrawal(selectedDate, amount, reason);
         setIsWithdrawalModalOpen(false);
     };
 
+    const handleConfirmRefund = (sale: Sale, items: RefundItem[], reason: string) => {
+        onRefundSale(sale, items, reason);
+        setRefundingSale(null);
+    };
+
     const ICONS = {
         total: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v.01" /></svg>,
         cash: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" /></svg>,
@@ -79,26 +148,87 @@ const PreviousReport: React.FC<PreviousReportProps> = ({ allSales, historicalRep
                 </div>
             </div>
 
-            <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md flex flex-col sm:flex-row items-center space-y-4 sm:space-y-0 sm:space-x-4">
-                <label htmlFor="report-date" className="font-semibold">Selecione uma data para ver o relatório detalhado:</label>
-                <input 
-                    type="date" 
-                    id="report-date"
-                    value={selectedDate}
-                    onChange={e => setSelectedDate(e.target.value)}
-                    className="px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
-                />
+            <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-md space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold mr-2">Período:</span>
+                    {(Object.keys(PERIOD_PRESET_LABELS) as PeriodPreset[]).map(option => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => handlePresetChange(option)}
+                            className={`px-3 py-1.5 rounded-full text-sm font-semibold transition-colors ${preset === option ? 'bg-indigo-600 text-white' : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+                        >
+                            {PERIOD_PRESET_LABELS[option]}
+                        </button>
+                    ))}
+                    <button
+                        onClick={() => setIsExportModalOpen(true)}
+                        className="ml-auto bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-4 py-2 rounded-lg font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                    >
+                        Exportar Dados
+                    </button>
+                </div>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    {preset === 'day' ? (
+                        <>
+                            <label htmlFor="report-date" className="font-semibold">Selecione uma data para ver o relatório detalhado:</label>
+                            <input 
+                                type="date" 
+                                id="report-date"
+                                value={selectedDate}
+                                onChange={e => setSelectedDate(e.target.value)}
+                                className="px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            {drilledFrom && (
+                                <button type="button" onClick={() => handlePresetChange(drilledFrom)} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline">
+                                    &larr; Voltar para {PERIOD_PRESET_LABELS[drilledFrom].toLowerCase()}
+                                </button>
+                            )}
+                        </>
+                    ) : preset === 'custom' ? (
+                        <>
+                            <label htmlFor="report-from" className="font-semibold">De</label>
+                            <input type="date" id="report-from" value={customRange.from} max={customRange.to} onChange={e => setCustomRange({ ...customRange, from: e.target.value })} className="px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                            <label htmlFor="report-to" className="font-semibold">até</label>
+                            <input type="date" id="report-to" value={customRange.to} min={customRange.from} onChange={e => setCustomRange({ ...customRange, to: e.target.value })} className="px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                        </>
+                    ) : (
+                        <p className="text-gray-600 dark:text-gray-300">De {formatBusinessDay(range.from)} a {formatBusinessDay(range.to)}</p>
+                    )}
+                </div>
+                {isLoadingHistory && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Carregando histórico do período...</p>
+                )}
             </div>
-            
-            {reportData ? (
+
+            {preset !== 'day' ? (
+                isRangeValid ? (
+                    <PeriodReport
+                        sales={allSales}
+                        refunds={allRefunds}
+                        historicalReports={historicalReports}
+                        range={range}
+                        onSelectDay={handleSelectDay}
+                        onLoadReportTotals={onLoadReportTotals}
+                    />
+                ) : (
+                    <p className="text-center text-gray-500 dark:text-gray-400">Escolha um intervalo válido.</p>
+                )
+            ) : reportData ? (
                  <>
                     <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
                         <h2 className="text-xl font-bold mb-4">Resumo de vendas</h2>
+                        {dayTotals?.partial && (
+                            <p className="text-sm text-amber-600 dark:text-amber-400 mb-4">Sem conexão: parte do período não está carregada neste terminal, os totais estão incompletos.</p>
+                        )}
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-                            <StatCard title="Total de Vendas" value={formatCurrency(stats.totalSales)} icon={ICONS.total} color="bg-blue-500" />
-                            <StatCard title="Vendas em Dinheiro" value={formatCurrency(stats.cashSales)} icon={ICONS.cash} color="bg-green-500" />
-                            <StatCard title="Vendas por Pix" value={formatCurrency(stats.pixSales)} icon={ICONS.pix} color="bg-sky-500" />
-                            <StatCard title="Total de Descontos" value={formatCurrency(stats.totalDiscounts)} icon={ICONS.discount} color="bg-amber-500" />
+                            <StatCard title="Total de Vendas" value={money(stats?.totalSales)} icon={ICONS.total} color="bg-blue-500" />
+                            <StatCard title="Vendas em Dinheiro" value={money(stats?.cashSales)} icon={ICONS.cash} color="bg-green-500" />
+                            <StatCard title="Vendas por Pix" value={money(stats?.pixSales)} icon={ICONS.pix} color="bg-sky-500" />
+                            <StatCard title="Total de Descontos" value={money(stats?.totalDiscounts)} icon={ICONS.discount} color="bg-amber-500" />
+                            {stats && stats.totalRefunds > 0 && (
+                                <StatCard title="Estornos (já descontados)" value={formatCurrency(stats.totalRefunds)} icon={ICONS.withdrawal} color="bg-red-500" />
+                            )}
                         </div>
                     </div>
 
@@ -114,14 +244,28 @@ const PreviousReport: React.FC<PreviousReportProps> = ({ allSales, historicalRep
                         </div>
                          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
                             <StatCard title="Valor de Abertura" value={formatCurrency(reportData.openingCash)} icon={ICONS.drawer} color="bg-gray-500" />
-                            <StatCard title="Entradas em Dinheiro" value={formatCurrency(stats.cashSales)} icon={ICONS.cash} color="bg-green-500" />
-                            <StatCard title="Total Retirado" value={formatCurrency(stats.totalWithdrawals)} icon={ICONS.withdrawal} color="bg-red-500" />
+                            <StatCard title="Entradas em Dinheiro" value={money(stats?.cashSales)} icon={ICONS.cash} color="bg-green-500" />
+                            <StatCard title="Total Retirado" value={money(stats?.totalWithdrawals)} icon={ICONS.withdrawal} color="bg-red-500" />
                             <StatCard title="Valor de Fechamento" value={formatCurrency(reportData.closingCash)} icon={ICONS.drawer} color="bg-indigo-500" />
                         </div>
+                        {reportData.cashCount && (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+                                <StatCard title="Valor Esperado" value={formatCurrency(reportData.cashCount.expectedCash)} icon={ICONS.drawer} color="bg-gray-500" />
+                                <StatCard title="Valor Contado" value={formatCurrency(reportData.cashCount.countedCash)} icon={ICONS.cash} color="bg-indigo-500" />
+                                <StatCard
+                                    title={describeDifference(reportData.cashCount.difference)}
+                                    value={formatCurrency(Math.abs(reportData.cashCount.difference))}
+                                    icon={ICONS.withdrawal}
+                                    color={reportData.cashCount.difference > 0 ? 'bg-green-500' : reportData.cashCount.difference < 0 ? 'bg-red-500' : 'bg-gray-500'}
+                                />
+                            </div>
+                        )}
                     </div>
 
+                    <MarginReport sales={salesForSelectedDate} refunds={refundsForSelectedDate} />
+
                     <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
-                        <h2 className="text-xl font-bold mb-4">Vendas de {new Date(selectedDate + 'T12:00:00Z').toLocaleDateString('pt-BR')}</h2>
+                        <h2 className="text-xl font-bold mb-4">Vendas de {formatBusinessDay(selectedDate)}</h2>
                         <div className="overflow-x-auto">
                            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
                                 <thead className="bg-gray-50 dark:bg-gray-700">
@@ -129,21 +273,36 @@ const PreviousReport: React.FC<PreviousReportProps> = ({ allSales, historicalRep
                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Hora</th>
                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Itens</th>
                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Pagamento</th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Recebido</th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Troco</th>
                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Desconto</th>
                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Total</th>
+                                        <th className="px-6 py-3"><span className="sr-only">Ações</span></th>
                                     </tr>
                                 </thead>
                                 <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                                    {salesForSelectedDate.length > 0 ? salesForSelectedDate.map(sale => (
-                                       <tr key={sale.id}>
-                                           <td className="px-6 py-4 whitespace-nowrap">{new Date(sale.timestamp).toLocaleTimeString('pt-BR')}</td>
+                                       <tr key={sale.id} className={sale.status === 'cancelled' ? 'opacity-60' : ''}>
+                                           <td className="px-6 py-4 whitespace-nowrap">{new Date(sale.timestamp).toLocaleTimeString('pt-BR')}<SaleStatusBadge status={sale.status} /></td>
                                            <td className="px-6 py-4">{sale.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}</td>
-                                           <td className="px-6 py-4">{sale.paymentMethod}</td>
+                                           <td className="px-6 py-4">{describePayments(sale, formatCurrency)}</td>
+                                           <td className="px-6 py-4">{sale.cashTendered !== undefined ? formatCurrency(sale.cashTendered) : '-'}</td>
+                                           <td className="px-6 py-4">{sale.changeDue !== undefined ? formatCurrency(sale.changeDue) : '-'}</td>
                                            <td className="px-6 py-4 text-red-500">{formatCurrency(sale.discountAmount)}</td>
-                                           <td className="px-6 py-4 font-bold">{formatCurrency(sale.total)}</td>
+                                           <td className={`px-6 py-4 font-bold ${sale.status === 'cancelled' ? 'line-through' : ''}`}>{formatCurrency(sale.total)}</td>
+                                           <td className="px-6 py-4 text-right whitespace-nowrap space-x-3">
+                                               <button onClick={() => onPrintReceipt(sale)} className="text-sm text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">
+                                                   Recibo
+                                               </button>
+                                               {sale.status !== 'cancelled' && (
+                                                   <button onClick={() => setRefundingSale(sale)} className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-200">
+                                                       Estornar
+                                                   </button>
+                                               )}
+                                           </td>
                                        </tr>
                                    )) : (
-                                       <tr><td colSpan={5} className="text-center py-4 text-gray-500">Nenhuma venda neste dia.</td></tr>
+                                       <tr><td colSpan={8} className="text-center py-4 text-gray-500">Nenhuma venda neste dia.</td></tr>
                                    )}
                                 </tbody>
                             </table>
@@ -175,11 +334,47 @@ const PreviousReport: React.FC<PreviousReportProps> = ({ allSales, historicalRep
                             </div>
                         </div>
                     )}
+
+                    {refundsForSelectedDate.length > 0 && (
+                        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                            <h2 className="text-xl font-bold mb-4">Estornos do Dia</h2>
+                            <div className="overflow-x-auto">
+                               <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                                    <thead className="bg-gray-50 dark:bg-gray-700">
+                                        <tr>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Hora</th>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Itens</th>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Valor</th>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Em dinheiro</th>
+                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Motivo / Responsável</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                                       {refundsForSelectedDate.map(refund => (
+                                           <tr key={refund.id}>
+                                               <td className="px-6 py-4 whitespace-nowrap">{new Date(refund.timestamp).toLocaleTimeString('pt-BR')}</td>
+                                               <td className="px-6 py-4">{refund.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}</td>
+                                               <td className="px-6 py-4 font-bold text-red-500">{formatCurrency(refund.amount)}</td>
+                                               <td className="px-6 py-4">{formatCurrency(refund.cashAmount)}</td>
+                                               <td className="px-6 py-4">{refund.reason}</td>
+                                           </tr>
+                                       ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
                 </>
             ) : (
                 <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-lg text-center mt-8">
-                    <h3 className="text-xl font-semibold">Sem dados de relatório</h3>
-                    <p className="text-gray-500 dark:text-gray-400 mt-2">Nenhum relatório de fechamento foi encontrado para esta data. O dia pode não ter sido formalmente encerrado.</p>
+                    {isLoadingHistory ? (
+                        <h3 className="text-xl font-semibold">Carregando...</h3>
+                    ) : (
+                        <>
+                            <h3 className="text-xl font-semibold">Sem dados de relatório</h3>
+                            <p className="text-gray-500 dark:text-gray-400 mt-2">Nenhum relatório de fechamento foi encontrado para esta data. O dia pode não ter sido formalmente encerrado.</p>
+                        </>
+                    )}
                 </div>
             )}
             
@@ -187,7 +382,27 @@ const PreviousReport: React.FC<PreviousReportProps> = ({ allSales, historicalRep
                 isOpen={isWithdrawalModalOpen}
                 onClose={() => setIsWithdrawalModalOpen(false)}
                 onConfirm={handleConfirmWithdrawal}
-                maxAmount={reportData ? reportData.openingCash + stats.cashSales - stats.totalWithdrawals : 0}
+                maxAmount={reportData && stats ? reportData.openingCash + stats.cashSales - stats.totalWithdrawals : 0}
+            />
+
+            <RefundModal
+                sale={refundingSale}
+                refunds={allRefunds}
+                onClose={() => setRefundingSale(null)}
+                onConfirm={handleConfirmRefund}
+            />
+
+            <ExportModal
+                isOpen={isExportModalOpen}
+                onClose={() => setIsExportModalOpen(false)}
+                products={products}
+                categories={categories}
+                sales={allSales}
+                refunds={allRefunds}
+                historicalReports={historicalReports}
+                today={today}
+                onLoadRange={onLoadRange}
+                isLoadingHistory={isLoadingHistory}
             />
         </div>
     );
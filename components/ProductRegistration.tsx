@@ -1,12 +1,28 @@
-import React, { useState, FormEvent, useEffect, useRef } from 'react';
-import { Product } from '../types';
+import React, { useState, FormEvent, useEffect, useRef, useMemo } from 'react';
+import { Category, KitComponent, Product, StockMovement, StockMovementType } from '../types';
 import { formatCurrency } from '../App';
+import StockMovementsModal from './StockMovementsModal';
+import CategoryManager from './CategoryManager';
+import { isLowStock, reorderList, suggestedReorder } from '../lib/stockAlerts';
+import { findProductByCode, normalizeBarcode, validateProductCode } from '../lib/barcode';
+import { activeCategories } from '../lib/categories';
+import { IMPORT_TEMPLATE_HEADERS, ImportPreview, ProductImportPlan, buildImportPreview, readSpreadsheet } from '../lib/productImport';
+import ImportProductsModal from './ImportProductsModal';
+import { ProductStatusFilter, filterByStatus, isActiveProduct } from '../lib/products';
+import { formatMargin, unitMargin } from '../lib/margins';
+import { availableQuantity, isKit, kitCost, validateKitComponents } from '../lib/kits';
+import KitComponentsEditor from './KitComponentsEditor';
 
 interface ProductRegistrationProps {
     products: Product[];
+    categories: Category[];
     onAddProduct: (productData: Omit<Product, 'id'>) => void;
     onUpdateProduct: (updatedProduct: Product) => void;
-    onBulkAddProducts: (newProducts: Omit<Product, 'id'>[]) => void;
+    onSetProductActive: (product: Product, active: boolean) => void;
+    onImportProducts: (plan: ProductImportPlan) => void;
+    onSaveCategories: (categories: Category[]) => void;
+    onRecordStockMovement: (product: Product, type: StockMovementType, value: number, reason: string) => Promise<boolean>;
+    onLoadStockMovements: (productId: string) => Promise<StockMovement[]>;
 }
 
 interface NumberInputProps {
@@ -58,14 +74,35 @@ const NumberInputWithControls: React.FC<NumberInputProps> = ({ label, id, value,
 };
 
 
-const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onAddProduct, onUpdateProduct, onBulkAddProducts }) => {
+const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, categories, onAddProduct, onUpdateProduct, onSetProductActive, onImportProducts, onSaveCategories, onRecordStockMovement, onLoadStockMovements }) => {
     const [name, setName] = useState('');
     const [stock, setStock] = useState(0);
     const [price, setPrice] = useState(0);
-    const [category, setCategory] = useState<'Alimentos' | 'Loja'>('Alimentos');
+    const [costPrice, setCostPrice] = useState(0);
+    const [minStock, setMinStock] = useState(0);
+    const [reorderQuantity, setReorderQuantity] = useState(0);
+    const [barcode, setBarcode] = useState('');
+    const [category, setCategory] = useState('');
+    const [isKitForm, setIsKitForm] = useState(false);
+    const [kitComponents, setKitComponents] = useState<KitComponent[]>([]);
     
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+    const [stockProductId, setStockProductId] = useState<string | null>(null);
+    const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+    const [statusFilter, setStatusFilter] = useState<ProductStatusFilter>('active');
+    const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+    const [importFileName, setImportFileName] = useState('');
+
+    const visibleProducts = useMemo(() => filterByStatus(products, statusFilter), [products, statusFilter]);
+    const archivedCount = useMemo(() => products.filter(p => !isActiveProduct(p)).length, [products]);
+
+    const categoryOptions = useMemo(() => activeCategories(categories), [categories]);
+    // Sem escolha (ou a escolhida foi desativada), usa a primeira categoria ativa
+    const selectedCategory = categoryOptions.some(c => c.id === category) ? category : categoryOptions[0]?.id ?? '';
+    const categoryById = useMemo(() => new Map(categories.map(c => [c.id, c])), [categories]);
+
+    const toReorder = useMemo(() => reorderList(products), [products]);
 
     const [highlightedId, setHighlightedId] = useState<string | null>(null);
     const prevProductsRef = useRef<Product[]>(products);
@@ -85,14 +122,43 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
         prevProductsRef.current = products;
     }, [products]);
 
+    /** Formato inválido ou código já usado por outro produto. */
+    const codeError = (code: string, productId?: string): string | null => {
+        const invalid = validateProductCode(code);
+        if (invalid) return invalid;
+        const owner = findProductByCode(products, code);
+        if (!owner || owner.id === productId) return null;
+        return `Código já usado por "${owner.name}"${isActiveProduct(owner) ? '' : ' (arquivado)'}.`;
+    };
+
+    const addCodeError = codeError(barcode);
+    const editCodeError = editingProduct ? codeError(editingProduct.barcode ?? '', editingProduct.id) : null;
+    /** Custo cadastrado ou, nos kits, a soma dos itens. */
+    const productCost = (product: Product) =>
+        isKit(product) ? kitCost(product.components!, products) : product.costPrice;
+
+    const addKitError = isKitForm ? validateKitComponents(kitComponents, products) : null;
+    const editKitError = editingProduct && isKit(editingProduct)
+        ? validateKitComponents(editingProduct.components ?? [], products, editingProduct.id)
+        : null;
+
     const handleAddSubmit = (e: FormEvent) => {
         e.preventDefault();
+        if (addCodeError || addKitError) return;
         if (name && price >= 0 && stock >= 0) {
-            onAddProduct({ name, stock, price, category });
+            // Kit não tem estoque nem custo próprios: vêm dos itens
+            onAddProduct(isKitForm
+                ? { name, stock: 0, price, category: selectedCategory, components: kitComponents, barcode: normalizeBarcode(barcode) || undefined }
+                : { name, stock, price, costPrice: costPrice > 0 ? costPrice : undefined, category: selectedCategory, minStock, reorderQuantity, barcode: normalizeBarcode(barcode) || undefined });
             setName('');
+            setBarcode('');
             setStock(0);
             setPrice(0);
-            setCategory('Alimentos');
+            setCostPrice(0);
+            setMinStock(0);
+            setReorderQuantity(0);
+            setIsKitForm(false);
+            setKitComponents([]);
         }
     };
     
@@ -103,8 +169,9 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
     
     const handleUpdateSubmit = (e: FormEvent) => {
         e.preventDefault();
+        if (editCodeError || editKitError) return;
         if (editingProduct) {
-            onUpdateProduct(editingProduct);
+            onUpdateProduct({ ...editingProduct, barcode: normalizeBarcode(editingProduct.barcode ?? '') || undefined });
             setHighlightedId(editingProduct.id);
             setTimeout(() => {
                 setHighlightedId(null);
@@ -115,8 +182,8 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
     };
 
     const handleExportTemplate = () => {
-        const headers = 'name,stock,price,category';
-        const exampleRow = 'Exemplo Produto,10,2.50,Alimentos';
+        const headers = IMPORT_TEMPLATE_HEADERS.join(',');
+        const exampleRow = 'Exemplo Produto,10,2.50,1.20,Alimentos,5,20,7891234567895';
         const csvContent = "data:text/csv;charset=utf-8," + [headers, exampleRow].join('\n');
         
         const encodedUri = encodeURI(csvContent);
@@ -132,46 +199,19 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
         fileInputRef.current?.click();
     };
 
-    const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = ''; // Reset input
         if (!file) return;
 
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            const text = event.target?.result as string;
-            const lines = text.split('\n').filter(line => line.trim() !== '');
-            if (lines.length < 2) {
-                alert("CSV vazio ou contém apenas o cabeçalho.");
-                return;
-            }
-
-            const headers = lines[0].split(',').map(h => h.trim());
-            const requiredHeaders = ['name', 'stock', 'price', 'category'];
-            if (!requiredHeaders.every(h => headers.includes(h))) {
-                alert(`Cabeçalho do CSV inválido. Certifique-se de que contém: ${requiredHeaders.join(', ')}`);
-                return;
-            }
-
-            const newProducts: Omit<Product, 'id'>[] = [];
-            for (let i = 1; i < lines.length; i++) {
-                const values = lines[i].split(',');
-                const productData = headers.reduce((obj, header, index) => {
-                    obj[header] = values[index]?.trim();
-                    return obj;
-                }, {} as any);
-
-                const stock = parseInt(productData.stock, 10);
-                const price = parseFloat(productData.price);
-                const category = productData.category === 'Loja' ? 'Loja' : 'Alimentos';
-
-                if (productData.name && !isNaN(stock) && !isNaN(price)) {
-                    newProducts.push({ name: productData.name, stock, price, category });
-                }
-            }
-            onBulkAddProducts(newProducts);
-        };
-        reader.readAsText(file);
-        e.target.value = ''; // Reset input
+        try {
+            const table = await readSpreadsheet(file);
+            setImportFileName(file.name);
+            setImportPreview(buildImportPreview(table, products, categories));
+        } catch (err) {
+            console.warn('Falha ao ler a planilha:', err);
+            alert('Não foi possível ler o arquivo. Use CSV ou XLSX.');
+        }
     };
     
     return (
@@ -192,37 +232,95 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
                                 required
                             />
                         </div>
+                        <div>
+                            <label htmlFor="barcode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Código de barras / SKU (opcional)</label>
+                            <input
+                                type="text"
+                                id="barcode"
+                                value={barcode}
+                                onChange={(e) => setBarcode(e.target.value)}
+                                className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            {addCodeError && <p className="mt-1 text-sm text-red-500">{addCodeError}</p>}
+                        </div>
 
                          <div>
-                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Categoria</label>
-                            <div className="mt-2 flex space-x-4">
-                                <label className="flex items-center">
-                                    <input type="radio" value="Alimentos" checked={category === 'Alimentos'} onChange={() => setCategory('Alimentos')} className="form-radio h-4 w-4 text-indigo-600 transition duration-150 ease-in-out" />
-                                    <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">Alimentos</span>
-                                </label>
-                                <label className="flex items-center">
-                                    <input type="radio" value="Loja" checked={category === 'Loja'} onChange={() => setCategory('Loja')} className="form-radio h-4 w-4 text-indigo-600 transition duration-150 ease-in-out" />
-                                    <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">Loja</span>
-                                </label>
-                            </div>
+                            <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Categoria</label>
+                            <select
+                                id="category"
+                                value={selectedCategory}
+                                onChange={(e) => setCategory(e.target.value)}
+                                className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                                {categoryOptions.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
                         </div>
 
-                        <NumberInputWithControls
-                            label="Estoque"
-                            id="stock"
-                            value={stock}
-                            onValueChange={setStock}
-                            min={0}
-                            step={1}
-                        />
-                        <NumberInputWithControls
-                            label="Preço (R$)"
-                            id="price"
-                            value={price}
-                            onValueChange={setPrice}
-                            min={0}
-                            step={0.50}
-                        />
+                        <label className="flex items-center text-sm">
+                            <input type="checkbox" checked={isKitForm} onChange={e => setIsKitForm(e.target.checked)} className="h-4 w-4 text-indigo-600" />
+                            <span className="ml-2">Kit / combo (baixa o estoque dos itens que o compõem)</span>
+                        </label>
+
+                        {isKitForm ? (
+                            <>
+                                <NumberInputWithControls
+                                    label="Preço (R$)"
+                                    id="price"
+                                    value={price}
+                                    onValueChange={setPrice}
+                                    min={0}
+                                    step={0.50}
+                                />
+                                <KitComponentsEditor products={products} value={kitComponents} onChange={setKitComponents} kitPrice={price} error={addKitError} />
+                            </>
+                        ) : (
+                            <>
+                                <NumberInputWithControls
+                                    label="Estoque inicial"
+                                    id="stock"
+                                    value={stock}
+                                    onValueChange={setStock}
+                                    min={0}
+                                    step={1}
+                                />
+                                <div className="grid grid-cols-2 gap-4">
+                                    <NumberInputWithControls
+                                        label="Preço (R$)"
+                                        id="price"
+                                        value={price}
+                                        onValueChange={setPrice}
+                                        min={0}
+                                        step={0.50}
+                                    />
+                                    <NumberInputWithControls
+                                        label="Custo (R$, opcional)"
+                                        id="cost-price"
+                                        value={costPrice}
+                                        onValueChange={setCostPrice}
+                                        min={0}
+                                        step={0.10}
+                                    />
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <NumberInputWithControls
+                                        label="Estoque mínimo"
+                                        id="min-stock"
+                                        value={minStock}
+                                        onValueChange={setMinStock}
+                                        min={0}
+                                        step={1}
+                                    />
+                                    <NumberInputWithControls
+                                        label="Qtd. para repor"
+                                        id="reorder-quantity"
+                                        value={reorderQuantity}
+                                        onValueChange={setReorderQuantity}
+                                        min={0}
+                                        step={1}
+                                    />
+                                </div>
+                            </>
+                        )}
                         <button type="submit" className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-indigo-700 transition-colors">
                             Adicionar Produto
                         </button>
@@ -231,15 +329,52 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
             </div>
 
             {/* Table Column */}
-            <div className="lg:col-span-3">
+            <div className="lg:col-span-3 space-y-8">
+                {toReorder.length > 0 && (
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                        <h2 className="text-xl font-bold mb-1">Repor</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Produtos no estoque mínimo ou abaixo dele.</p>
+                        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {toReorder.map(product => (
+                                <li key={product.id} className="py-2 flex items-center justify-between text-sm">
+                                    <div>
+                                        <p className="font-semibold">{product.name}</p>
+                                        <p className="text-gray-500 dark:text-gray-400">
+                                            Estoque {product.stock} · mínimo {product.minStock ?? 0} · comprar {suggestedReorder(product)}
+                                        </p>
+                                    </div>
+                                    <button onClick={() => setStockProductId(product.id)} className="text-emerald-600 hover:text-emerald-900 dark:text-emerald-400 dark:hover:text-emerald-200 font-medium">
+                                        Lançar entrada
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
                  <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
                     <div className="flex flex-col sm:flex-row justify-between sm:items-center mb-4 gap-4">
-                        <h2 className="text-xl font-bold">Produtos Cadastrados</h2>
+                        <div className="flex items-center gap-3">
+                            <h2 className="text-xl font-bold">Produtos Cadastrados</h2>
+                            <select
+                                value={statusFilter}
+                                onChange={(e) => setStatusFilter(e.target.value as ProductStatusFilter)}
+                                aria-label="Filtrar produtos"
+                                className="text-sm px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md"
+                            >
+                                <option value="active">Ativos</option>
+                                <option value="archived">Arquivados ({archivedCount})</option>
+                                <option value="all">Todos</option>
+                            </select>
+                        </div>
                         <div className="flex items-center space-x-2">
-                             <input type="file" ref={fileInputRef} onChange={handleFileImport} accept=".csv" className="hidden" />
+                             <input type="file" ref={fileInputRef} onChange={handleFileImport} accept=".csv,.xlsx,.xls,.ods" className="hidden" />
                              <button onClick={handleExportTemplate} className="text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 py-2 px-3 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
                                 Exportar Modelo
                             </button>
+                            <button onClick={() => setIsCategoryManagerOpen(true)} className="text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 py-2 px-3 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
+                                Categorias
+                            </button>
                             <button onClick={handleImportClick} className="text-sm bg-green-600 text-white py-2 px-3 rounded-md font-semibold hover:bg-green-700 transition-colors">
                                 Importar Produtos
                             </button>
@@ -259,16 +394,72 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
                                 </tr>
                             </thead>
                             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                                {products.map((product) => (
-                                    <tr key={product.id} className={product.id === highlightedId ? 'highlight-row' : ''}>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{product.name}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{product.category}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{product.stock}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">{formatCurrency(product.price)}</td>
-                                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                {visibleProducts.length === 0 && (
+                                    <tr>
+                                        <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                                            {statusFilter === 'archived' ? 'Nenhum produto arquivado.' : 'Nenhum produto cadastrado.'}
+                                        </td>
+                                    </tr>
+                                )}
+                                {visibleProducts.map((product) => (
+                                    <tr key={product.id} className={`${product.id === highlightedId ? 'highlight-row' : ''} ${isActiveProduct(product) ? '' : 'opacity-60'}`}>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                                            {product.name}
+                                            {!isActiveProduct(product) && (
+                                                <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">Arquivado</span>
+                                            )}
+                                            {product.barcode && <p className="text-xs font-normal text-gray-500 dark:text-gray-400">{product.barcode}</p>}
+                                            {isKit(product) && (
+                                                <p className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                                                    Kit: {product.components!.map(c => `${c.quantity}x ${products.find(p => p.id === c.productId)?.name ?? c.productId}`).join(' + ')}
+                                                </p>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">
+                                            <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: categoryById.get(product.category)?.color ?? '#9ca3af' }} />
+                                            {categoryById.get(product.category)?.name ?? product.category}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">
+                                            {isKit(product) ? (
+                                                <span title="Kits que o estoque dos itens permite montar">{availableQuantity(product, products)} disp.</span>
+                                            ) : product.stock}
+                                            {isActiveProduct(product) && !isKit(product) && isLowStock(product) && (
+                                                <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/60 dark:text-amber-200">
+                                                    {product.stock <= 0 ? 'Esgotado' : 'Baixo'}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-300">
+                                            {formatCurrency(product.price)}
+                                            {productCost(product) !== undefined && (
+                                                <p className="text-xs text-gray-400">custo {formatCurrency(productCost(product)!)} · margem {formatMargin(unitMargin(product.price, productCost(product)))}</p>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                                            {!isKit(product) && (
+                                                <button onClick={() => setStockProductId(product.id)} className="text-emerald-600 hover:text-emerald-900 dark:text-emerald-400 dark:hover:text-emerald-200">
+                                                    Estoque
+                                                </button>
+                                            )}
                                             <button onClick={() => handleEditClick(product)} className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-200">
                                                 Editar
                                             </button>
+                                            {isActiveProduct(product) ? (
+                                                <button
+                                                    onClick={() => {
+                                                        if (window.confirm(`Arquivar "${product.name}"? Ele sai da tela de vendas, mas continua nos relatórios.`)) {
+                                                            onSetProductActive(product, false);
+                                                        }
+                                                    }}
+                                                    className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+                                                >
+                                                    Arquivar
+                                                </button>
+                                            ) : (
+                                                <button onClick={() => onSetProductActive(product, true)} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200">
+                                                    Restaurar
+                                                </button>
+                                            )}
                                         </td>
                                     </tr>
                                 ))}
@@ -296,34 +487,93 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
                                 />
                             </div>
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Categoria</label>
-                                <div className="mt-2 flex space-x-4">
-                                    <label className="flex items-center">
-                                        <input type="radio" value="Alimentos" checked={editingProduct.category === 'Alimentos'} onChange={() => setEditingProduct({...editingProduct, category: 'Alimentos'})} className="form-radio h-4 w-4 text-indigo-600" />
-                                        <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">Alimentos</span>
-                                    </label>
-                                    <label className="flex items-center">
-                                        <input type="radio" value="Loja" checked={editingProduct.category === 'Loja'} onChange={() => setEditingProduct({...editingProduct, category: 'Loja'})} className="form-radio h-4 w-4 text-indigo-600" />
-                                        <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">Loja</span>
-                                    </label>
-                                </div>
+                                <label htmlFor="edit-barcode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Código de barras / SKU</label>
+                                <input
+                                    type="text"
+                                    id="edit-barcode"
+                                    value={editingProduct.barcode ?? ''}
+                                    onChange={(e) => setEditingProduct({...editingProduct, barcode: e.target.value})}
+                                    className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                />
+                                {editCodeError && <p className="mt-1 text-sm text-red-500">{editCodeError}</p>}
                             </div>
-                           <NumberInputWithControls
-                                label="Estoque"
-                                id="edit-stock"
-                                value={editingProduct.stock}
-                                onValueChange={(value) => setEditingProduct({...editingProduct, stock: value})}
-                                min={0}
-                                step={1}
-                            />
-                            <NumberInputWithControls
-                                label="Preço (R$)"
-                                id="edit-price"
-                                value={editingProduct.price}
-                                onValueChange={(value) => setEditingProduct({...editingProduct, price: value})}
-                                min={0}
-                                step={0.50}
-                            />
+                            <div>
+                                <label htmlFor="edit-category" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Categoria</label>
+                                <select
+                                    id="edit-category"
+                                    value={editingProduct.category}
+                                    onChange={(e) => setEditingProduct({...editingProduct, category: e.target.value})}
+                                    className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                                >
+                                    {/* A categoria atual continua na lista mesmo se estiver inativa */}
+                                    {!categoryOptions.some(c => c.id === editingProduct.category) && (
+                                        <option value={editingProduct.category}>{categoryById.get(editingProduct.category)?.name ?? editingProduct.category}</option>
+                                    )}
+                                    {categoryOptions.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                            </div>
+                            {isKit(editingProduct) ? (
+                                <>
+                                    <NumberInputWithControls
+                                        label="Preço (R$)"
+                                        id="edit-price"
+                                        value={editingProduct.price}
+                                        onValueChange={(value) => setEditingProduct({...editingProduct, price: value})}
+                                        min={0}
+                                        step={0.50}
+                                    />
+                                    <KitComponentsEditor
+                                        products={products.filter(p => p.id !== editingProduct.id)}
+                                        value={editingProduct.components ?? []}
+                                        onChange={(components) => setEditingProduct({...editingProduct, components})}
+                                        kitPrice={editingProduct.price}
+                                        error={editKitError}
+                                    />
+                                </>
+                            ) : (
+                                <>
+                                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                                        Estoque atual: <span className="font-semibold">{editingProduct.stock}</span>. Para alterar, use o botão "Estoque" (entrada, ajuste, perda ou inventário).
+                                    </p>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <NumberInputWithControls
+                                            label="Preço (R$)"
+                                            id="edit-price"
+                                            value={editingProduct.price}
+                                            onValueChange={(value) => setEditingProduct({...editingProduct, price: value})}
+                                            min={0}
+                                            step={0.50}
+                                        />
+                                        {/* Custo 0 = não informado (fica fora da margem) */}
+                                        <NumberInputWithControls
+                                            label="Custo (R$)"
+                                            id="edit-cost-price"
+                                            value={editingProduct.costPrice ?? 0}
+                                            onValueChange={(value) => setEditingProduct({...editingProduct, costPrice: value > 0 ? value : undefined})}
+                                            min={0}
+                                            step={0.10}
+                                        />
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <NumberInputWithControls
+                                            label="Estoque mínimo"
+                                            id="edit-min-stock"
+                                            value={editingProduct.minStock ?? 0}
+                                            onValueChange={(value) => setEditingProduct({...editingProduct, minStock: value})}
+                                            min={0}
+                                            step={1}
+                                        />
+                                        <NumberInputWithControls
+                                            label="Qtd. para repor"
+                                            id="edit-reorder-quantity"
+                                            value={editingProduct.reorderQuantity ?? 0}
+                                            onValueChange={(value) => setEditingProduct({...editingProduct, reorderQuantity: value})}
+                                            min={0}
+                                            step={1}
+                                        />
+                                    </div>
+                                </>
+                            )}
                             <div className="flex justify-end space-x-4 pt-4">
                                 <button type="button" onClick={() => setIsEditModalOpen(false)} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 py-2 px-4 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">
                                     Cancelar
@@ -336,6 +586,29 @@ const ProductRegistration: React.FC<ProductRegistrationProps> = ({ products, onA
                     </div>
                 </div>
             )}
+
+            <StockMovementsModal
+                product={products.find(p => p.id === stockProductId) ?? null}
+                onClose={() => setStockProductId(null)}
+                onLoadMovements={onLoadStockMovements}
+                onRecordMovement={onRecordStockMovement}
+            />
+
+            <ImportProductsModal
+                preview={importPreview}
+                fileName={importFileName}
+                categories={categories}
+                onClose={() => setImportPreview(null)}
+                onConfirm={onImportProducts}
+            />
+
+            <CategoryManager
+                isOpen={isCategoryManagerOpen}
+                categories={categories}
+                products={products}
+                onClose={() => setIsCategoryManagerOpen(false)}
+                onSave={onSaveCategories}
+            />
         </div>
     );
 };
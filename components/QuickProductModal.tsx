@@ -0,0 +1,84 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+import { Category, Product } from '../types';
+import { activeCategories } from '../lib/categories';
+
+interface QuickProductModalProps {
+    /** Código lido que não tem produto; null fecha o modal. */
+    barcode: string | null;
+    categories: Category[];
+    onClose: () => void;
+    onSave: (productData: Omit<Product, 'id'>) => void;
+}
+
+const inputClass = "mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+/** Cadastro rápido a partir da tela de vendas, sem perder o carrinho. */
+const QuickProductModal: React.FC<QuickProductModalProps> = ({ barcode, categories, onClose, onSave }) => {
+    const [name, setName] = useState('');
+    const [price, setPrice] = useState('');
+    const [stock, setStock] = useState('1');
+    const [category, setCategory] = useState('');
+
+    useEffect(() => {
+        setName('');
+        setPrice('');
+        setStock('1');
+        setCategory('');
+    }, [barcode]);
+
+    if (barcode === null) return null;
+
+    const categoryOptions = activeCategories(categories);
+    const selectedCategory = categoryOptions.some(c => c.id === category) ? category : categoryOptions[0]?.id ?? '';
+
+    const priceValue = parseFloat(price);
+    const stockValue = parseInt(stock, 10);
+    const isValid = name.trim() !== '' && !isNaN(priceValue) && priceValue >= 0 && !isNaN(stockValue) && stockValue >= 0;
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+        onSave({ name: name.trim(), price: priceValue, stock: stockValue, category: selectedCategory, barcode });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md">
+                <h2 className="text-2xl font-bold mb-1 text-gray-900 dark:text-white">Cadastrar Produto</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Código {barcode}</p>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="quick-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Nome do Produto</label>
+                        <input type="text" id="quick-name" value={name} onChange={e => setName(e.target.value)} className={inputClass} autoFocus required />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="quick-price" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Preço (R$)</label>
+                            <input type="number" id="quick-price" value={price} onChange={e => setPrice(e.target.value)} min={0} step={0.01} className={inputClass} required />
+                        </div>
+                        <div>
+                            <label htmlFor="quick-stock" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Estoque inicial</label>
+                            <input type="number" id="quick-stock" value={stock} onChange={e => setStock(e.target.value)} min={0} step={1} className={inputClass} required />
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="quick-category" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Categoria</label>
+                        <select id="quick-category" value={selectedCategory} onChange={e => setCategory(e.target.value)} className={inputClass}>
+                            {categoryOptions.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </div>
+                    <div className="mt-8 flex justify-end space-x-4">
+                        <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 py-2 px-4 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">
+                            Cancelar
+                        </button>
+                        <button type="submit" disabled={!isValid} className="bg-indigo-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                            Cadastrar e Adicionar
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default QuickProductModal;
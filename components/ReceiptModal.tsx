@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ReceiptSettings, Sale } from '../types';
+import { PaperWidth, buildReceipt, receiptEscPos, receiptText } from '../lib/receipt';
+import { downloadFile } from '../lib/exports';
+import { sendToPrinterBridge } from '../services/printerBridge';
+
+interface ReceiptModalProps {
+    sale: Sale | null;
+    /** Reimpressão a partir dos relatórios (sai como 2ª via). */
+    copy: boolean;
+    settings: ReceiptSettings;
+    onClose: () => void;
+}
+
+type ReceiptRow = ReturnType<typeof receiptText>[number];
+
+/** Área útil de impressão de cada papel, em mm. */
+const PRINTABLE_MM: Record<PaperWidth, number> = { 58: 48, 80: 72 };
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Imprime pelo diálogo do navegador num iframe escondido, com a página do
+ * tamanho do papel. A fonte é calculada para as colunas caberem na largura útil.
+ */
+function printInBrowser(rows: ReceiptRow[], paperWidth: PaperWidth, title: string) {
+    const columns = Math.max(...rows.map(r => (r.large ? r.text.length * 2 : r.text.length)), 1);
+    const fontSize = PRINTABLE_MM[paperWidth] / columns / 0.6;
+    const body = rows
+        .map(r => `<pre class="${r.bold ? 'b' : ''} ${r.large ? 'l' : ''}">${escapeHtml(r.text) || '&nbsp;'}</pre>`)
+        .join('');
+    const html = `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>
+        @page { size: ${paperWidth}mm auto; margin: 0; }
+        body { margin: 0; padding: 2mm ${(paperWidth - PRINTABLE_MM[paperWidth]) / 2}mm; }
+        pre { margin: 0; font-family: 'Courier New', monospace; font-size: ${fontSize.toFixed(2)}mm; line-height: 1.2; white-space: pre; }
+        .b { font-weight: bold; }
+        .l { font-size: ${(fontSize * 2).toFixed(2)}mm; }
+    </style></head><body>${body}</body></html>`;
+
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+    const doc = frame.contentDocument;
+    if (!doc || !frame.contentWindow) {
+        frame.remove();
+        return;
+    }
+    doc.open();
+    doc.write(html);
+    doc.close();
+    frame.contentWindow.focus();
+    frame.contentWindow.print();
+    // O diálogo de impressão bloqueia até fechar; depois o iframe pode sair
+    setTimeout(() => frame.remove(), 1000);
+}
+
+/** Cupom não fiscal da venda: pré-visualização, impressão pelo navegador, ESC/POS pela ponte ou em arquivo. */
+const ReceiptModal: React.FC<ReceiptModalProps> = ({ sale, copy, settings, onClose }) => {
+    const [paperWidth, setPaperWidth] = useState<PaperWidth>(settings.paperWidth);
+    const [isSending, setIsSending] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+    useEffect(() => {
+        setPaperWidth(settings.paperWidth);
+        setMessage(null);
+    }, [sale?.id, settings.paperWidth]);
+
+    const lines = useMemo(() => (sale ? buildReceipt(sale, settings, { copy }) : []), [sale, settings, copy]);
+    const rows = useMemo(() => receiptText(lines, paperWidth), [lines, paperWidth]);
+
+    if (!sale) return null;
+
+    const handleSend = async () => {
+        setIsSending(true);
+        setMessage(null);
+        try {
+            await sendToPrinterBridge(settings.bridgeUrl, receiptEscPos(lines, paperWidth));
+            setMessage({ text: 'Cupom enviado para a impressora.', error: false });
+        } catch (e) {
+            setMessage({ text: e instanceof Error ? e.message : 'Falha ao imprimir.', error: true });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const handleDownload = () => {
+        downloadFile(`cupom_${sale.id}.bin`, receiptEscPos(lines, paperWidth), 'application/octet-stream');
+    };
+
+    const buttonClass = "px-4 py-2 rounded-md font-semibold transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed";
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-xl max-h-[90vh] flex flex-col">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Cupom {copy ? '(2ª via)' : ''}</h2>
+                    <div className="flex items-center gap-1 text-sm">
+                        {([58, 80] as PaperWidth[]).map(width => (
+                            <button
+                                key={width}
+                                type="button"
+                                onClick={() => setPaperWidth(width)}
+                                className={`px-3 py-1 rounded-full font-semibold ${paperWidth === width ? 'bg-indigo-600 text-white' : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}
+                            >
+                                {width} mm
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="overflow-auto flex-1 flex justify-center bg-gray-100 dark:bg-gray-900 rounded-md p-4">
+                    <div className="bg-white text-black px-3 py-4 shadow font-mono text-xs leading-tight h-fit">
+                        {rows.map((row, idx) => (
+                            <pre key={idx} className={`m-0 whitespace-pre ${row.bold ? 'font-bold' : ''} ${row.large ? 'text-base' : ''}`}>{row.text || ' '}</pre>
+                        ))}
+                    </div>
+                </div>
+
+                {message && (
+                    <p className={`mt-3 text-sm ${message.error ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>
+                )}
+
+                <div className="mt-4 flex flex-wrap justify-end gap-2">
+                    <button type="button" onClick={onClose} className={`${buttonClass} bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500`}>
+                        Fechar
+                    </button>
+                    <button type="button" onClick={handleDownload} className={`${buttonClass} bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500`}>
+                        Baixar ESC/POS
+                    </button>
+                    {settings.bridgeUrl.trim() && (
+                        <button type="button" onClick={handleSend} disabled={isSending} className={`${buttonClass} bg-green-600 text-white hover:bg-green-700`}>
+                            {isSending ? 'Enviando...' : 'Enviar à impressora'}
+                        </button>
+                    )}
+                    <button type="button" onClick={() => printInBrowser(rows, paperWidth, `Cupom ${sale.id}`)} className={`${buttonClass} bg-indigo-600 text-white hover:bg-indigo-700`}>
+                        Imprimir
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReceiptModal;
@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Refund, RefundItem, Sale } from '../types';
+import { formatCurrency } from '../App';
+import { buildRefund, refundableQuantities } from '../lib/refunds';
+
+interface RefundModalProps {
+    sale: Sale | null;
+    refunds: Refund[];
+    onClose: () => void;
+    onConfirm: (sale: Sale, items: RefundItem[], reason: string) => void;
+}
+
+const RefundModal: React.FC<RefundModalProps> = ({ sale, refunds, onClose, onConfirm }) => {
+    const [refundAll, setRefundAll] = useState(true);
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const remaining = useMemo(() => (sale ? refundableQuantities(sale, refunds) : {}), [sale, refunds]);
+
+    useEffect(() => {
+        setRefundAll(true);
+        setQuantities({});
+        setReason('');
+        setError(null);
+    }, [sale]);
+
+    const selectedItems = useMemo<RefundItem[]>(() => {
+        if (!sale) return [];
+        return sale.items
+            .map(item => ({
+                productId: item.productId,
+                productName: item.productName,
+                pricePerItem: item.pricePerItem,
+                costPerItem: item.costPerItem,
+                components: item.components,
+                quantity: refundAll ? Math.max(0, remaining[item.productId] ?? 0) : quantities[item.productId] ?? 0,
+            }))
+            .filter(item => item.quantity > 0);
+    }, [sale, refundAll, quantities, remaining]);
+
+    const preview = useMemo(
+        () => (sale && selectedItems.length ? buildRefund(sale, selectedItems, reason, refunds) : null),
+        [sale, selectedItems, reason, refunds]
+    );
+
+    if (!sale) return null;
+
+    const handleConfirm = () => {
+        if (!selectedItems.length) {
+            setError('Selecione ao menos um item para estornar.');
+            return;
+        }
+        if (!reason.trim()) {
+            setError('Por favor, informe o motivo do estorno.');
+            return;
+        }
+        onConfirm(sale, selectedItems, reason.trim());
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-lg">
+                <h2 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">Estornar Venda</h2>
+                <p className="text-gray-600 dark:text-gray-300 mb-4">
+                    Venda de {new Date(sale.timestamp).toLocaleString('pt-BR')} — {formatCurrency(sale.total)}.
+                    Os itens estornados voltam para o estoque.
+                </p>
+
+                <label className="flex items-center mb-4">
+                    <input
+                        type="checkbox"
+                        checked={refundAll}
+                        onChange={e => { setRefundAll(e.target.checked); setError(null); }}
+                        className="h-4 w-4 text-indigo-600"
+                    />
+                    <span className="ml-2 text-sm font-medium">Estornar a venda inteira</span>
+                </label>
+
+                {!refundAll && (
+                    <div className="space-y-2 mb-4 max-h-60 overflow-y-auto">
+                        {sale.items.map(item => {
+                            const max = Math.max(0, remaining[item.productId] ?? 0);
+                            return (
+                                <div key={item.productId} className="flex items-center justify-between">
+                                    <div>
+                                        <p className="font-semibold">{item.productName}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {formatCurrency(item.pricePerItem)} · vendidos {item.quantity} · estornáveis {max}
+                                        </p>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={max}
+                                        value={quantities[item.productId] ?? 0}
+                                        disabled={max === 0}
+                                        onChange={e => {
+                                            const value = Math.max(0, Math.min(max, parseInt(e.target.value) || 0));
+                                            setQuantities(prev => ({ ...prev, [item.productId]: value }));
+                                            setError(null);
+                                        }}
+                                        className="w-16 text-center px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md"
+                                    />
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <div>
+                    <label htmlFor="refund-reason" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Motivo / Responsável</label>
+                    <input
+                        type="text"
+                        id="refund-reason"
+                        value={reason}
+                        onChange={e => { setReason(e.target.value); setError(null); }}
+                        className="mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                        required
+                    />
+                </div>
+
+                {preview && (
+                    <div className="mt-4 p-3 rounded-md bg-gray-50 dark:bg-gray-700 text-sm space-y-1">
+                        <div className="flex justify-between font-bold">
+                            <span>Valor a devolver</span>
+                            <span>{formatCurrency(preview.amount)}</span>
+                        </div>
+                        <div className="flex justify-between text-gray-600 dark:text-gray-300">
+                            <span>Sai do caixa (dinheiro)</span>
+                            <span>{formatCurrency(preview.cashAmount)}</span>
+                        </div>
+                    </div>
+                )}
+
+                {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
+
+                <div className="mt-8 flex justify-end space-x-4">
+                    <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 py-2 px-4 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">
+                        Cancelar
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleConfirm}
+                        disabled={!selectedItems.length || !reason.trim()}
+                        className="bg-red-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-red-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        Confirmar Estorno
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RefundModal;
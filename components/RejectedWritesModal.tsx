@@ -0,0 +1,87 @@
+import React from 'react';
+import { formatCurrency } from '../App';
+import { formatBusinessDay } from '../lib/businessDay';
+import type { OutboxEntry, OutboxOperation } from '../services/outbox';
+
+interface RejectedWritesModalProps {
+    isOpen: boolean;
+    entries: OutboxEntry[];
+    onClose: () => void;
+    onRetry: (entry: OutboxEntry) => void;
+    onDiscard: (entry: OutboxEntry) => void;
+}
+
+/** O que a gravação fazia, em uma linha. */
+function describeOperation(op: OutboxOperation): string {
+    switch (op.kind) {
+        case 'upsertProduct':
+            return `Cadastro do produto "${op.payload.name}"`;
+        case 'upsertProducts':
+            return `Cadastro de ${op.payload.length} produtos`;
+        case 'upsertCategory':
+            return `Categoria "${op.payload.name}"`;
+        case 'commitSale':
+            return `Venda de ${formatCurrency(op.payload.total)}: ${op.payload.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}`;
+        case 'openCashDrawer':
+            return `Abertura do caixa de ${formatBusinessDay(op.payload.date)} (${formatCurrency(op.payload.openingAmount)})`;
+        case 'closeCashDrawer':
+            return `Fechamento do caixa de ${formatBusinessDay(op.payload.date)} (${formatCurrency(op.payload.closingCash)})`;
+        case 'recordWithdrawal':
+            return `Retirada de ${formatCurrency(op.payload.withdrawal.amount)}: ${op.payload.withdrawal.reason}`;
+        case 'recordRefund':
+            return `Estorno de ${formatCurrency(op.payload.amount)}: ${op.payload.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}`;
+        case 'recordStockMovement':
+            return `Movimento de estoque (${op.payload.quantity > 0 ? '+' : ''}${op.payload.quantity}): ${op.payload.reason}`;
+    }
+}
+
+/** Gravações recusadas pelo servidor: o motivo de cada uma, com reenviar ou descartar. */
+const RejectedWritesModal: React.FC<RejectedWritesModalProps> = ({ isOpen, entries, onClose, onRetry, onDiscard }) => {
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col">
+                <h2 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">Gravações recusadas</h2>
+                <p className="text-gray-600 dark:text-gray-300 mb-4">
+                    O servidor recusou estas gravações. Vendas, estornos e movimentos de estoque recusados já foram desfeitos neste terminal.
+                    Corrija a causa (ex.: reponha o estoque) e tente de novo, ou descarte.
+                </p>
+
+                <div className="overflow-y-auto flex-1 divide-y divide-gray-200 dark:divide-gray-700">
+                    {entries.length === 0 && <p className="py-4 text-center text-gray-500">Nenhuma gravação recusada.</p>}
+                    {entries.map(entry => (
+                        <div key={entry.id} className="py-3 flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                                <p className="font-medium">{describeOperation(entry.op)}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(entry.createdAt).toLocaleString('pt-BR')}</p>
+                                {entry.lastError && <p className="mt-1 text-sm text-red-500 break-words">{entry.lastError}</p>}
+                            </div>
+                            <div className="flex gap-3 shrink-0">
+                                <button onClick={() => onRetry(entry)} className="text-sm text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200">
+                                    Tentar de novo
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        if (window.confirm('Descartar esta gravação? Ela não será enviada ao servidor.')) onDiscard(entry);
+                                    }}
+                                    className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-200"
+                                >
+                                    Descartar
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mt-4 flex justify-end">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-500 font-semibold transition-colors">
+                        Fechar
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RejectedWritesModal;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { SaleStatus } from '../types';
+
+const LABELS: Record<Exclude<SaleStatus, 'completed'>, { text: string; className: string }> = {
+    cancelled: { text: 'Cancelada', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100' },
+    partially_refunded: { text: 'Estorno parcial', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100' },
+};
+
+/** Selo mostrado nas tabelas de vendas quando a venda teve estorno. */
+const SaleStatusBadge: React.FC<{ status?: SaleStatus }> = ({ status }) => {
+    if (!status || status === 'completed') return null;
+    const { text, className } = LABELS[status];
+    return (
+        <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${className}`}>{text}</span>
+    );
+};
+
+export default SaleStatusBadge;
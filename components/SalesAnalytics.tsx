@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Refund, Sale } from '../types';
+import { formatCurrency } from '../App';
+import { addDays, businessDayOf, formatBusinessDay, weekdayOf } from '../lib/businessDay';
+import type { DayRange } from '../lib/periods';
+import {
+    SalesMetrics,
+    relativeChange,
+    salesByHour,
+    salesMetrics,
+    slotLabel,
+    topProducts,
+    untilTimeOfDay,
+    weekdayHourHeatmap,
+} from '../lib/analytics';
+
+interface SalesAnalyticsProps {
+    sales: Sale[];
+    refunds: Refund[];
+    /** Dia de operação atual (YYYY-MM-DD). */
+    today: string;
+    /** Busca no backend os dias do intervalo que ainda não estão carregados. */
+    onLoadRange: (range: DayRange) => void;
+    isLoadingHistory: boolean;
+}
+
+type AnalyticsPeriod = 1 | 7 | 30;
+
+const PERIOD_LABELS: Record<AnalyticsPeriod, string> = { 1: 'Hoje', 7: 'Últimos 7 dias', 30: 'Últimos 30 dias' };
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+const WEEKDAY_NAMES = ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado'];
+
+const formatNumber = (value: number, digits = 1) => value.toFixed(digits).replace('.', ',');
+
+const Figure: React.FC<{ title: string; value: string }> = ({ title, value }) => (
+    <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{title}</p>
+        <p className="text-2xl font-bold">{value}</p>
+    </div>
+);
+
+const Change: React.FC<{ current: number; previous: number }> = ({ current, previous }) => {
+    const change = relativeChange(current, previous);
+    if (change === null) return <span className="text-gray-400">-</span>;
+    const color = change > 0 ? 'text-green-600 dark:text-green-400' : change < 0 ? 'text-red-500' : 'text-gray-500';
+    return <span className={`font-semibold ${color}`}>{change > 0 ? '+' : ''}{formatNumber(change * 100)}%</span>;
+};
+
+/** Barras horizontais simples (largura proporcional ao maior valor). */
+const BarList: React.FC<{ rows: { key: string; label: string; value: number; display: string }[]; color: string }> = ({ rows, color }) => {
+    const max = Math.max(...rows.map(r => r.value), 0);
+    if (!rows.length) return <p className="text-sm text-gray-500 dark:text-gray-400">Sem vendas no período.</p>;
+    return (
+        <ul className="space-y-2">
+            {rows.map(row => (
+                <li key={row.key} className="text-sm">
+                    <div className="flex justify-between mb-0.5">
+                        <span className="truncate mr-2">{row.label}</span>
+                        <span className="font-semibold whitespace-nowrap">{row.display}</span>
+                    </div>
+                    <div className="h-2 rounded bg-gray-100 dark:bg-gray-700">
+                        <div className={`h-2 rounded ${color}`} style={{ width: `${max > 0 ? (row.value / max) * 100 : 0}%` }} />
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+/** Primeira e última hora com vendas (para não desenhar a madrugada vazia). */
+function activeSlots(...series: number[][]): number[] {
+    const used = Array.from({ length: 24 }, (_, slot) => slot).filter(slot => series.some(values => values[slot] > 0));
+    if (!used.length) return [];
+    const slots: number[] = [];
+    for (let slot = used[0]; slot <= used[used.length - 1]; slot++) slots.push(slot);
+    return slots;
+}
+
+/** Mais vendidos, horários de pico e comparação com o mesmo dia da semana anterior. */
+const SalesAnalytics: React.FC<SalesAnalyticsProps> = ({ sales, refunds, today, onLoadRange, isLoadingHistory }) => {
+    const [period, setPeriod] = useState<AnalyticsPeriod>(7);
+
+    // O período (e a semana passada, para a comparação) pode ir além dos dias recentes
+    useEffect(() => {
+        onLoadRange({ from: addDays(today, -Math.max(period - 1, 7)), to: today });
+    }, [today, period, onLoadRange]);
+
+    const byDay = useMemo(() => {
+        const from = addDays(today, -(period - 1));
+        return {
+            sales: sales.filter(s => { const d = businessDayOf(s.timestamp); return d >= from && d <= today; }),
+            refunds: refunds.filter(r => { const d = businessDayOf(r.timestamp); return d >= from && d <= today; }),
+        };
+    }, [sales, refunds, today, period]);
+
+    const metrics = useMemo(() => salesMetrics(byDay.sales, byDay.refunds), [byDay]);
+    const topByQuantity = useMemo(() => topProducts(byDay.sales, byDay.refunds, 'quantity'), [byDay]);
+    const topByRevenue = useMemo(() => topProducts(byDay.sales, byDay.refunds, 'revenue'), [byDay]);
+    const hourly = useMemo(() => salesByHour(byDay.sales), [byDay]);
+    const heatmap = useMemo(() => weekdayHourHeatmap(byDay.sales), [byDay]);
+
+    // Hoje x mesmo dia da semana passada: até o horário atual e o dia inteiro
+    const lastWeek = addDays(today, -7);
+    const comparison = useMemo(() => {
+        const todaySales = sales.filter(s => businessDayOf(s.timestamp) === today);
+        const todayRefunds = refunds.filter(r => businessDayOf(r.timestamp) === today);
+        const previousSales = sales.filter(s => businessDayOf(s.timestamp) === lastWeek);
+        const previousRefunds = refunds.filter(r => businessDayOf(r.timestamp) === lastWeek);
+        const now = new Date();
+        return {
+            today: salesMetrics(todaySales, todayRefunds),
+            sameTime: salesMetrics(untilTimeOfDay(previousSales, now), untilTimeOfDay(previousRefunds, now)),
+            fullDay: salesMetrics(previousSales, previousRefunds),
+            todayHourly: salesByHour(todaySales).map(h => h.count),
+            previousHourly: salesByHour(previousSales).map(h => h.count),
+        };
+    }, [sales, refunds, today, lastWeek]);
+
+    const hourlyCounts = hourly.map(h => h.count);
+    const hourSlots = activeSlots(hourlyCounts);
+    const peakSlot = hourSlots.reduce((best, slot) => (hourlyCounts[slot] > hourlyCounts[best] ? slot : best), hourSlots[0] ?? 0);
+    const maxHourly = Math.max(...hourlyCounts, 0);
+
+    const comparisonSlots = activeSlots(comparison.todayHourly, comparison.previousHourly);
+    const maxComparison = Math.max(...comparison.todayHourly, ...comparison.previousHourly, 0);
+
+    const heatmapSlots = activeSlots(...heatmap);
+    const maxHeat = Math.max(...heatmap.flat(), 0);
+
+    const comparisonRows: { label: string; pick: (m: SalesMetrics) => number; format: (v: number) => string }[] = [
+        { label: 'Receita', pick: m => m.revenue, format: formatCurrency },
+        { label: 'Vendas', pick: m => m.salesCount, format: v => String(v) },
+        { label: 'Ticket médio', pick: m => m.averageTicket, format: formatCurrency },
+        { label: 'Itens por venda', pick: m => m.itemsPerSale, format: v => formatNumber(v) },
+    ];
+
+    return (
+        <div className="space-y-8 mt-6">
+            <div className="flex flex-wrap items-center gap-2">
+                <h1 className="text-3xl font-bold text-gray-800 dark:text-white mr-4">Análises</h1>
+                {([1, 7, 30] as AnalyticsPeriod[]).map(option => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => setPeriod(option)}
+                        className={`px-3 py-1.5 rounded-full text-sm font-semibold transition-colors ${period === option ? 'bg-indigo-600 text-white' : 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+                    >
+                        {PERIOD_LABELS[option]}
+                    </button>
+                ))}
+                {isLoadingHistory && <span className="text-sm text-gray-500 dark:text-gray-400">Carregando histórico...</span>}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                <h2 className="text-xl font-bold mb-4">{PERIOD_LABELS[period]}</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <Figure title="Receita" value={formatCurrency(metrics.revenue)} />
+                    <Figure title="Vendas" value={String(metrics.salesCount)} />
+                    <Figure title="Ticket médio" value={formatCurrency(metrics.averageTicket)} />
+                    <Figure title="Itens por venda" value={formatNumber(metrics.itemsPerSale)} />
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                <h2 className="text-xl font-bold mb-1">Hoje x {WEEKDAY_NAMES[weekdayOf(lastWeek)]} da semana passada</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    {formatBusinessDay(today)} comparado com {formatBusinessDay(lastWeek)}, no mesmo horário e no dia inteiro.
+                </p>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase"></th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Hoje</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Semana passada até agora</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Variação</th>
+                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Semana passada (dia inteiro)</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {comparisonRows.map(row => (
+                                <tr key={row.label}>
+                                    <td className="px-4 py-2 font-medium">{row.label}</td>
+                                    <td className="px-4 py-2 text-right font-semibold">{row.format(row.pick(comparison.today))}</td>
+                                    <td className="px-4 py-2 text-right">{row.format(row.pick(comparison.sameTime))}</td>
+                                    <td className="px-4 py-2 text-right"><Change current={row.pick(comparison.today)} previous={row.pick(comparison.sameTime)} /></td>
+                                    <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{row.format(row.pick(comparison.fullDay))}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {comparisonSlots.length > 0 && (
+                    <>
+                        <div className="mt-6 flex items-end gap-1 h-40" role="img" aria-label="Vendas por hora: hoje e semana passada">
+                            {comparisonSlots.map(slot => (
+                                <div key={slot} className="flex-1 flex flex-col items-center justify-end h-full">
+                                    <div className="w-full flex items-end justify-center gap-0.5 flex-1">
+                                        <div className="w-1/2 bg-gray-300 dark:bg-gray-600 rounded-t" style={{ height: `${maxComparison ? (comparison.previousHourly[slot] / maxComparison) * 100 : 0}%` }} title={`Semana passada: ${comparison.previousHourly[slot]}`} />
+                                        <div className="w-1/2 bg-indigo-500 rounded-t" style={{ height: `${maxComparison ? (comparison.todayHourly[slot] / maxComparison) * 100 : 0}%` }} title={`Hoje: ${comparison.todayHourly[slot]}`} />
+                                    </div>
+                                    <span className="text-[10px] text-gray-500 mt-1">{slotLabel(slot)}</span>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="mt-2 flex gap-4 text-xs text-gray-500 dark:text-gray-400">
+                            <span><span className="inline-block w-3 h-3 rounded bg-indigo-500 mr-1 align-middle" />Hoje</span>
+                            <span><span className="inline-block w-3 h-3 rounded bg-gray-300 dark:bg-gray-600 mr-1 align-middle" />Semana passada</span>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                    <h2 className="text-xl font-bold mb-4">Mais vendidos (quantidade)</h2>
+                    <BarList
+                        color="bg-indigo-500"
+                        rows={topByQuantity.map(p => ({ key: p.key, label: p.productName, value: p.quantity, display: `${p.quantity} un.` }))}
+                    />
+                </div>
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                    <h2 className="text-xl font-bold mb-4">Mais vendidos (receita)</h2>
+                    <BarList
+                        color="bg-green-500"
+                        rows={topByRevenue.map(p => ({ key: p.key, label: p.productName, value: p.revenue, display: formatCurrency(p.revenue) }))}
+                    />
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                <h2 className="text-xl font-bold mb-1">Vendas por hora</h2>
+                {hourSlots.length ? (
+                    <>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                            Pico às {slotLabel(peakSlot)}: {hourlyCounts[peakSlot]} venda(s), {formatCurrency(hourly[peakSlot].revenue)}.
+                        </p>
+                        <div className="flex items-end gap-1 h-40" role="img" aria-label="Vendas por hora no período">
+                            {hourSlots.map(slot => (
+                                <div key={slot} className="flex-1 flex flex-col items-center justify-end h-full">
+                                    <span className="text-[10px] text-gray-500">{hourlyCounts[slot] || ''}</span>
+                                    <div
+                                        className={`w-full rounded-t ${slot === peakSlot ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                                        style={{ height: `${maxHourly ? (hourlyCounts[slot] / maxHourly) * 100 : 0}%` }}
+                                        title={`${slotLabel(slot)}: ${hourlyCounts[slot]} venda(s)`}
+                                    />
+                                    <span className="text-[10px] text-gray-500 mt-1">{slotLabel(slot)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Sem vendas no período.</p>
+                )}
+            </div>
+
+            {period > 1 && heatmapSlots.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg">
+                    <h2 className="text-xl font-bold mb-1">Movimento por dia da semana e hora</h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Média de vendas por hora em cada dia da semana do período.</p>
+                    <div className="overflow-x-auto">
+                        <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+                            <thead>
+                                <tr>
+                                    <th></th>
+                                    {heatmapSlots.map(slot => <th key={slot} className="font-normal text-gray-500 px-1">{slotLabel(slot)}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {heatmap.map((row, weekday) => (
+                                    <tr key={weekday}>
+                                        <th className="font-normal text-gray-500 pr-2 text-left">{WEEKDAYS[weekday]}</th>
+                                        {heatmapSlots.map(slot => (
+                                            <td
+                                                key={slot}
+                                                className="w-8 h-7 rounded text-center"
+                                                style={{ backgroundColor: `rgba(79, 70, 229, ${maxHeat ? Math.max(0.05, row[slot] / maxHeat) : 0.05})`, color: row[slot] / maxHeat > 0.5 ? 'white' : undefined }}
+                                                title={`${WEEKDAYS[weekday]} ${slotLabel(slot)}: ${formatNumber(row[slot])} venda(s) em média`}
+                                            >
+                                                {row[slot] ? formatNumber(row[slot]) : ''}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SalesAnalytics;
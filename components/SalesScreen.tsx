@@ -1,31 +1,85 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { Product, SaleItem, PaymentMethod } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Category, Product, SaleItem, PaymentMethod, SalePayment, CheckoutOptions, PixSettings } from '../types';
 import { formatCurrency } from '../App';
+import PixQrCode from './PixQrCode';
+import { isLowStock, isSoldOut } from '../lib/stockAlerts';
+import { createScanDetector, findProductByCode } from '../lib/barcode';
+import { searchProducts } from '../lib/search';
+import { activeCategories } from '../lib/categories';
+import { isActiveProduct } from '../lib/products';
+import { availableQuantity, isKit, withKitAvailability } from '../lib/kits';
+import { discountAmountFor } from '../lib/payments';
+import QuickProductModal from './QuickProductModal';
+import ShortcutsHelp from './ShortcutsHelp';
 
 interface SalesScreenProps {
     products: Product[];
+    categories: Category[];
     onAddSale: (
         cartItems: SaleItem[], 
-        paymentMethod: PaymentMethod, 
-        discount?: { type: 'percentage' | 'fixed'; value: number }
-    ) => void;
+        payments: SalePayment[], 
+        options?: CheckoutOptions
+    ) => Promise<boolean>;
+    /** Cadastro rápido de um código lido que não existe. */
+    onQuickAddProduct: (productData: Omit<Product, 'id'>) => Product;
+    pixSettings: PixSettings;
 }
 
-type Category = 'Alimentos' | 'Loja';
+const newSaleId = () => `sale-${Date.now()}`;
 
-const SalesScreen: React.FC<SalesScreenProps> = ({ products, onAddSale }) => {
+const QUICK_NOTES = [5, 10, 20, 50, 100];
+
+const isTypingTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+
+type PaymentMode = PaymentMethod | 'split';
+
+const SalesScreen: React.FC<SalesScreenProps> = ({ products, categories, onAddSale, onQuickAddProduct, pixSettings }) => {
     const [cart, setCart] = useState<SaleItem[]>([]);
-    const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(PaymentMethod.Cash);
+    const [paymentMode, setPaymentMode] = useState<PaymentMode>(PaymentMethod.Cash);
+    const [splitCash, setSplitCash] = useState<string>('');
+    const [cashTendered, setCashTendered] = useState<string>('');
     const [discountType, setDiscountType] = useState<'fixed' | 'percentage'>('fixed');
     const [discountValue, setDiscountValue] = useState<string>('');
     const [highlightedProductId, setHighlightedProductId] = useState<string | null>(null);
     const [totalPulse, setTotalPulse] = useState(false);
-    const [activeCategory, setActiveCategory] = useState<Category>('Alimentos');
+    const [activeCategory, setActiveCategory] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    // Id da venda em andamento: vai no QR Code Pix como txid antes de finalizar
+    const [saleId, setSaleId] = useState(newSaleId);
+    const [unknownCode, setUnknownCode] = useState<string | null>(null);
+    /** Nome do produto arquivado cujo código foi lido. */
+    const [archivedHit, setArchivedHit] = useState<string | null>(null);
+    const [registeringCode, setRegisteringCode] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [isHelpOpen, setIsHelpOpen] = useState(false);
+    const searchRef = useRef<HTMLInputElement>(null);
+
+    const tabs = useMemo(() => activeCategories(categories), [categories]);
+    // Sem aba escolhida (ou a escolhida foi desativada), abre a primeira
+    const currentCategory = tabs.some(c => c.id === activeCategory) ? activeCategory : tabs[0]?.id ?? '';
+
+    // Arquivados não são vendidos
+    // Kits aparecem com o estoque que os componentes permitem
+    const sellableProducts = useMemo(
+        () => products.filter(isActiveProduct).map(p => withKitAvailability(p, products)),
+        [products]
+    );
 
+    // Esgotados continuam na grade (desabilitados) para o operador saber que acabou
     const availableProducts = useMemo(() => {
-        return products.filter(p => p.stock > 0 && p.category === activeCategory)
-    }, [products, activeCategory]);
+        return sellableProducts.filter(p => p.category === currentCategory)
+    }, [sellableProducts, currentCategory]);
+
+    // Com texto na busca, a grade mostra os resultados de todas as categorias
+    const searchResults = useMemo(() => searchProducts(sellableProducts, query), [sellableProducts, query]);
+    const displayedProducts = query.trim() ? searchResults : availableProducts;
+
+    useEffect(() => {
+        setSelectedIndex(0);
+    }, [query]);
 
     const triggerHighlight = (productId: string) => {
         setHighlightedProductId(productId);
@@ -35,22 +89,133 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ products, onAddSale }) => {
     };
 
     const addToCart = (product: Product) => {
+        // Considera o que o carrinho já usa (um kit e o componente avulso disputam o mesmo estoque)
+        if (availableQuantity(product, products, cart) <= 0) return;
         const existingItem = cart.find(item => item.productId === product.id);
         if (existingItem) {
-            if (existingItem.quantity < product.stock) {
-                setCart(cart.map(item => item.productId === product.id ? { ...item, quantity: item.quantity + 1 } : item));
-            }
+            setCart(cart.map(item => item.productId === product.id ? { ...item, quantity: item.quantity + 1 } : item));
         } else {
             setCart([...cart, { productId: product.id, productName: product.name, quantity: 1, pricePerItem: product.price }]);
         }
         triggerHighlight(product.id);
     };
     
+    /**
+     * Produto à venda com o código. Código de produto arquivado avisa em vez de
+     * oferecer cadastro (o código continua reservado para ele).
+     */
+    const lookupCode = (code: string): Product | undefined => {
+        const product = findProductByCode(products, code);
+        setArchivedHit(product && !isActiveProduct(product) ? product.name : null);
+        return product && isActiveProduct(product) ? product : undefined;
+    };
+
+    // Leitor de código de barras (emula teclado): lido fora de campos de texto
+    const handleScanRef = useRef<(code: string) => void>(() => {});
+    handleScanRef.current = (code: string) => {
+        const product = findProductByCode(products, code);
+        const sellable = lookupCode(code);
+        if (!sellable) {
+            setUnknownCode(product ? null : code);
+            return;
+        }
+        setUnknownCode(null);
+        if (sellable.category !== currentCategory) setActiveCategory(sellable.category);
+        addToCart(sellable);
+    };
+
+    useEffect(() => {
+        const detector = createScanDetector({ onScan: code => handleScanRef.current(code) });
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (handleShortcutRef.current(e)) {
+                e.preventDefault();
+                detector.reset();
+                return;
+            }
+            if (isTypingTarget(e.target)) return;
+            if (detector.handleKey(e.key, e.timeStamp)) e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    /** Busca: Enter adiciona o resultado escolhido (ou o produto com o código digitado/lido). */
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (!searchResults.length) return;
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setSelectedIndex(prev => (prev + step + searchResults.length) % searchResults.length);
+        } else if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey) {
+            e.preventDefault();
+            const code = query.trim();
+            const byCode = findProductByCode(products, code);
+            const product = byCode ? lookupCode(code) : searchResults[selectedIndex];
+            if (product) {
+                setUnknownCode(null);
+                addToCart(product);
+                setQuery('');
+            } else if (/^\d{6,}$/.test(code) && !byCode) {
+                setUnknownCode(code);
+                setQuery('');
+            }
+        } else if (e.key === 'Escape') {
+            setQuery('');
+        }
+    };
+
+    const handleShortcutRef = useRef<(e: KeyboardEvent) => boolean>(() => false);
+    handleShortcutRef.current = (e: KeyboardEvent) => {
+        const typing = isTypingTarget(e.target);
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            if (canFinalize) void handleFinalizeSale();
+            return true;
+        }
+        if (e.key === 'F1' || (!typing && e.key === '?')) {
+            setIsHelpOpen(open => !open);
+            return true;
+        }
+        if (e.key === 'Escape' && isHelpOpen) {
+            setIsHelpOpen(false);
+            return true;
+        }
+        if (e.key === 'F2' || (!typing && e.key === '/')) {
+            searchRef.current?.focus();
+            searchRef.current?.select();
+            return true;
+        }
+        if (e.key === 'F6' || e.key === 'F7' || e.key === 'F8') {
+            setPaymentMode(e.key === 'F6' ? PaymentMethod.Cash : e.key === 'F7' ? PaymentMethod.Pix : 'split');
+            return true;
+        }
+        // Na busca, só o + e o - do teclado numérico: o hífen comum faz parte de nomes e códigos
+        const numpad = e.code === 'NumpadAdd' || e.code === 'NumpadSubtract';
+        if ((e.key === '+' || e.key === '-') && (!typing || (numpad && e.target === searchRef.current))) {
+            const last = cart[cart.length - 1];
+            if (!last) return false;
+            updateQuantity(last.productId, last.quantity + (e.key === '+' ? 1 : -1));
+            return true;
+        }
+        return false;
+    };
+
+    const handleQuickAdd = (productData: Omit<Product, 'id'>) => {
+        const product = onQuickAddProduct(productData);
+        setRegisteringCode(null);
+        setUnknownCode(null);
+        if (product.stock > 0) {
+            setActiveCategory(product.category);
+            setCart(prev => [...prev, { productId: product.id, productName: product.name, quantity: 1, pricePerItem: product.price }]);
+            triggerHighlight(product.id);
+        }
+    };
+
     const updateQuantity = (productId: string, newQuantity: number) => {
         const product = products.find(p => p.id === productId);
         if (!product) return;
         
-        const clampedQuantity = Math.max(0, Math.min(newQuantity, product.stock));
+        const current = cart.find(item => item.productId === productId)?.quantity ?? 0;
+        const clampedQuantity = Math.max(0, Math.min(newQuantity, current + availableQuantity(product, products, cart)));
         
         if (clampedQuantity === 0) {
             setCart(cart.filter(item => item.productId !== productId));
@@ -62,17 +227,33 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ products, onAddSale }) => {
 
     const subtotal = useMemo(() => cart.reduce((acc, item) => acc + item.pricePerItem * item.quantity, 0), [cart]);
 
-    const discountAmount = useMemo(() => {
-        const value = parseFloat(discountValue) || 0;
-        if (value <= 0) return 0;
-        if (discountType === 'percentage') {
-            return subtotal * (value / 100);
-        }
-        return Math.min(value, subtotal);
-    }, [discountValue, discountType, subtotal]);
+    const discountAmount = useMemo(
+        () => discountAmountFor(subtotal, { type: discountType, value: parseFloat(discountValue) || 0 }),
+        [discountValue, discountType, subtotal]
+    );
 
     const total = useMemo(() => subtotal - discountAmount, [subtotal, discountAmount]);
 
+    // Pagamento dividido: o operador informa a parte em dinheiro e o restante vai para o Pix
+    const splitCashValue = parseFloat(splitCash) || 0;
+    const isSplitInvalid = paymentMode === 'split' && (splitCashValue <= 0 || splitCashValue >= total);
+
+    const payments = useMemo<SalePayment[]>(() => {
+        if (paymentMode !== 'split') return [{ method: paymentMode, amount: total }];
+        const cash = Math.min(Math.max(splitCashValue, 0), total);
+        return [
+            { method: PaymentMethod.Cash, amount: cash },
+            { method: PaymentMethod.Pix, amount: total - cash },
+        ];
+    }, [paymentMode, splitCashValue, total]);
+
+    // Troco: só quando há parte em dinheiro e o operador informou quanto recebeu
+    const cashDue = payments.find(p => p.method === PaymentMethod.Cash)?.amount ?? 0;
+    const tenderedValue = cashTendered === '' ? undefined : parseFloat(cashTendered) || 0;
+    const changeDue = tenderedValue !== undefined ? tenderedValue - cashDue : 0;
+    const pixDue = payments.find(p => p.method === PaymentMethod.Pix)?.amount ?? 0;
+    const isTenderedTooLow = cashDue > 0 && tenderedValue !== undefined && changeDue < -0.005;
+
     const prevTotalRef = React.useRef(total);
     useEffect(() => {
         if (prevTotalRef.current !== total) {
@@ -83,51 +264,89 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ products, onAddSale }) => {
         prevTotalRef.current = total;
     }, [total]);
 
-    const handleFinalizeSale = () => {
-        onAddSale(
-            cart, 
-            paymentMethod, 
-            discountValue ? { type: discountType, value: parseFloat(discountValue) } : undefined
-        );
-        setCart([]);
-        setDiscountValue('');
-        setPaymentMethod(PaymentMethod.Cash);
+    const canFinalize = cart.length > 0 && !isSubmitting && !isSplitInvalid && !isTenderedTooLow;
+
+    const handleFinalizeSale = async () => {
+        setIsSubmitting(true);
+        try {
+            const saved = await onAddSale(cart, payments, {
+                saleId,
+                discount: discountValue ? { type: discountType, value: parseFloat(discountValue) } : undefined,
+                cashTendered: cashDue > 0 ? tenderedValue : undefined,
+            });
+            // Venda recusada (ex.: estoque insuficiente no servidor): mantém o carrinho para ajuste
+            if (!saved) return;
+            setCart([]);
+            setDiscountValue('');
+            setPaymentMode(PaymentMethod.Cash);
+            setSplitCash('');
+            setCashTendered('');
+            setSaleId(newSaleId());
+        } finally {
+            setIsSubmitting(false);
+        }
     };
 
     return (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 h-[calc(100vh-100px)] mt-6">
             {/* Products Grid */}
             <div className="lg:col-span-2 overflow-y-auto pr-4">
+                <div className="flex items-center space-x-2 mb-2">
+                    <input
+                        ref={searchRef}
+                        type="search"
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        onKeyDown={handleSearchKeyDown}
+                        placeholder="Buscar produto ou código (F2)"
+                        aria-label="Buscar produto"
+                        className="flex-grow px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => setIsHelpOpen(true)}
+                        className="text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 py-2 px-3 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors whitespace-nowrap"
+                    >
+                        Atalhos (F1)
+                    </button>
+                </div>
                  <div className="mb-4 border-b border-gray-200 dark:border-gray-700">
-                    <nav className="-mb-px flex space-x-6" aria-label="Tabs">
-                        <button
-                            onClick={() => setActiveCategory('Alimentos')}
-                            className={`whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
-                                activeCategory === 'Alimentos'
-                                ? 'border-indigo-500 text-indigo-600'
-                                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:border-gray-500'
-                            }`}
-                        >
-                            Alimentos
-                        </button>
-                        <button
-                            onClick={() => setActiveCategory('Loja')}
-                            className={`whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
-                                activeCategory === 'Loja'
-                                ? 'border-indigo-500 text-indigo-600'
-                                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:border-gray-500'
-                            }`}
-                        >
-                            Loja
-                        </button>
+                    <nav className="-mb-px flex space-x-6 overflow-x-auto" aria-label="Tabs">
+                        {tabs.map(category => (
+                            <button
+                                key={category.id}
+                                onClick={() => setActiveCategory(category.id)}
+                                style={currentCategory === category.id ? { borderColor: category.color } : undefined}
+                                className={`whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                                    currentCategory === category.id
+                                    ? 'border-indigo-500 text-indigo-600'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:border-gray-500'
+                                }`}
+                            >
+                                {category.name}
+                            </button>
+                        ))}
                     </nav>
                 </div>
                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                    {availableProducts.map(product => (
-                        <button key={product.id} onClick={() => addToCart(product)} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-3 text-center transition-transform transform hover:scale-105 hover:shadow-xl focus:outline-none focus:ring-2 focus:ring-indigo-500">
+                    {query.trim() && !searchResults.length && (
+                        <p className="col-span-full text-gray-500 dark:text-gray-400 text-center py-6">Nenhum produto encontrado para "{query}".</p>
+                    )}
+                    {displayedProducts.map((product, index) => (
+                        <button
+                            key={product.id}
+                            onClick={() => addToCart(product)}
+                            disabled={isSoldOut(product)}
+                            className={`${query.trim() && index === selectedIndex ? 'ring-2 ring-indigo-500 ' : ''}relative bg-white dark:bg-gray-800 rounded-lg shadow-md p-3 text-center transition-transform transform hover:scale-105 hover:shadow-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100`}
+                        >
+                            {isSoldOut(product) ? (
+                                <span className="absolute top-1 right-1 text-[10px] font-semibold px-1.5 py-0.5 rounded bg-red-100 text-red-800 dark:bg-red-900/60 dark:text-red-200">Esgotado</span>
+                            ) : isLowStock(product) && (
+                                <span className="absolute top-1 right-1 text-[10px] font-semibold px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900/60 dark:text-amber-200">Estoque baixo</span>
+                            )}
                             <h3 className="font-semibold text-sm truncate">{product.name}</h3>
                             <p className="text-indigo-600 dark:text-indigo-400 font-bold my-1">{formatCurrency(product.price)}</p>
-                            <p className="text-xs text-gray-500 dark:text-gray-400">Estoque: {product.stock}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">{isKit(product) ? 'Kits disponíveis' : 'Estoque'}: {product.stock}</p>
                         </button>
                     ))}
                 </div>
@@ -137,6 +356,21 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ products, onAddSale }) => {
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg flex flex-col h-full">
                 <div className="p-4 border-b border-gray-200 dark:border-gray-700">
                     <h2 className="text-xl font-bold">Venda Atual</h2>
+                    {unknownCode && (
+                        <div className="mt-2 p-2 rounded-md bg-amber-50 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 text-sm flex items-center justify-between">
+                            <span>Produto não encontrado: {unknownCode}</span>
+                            <span className="space-x-3 whitespace-nowrap">
+                                <button onClick={() => setRegisteringCode(unknownCode)} className="font-semibold underline">Cadastrar</button>
+                                <button onClick={() => setUnknownCode(null)} aria-label="Dispensar">&times;</button>
+                            </span>
+                        </div>
+                    )}
+                    {archivedHit && (
+                        <div className="mt-2 p-2 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm flex items-center justify-between">
+                            <span>"{archivedHit}" está arquivado. Restaure no cadastro para vender.</span>
+                            <button onClick={() => setArchivedHit(null)} aria-label="Dispensar">&times;</button>
+                        </div>
+                    )}
                 </div>
                 
                 <div className="flex-grow overflow-y-auto p-4 space-y-3">
@@ -198,20 +432,104 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ products, onAddSale }) => {
                     </div>
 
                     {/* Payment */}
-                     <div className="grid grid-cols-2 gap-2">
-                        <button onClick={() => setPaymentMethod(PaymentMethod.Cash)} className={`py-2 rounded-md font-semibold ${paymentMethod === PaymentMethod.Cash ? 'bg-green-600 text-white' : 'bg-gray-200 dark:bg-gray-600'}`}>Dinheiro</button>
-                        <button onClick={() => setPaymentMethod(PaymentMethod.Pix)} className={`py-2 rounded-md font-semibold ${paymentMethod === PaymentMethod.Pix ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-600'}`}>Pix</button>
+                     <div className="grid grid-cols-3 gap-2">
+                        <button onClick={() => setPaymentMode(PaymentMethod.Cash)} className={`py-2 rounded-md font-semibold ${paymentMode === PaymentMethod.Cash ? 'bg-green-600 text-white' : 'bg-gray-200 dark:bg-gray-600'}`}>Dinheiro</button>
+                        <button onClick={() => setPaymentMode(PaymentMethod.Pix)} className={`py-2 rounded-md font-semibold ${paymentMode === PaymentMethod.Pix ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-600'}`}>Pix</button>
+                        <button onClick={() => setPaymentMode('split')} className={`py-2 rounded-md font-semibold ${paymentMode === 'split' ? 'bg-purple-600 text-white' : 'bg-gray-200 dark:bg-gray-600'}`}>Dividir</button>
                     </div>
 
+                    {paymentMode === 'split' && (
+                        <div className="space-y-2">
+                            <div className="flex items-center space-x-2">
+                                <label htmlFor="split-cash" className="w-20 text-sm font-medium">Dinheiro</label>
+                                <div className="flex-grow relative">
+                                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">R$</span>
+                                    <input
+                                        type="number"
+                                        id="split-cash"
+                                        placeholder="0.00"
+                                        value={splitCash}
+                                        onChange={e => setSplitCash(e.target.value)}
+                                        className="w-full pl-8 pr-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                        step="0.01"
+                                        min="0"
+                                    />
+                                </div>
+                            </div>
+                            <div className="flex justify-between text-sm">
+                                <span className="w-20 font-medium">Pix</span>
+                                <span>{formatCurrency(payments.find(p => p.method === PaymentMethod.Pix)?.amount ?? 0)}</span>
+                            </div>
+                            {isSplitInvalid && cart.length > 0 && (
+                                <p className="text-xs text-red-500">Informe um valor em dinheiro maior que zero e menor que o total.</p>
+                            )}
+                        </div>
+                    )}
+
+                    {cashDue > 0 && cart.length > 0 && (
+                        <div className="space-y-2">
+                            <div className="flex items-center space-x-2">
+                                <label htmlFor="cash-tendered" className="w-20 text-sm font-medium">Recebido</label>
+                                <div className="flex-grow relative">
+                                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">R$</span>
+                                    <input
+                                        type="number"
+                                        id="cash-tendered"
+                                        placeholder={cashDue.toFixed(2)}
+                                        value={cashTendered}
+                                        onChange={e => setCashTendered(e.target.value)}
+                                        className="w-full pl-8 pr-3 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                        step="0.01"
+                                        min="0"
+                                    />
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-5 gap-1">
+                                {QUICK_NOTES.map(note => (
+                                    <button
+                                        key={note}
+                                        onClick={() => setCashTendered(String(note))}
+                                        className={`py-1 rounded-md text-sm font-semibold ${tenderedValue === note ? 'bg-green-600 text-white' : 'bg-gray-200 dark:bg-gray-600'}`}
+                                    >
+                                        R${note}
+                                    </button>
+                                ))}
+                            </div>
+                            {tenderedValue !== undefined && (
+                                isTenderedTooLow ? (
+                                    <p className="text-sm text-red-500">Faltam {formatCurrency(-changeDue)} em dinheiro.</p>
+                                ) : (
+                                    <div className="flex justify-between text-lg font-bold text-green-600 dark:text-green-400">
+                                        <span>Troco</span>
+                                        <span>{formatCurrency(changeDue)}</span>
+                                    </div>
+                                )
+                            )}
+                        </div>
+                    )}
+
+                    {pixDue > 0 && cart.length > 0 && !isSplitInvalid && (
+                        <PixQrCode settings={pixSettings} amount={pixDue} txid={saleId} />
+                    )}
+
                     <button 
                         onClick={handleFinalizeSale}
-                        disabled={cart.length === 0}
+                        disabled={!canFinalize}
                         className="w-full bg-indigo-600 text-white py-3 rounded-md font-bold text-lg disabled:bg-gray-400 disabled:cursor-not-allowed hover:bg-indigo-700 transition-colors"
                     >
                         Finalizar Venda
                     </button>
                 </div>
             </div>
+
+            <ShortcutsHelp isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
+
+            <QuickProductModal
+                barcode={registeringCode}
+                categories={categories}
+                onClose={() => setRegisteringCode(null)}
+                onSave={handleQuickAdd}
+            />
         </div>
     );
 };
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+import { AppSettings } from '../types';
+import { isValidTimeZone } from '../lib/businessDay';
+
+interface SettingsProps {
+    settings: AppSettings;
+    onSave: (settings: AppSettings) => void;
+}
+
+const inputClass = "mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+/** Fusos do Brasil; outros podem ser digitados no padrão IANA. */
+const TIME_ZONES = [
+    'America/Sao_Paulo',
+    'America/Bahia',
+    'America/Fortaleza',
+    'America/Recife',
+    'America/Belem',
+    'America/Manaus',
+    'America/Cuiaba',
+    'America/Campo_Grande',
+    'America/Porto_Velho',
+    'America/Boa_Vista',
+    'America/Rio_Branco',
+    'America/Noronha',
+];
+
+const Settings: React.FC<SettingsProps> = ({ settings, onSave }) => {
+    const [draft, setDraft] = useState<AppSettings>(settings);
+
+    useEffect(() => {
+        setDraft(settings);
+    }, [settings]);
+
+    const timeZoneIsValid = isValidTimeZone(draft.businessDay.timeZone);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (!timeZoneIsValid) return;
+        onSave(draft);
+    };
+
+    const setPix = (field: keyof AppSettings['pix'], value: string) => {
+        setDraft(prev => ({ ...prev, pix: { ...prev.pix, [field]: value } }));
+    };
+
+    const setBusinessDay = <K extends keyof AppSettings['businessDay']>(field: K, value: AppSettings['businessDay'][K]) => {
+        setDraft(prev => ({ ...prev, businessDay: { ...prev.businessDay, [field]: value } }));
+    };
+
+    const setReceipt = <K extends keyof AppSettings['receipt']>(field: K, value: AppSettings['receipt'][K]) => {
+        setDraft(prev => ({ ...prev, receipt: { ...prev.receipt, [field]: value } }));
+    };
+
+    return (
+        <div className="mt-6 max-w-2xl mx-auto">
+            <form onSubmit={handleSubmit} className="space-y-8">
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+                    <div>
+                        <h2 className="text-xl font-bold">Terminal</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Quem opera este terminal. O nome fica registrado nas vendas, estornos e movimentos de estoque.</p>
+                    </div>
+                    <div>
+                        <label htmlFor="operator-name" className={labelClass}>Operador</label>
+                        <input
+                            type="text"
+                            id="operator-name"
+                            value={draft.operatorName}
+                            onChange={e => setDraft(prev => ({ ...prev, operatorName: e.target.value }))}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+                    <div>
+                        <h2 className="text-xl font-bold">Pix</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Usado para gerar o QR Code na tela de vendas. O nome e a cidade aparecem no app do banco do cliente.</p>
+                    </div>
+                    <div>
+                        <label htmlFor="pix-key" className={labelClass}>Chave Pix</label>
+                        <input
+                            type="text"
+                            id="pix-key"
+                            value={draft.pix.key}
+                            onChange={e => setPix('key', e.target.value)}
+                            placeholder="e-mail, telefone, CPF/CNPJ ou chave aleatória"
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="pix-name" className={labelClass}>Nome do recebedor (até 25 letras)</label>
+                        <input
+                            type="text"
+                            id="pix-name"
+                            value={draft.pix.merchantName}
+                            onChange={e => setPix('merchantName', e.target.value)}
+                            maxLength={25}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="pix-city" className={labelClass}>Cidade (até 15 letras)</label>
+                        <input
+                            type="text"
+                            id="pix-city"
+                            value={draft.pix.merchantCity}
+                            onChange={e => setPix('merchantCity', e.target.value)}
+                            maxLength={15}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+                    <div>
+                        <h2 className="text-xl font-bold">Dia de operação</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Define a data usada nos relatórios, no caixa e nas retiradas.</p>
+                    </div>
+                    <div>
+                        <label htmlFor="business-timezone" className={labelClass}>Fuso horário</label>
+                        <input
+                            type="text"
+                            id="business-timezone"
+                            list="business-timezones"
+                            value={draft.businessDay.timeZone}
+                            onChange={e => setBusinessDay('timeZone', e.target.value.trim())}
+                            className={inputClass}
+                        />
+                        <datalist id="business-timezones">
+                            {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                        </datalist>
+                        {!timeZoneIsValid && <p className="mt-1 text-sm text-red-500">Fuso horário inválido.</p>}
+                    </div>
+                    <div>
+                        <label htmlFor="business-cutoff" className={labelClass}>Virada do dia (hora)</label>
+                        <input
+                            type="number"
+                            id="business-cutoff"
+                            min={0}
+                            max={23}
+                            value={draft.businessDay.cutoffHour}
+                            onChange={e => setBusinessDay('cutoffHour', Math.min(23, Math.max(0, parseInt(e.target.value) || 0)))}
+                            className={inputClass}
+                        />
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Vendas antes deste horário contam para o dia anterior. Use 0 para virar à meia-noite.</p>
+                    </div>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg space-y-4">
+                    <div>
+                        <h2 className="text-xl font-bold">Cupom</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Recibo não fiscal entregue ao cliente, impresso pelo navegador ou numa impressora térmica.</p>
+                    </div>
+                    <div>
+                        <label htmlFor="receipt-store" className={labelClass}>Nome da loja</label>
+                        <input
+                            type="text"
+                            id="receipt-store"
+                            value={draft.receipt.storeName}
+                            onChange={e => setReceipt('storeName', e.target.value)}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="receipt-header" className={labelClass}>Cabeçalho (uma informação por linha)</label>
+                        <textarea
+                            id="receipt-header"
+                            rows={3}
+                            value={draft.receipt.headerLines}
+                            onChange={e => setReceipt('headerLines', e.target.value)}
+                            placeholder="Endereço, telefone, CNPJ..."
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="receipt-footer" className={labelClass}>Rodapé</label>
+                        <textarea
+                            id="receipt-footer"
+                            rows={2}
+                            value={draft.receipt.footer}
+                            onChange={e => setReceipt('footer', e.target.value)}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="receipt-paper" className={labelClass}>Largura do papel</label>
+                        <select
+                            id="receipt-paper"
+                            value={draft.receipt.paperWidth}
+                            onChange={e => setReceipt('paperWidth', e.target.value === '58' ? 58 : 80)}
+                            className={inputClass}
+                        >
+                            <option value={58}>58 mm</option>
+                            <option value={80}>80 mm</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="receipt-bridge" className={labelClass}>Ponte da impressora térmica (URL)</label>
+                        <input
+                            type="url"
+                            id="receipt-bridge"
+                            value={draft.receipt.bridgeUrl}
+                            onChange={e => setReceipt('bridgeUrl', e.target.value.trim())}
+                            placeholder="http://localhost:9100/print"
+                            className={inputClass}
+                        />
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Serviço local que recebe os bytes ESC/POS e repassa à impressora. Deixe vazio para imprimir só pelo navegador.</p>
+                    </div>
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={draft.receipt.printAfterSale}
+                            onChange={e => setReceipt('printAfterSale', e.target.checked)}
+                            className="h-4 w-4"
+                        />
+                        <span className="text-sm">Abrir o cupom ao finalizar cada venda</span>
+                    </label>
+                </div>
+
+                <div className="flex justify-end">
+                    <button type="submit" disabled={!timeZoneIsValid} className="bg-indigo-600 text-white py-2 px-6 rounded-md font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed">
+                        Salvar Configurações
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default Settings;
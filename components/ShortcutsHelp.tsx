@@ -0,0 +1,50 @@
+import React from 'react';
+
+interface ShortcutsHelpProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+export const SALES_SHORTCUTS: { keys: string; description: string }[] = [
+    { keys: 'F2 ou /', description: 'Ir para a busca de produtos' },
+    { keys: '↑ / ↓', description: 'Escolher um resultado da busca' },
+    { keys: 'Enter', description: 'Adicionar o produto escolhido ao carrinho' },
+    { keys: 'Esc', description: 'Limpar a busca' },
+    { keys: '+ / -', description: 'Aumentar ou diminuir a quantidade do último item (na busca, só os do teclado numérico)' },
+    { keys: 'F6', description: 'Pagamento em dinheiro' },
+    { keys: 'F7', description: 'Pagamento por Pix' },
+    { keys: 'F8', description: 'Dividir (dinheiro + Pix)' },
+    { keys: 'Ctrl + Enter', description: 'Finalizar a venda' },
+    { keys: 'F1 ou ?', description: 'Mostrar/ocultar esta lista' },
+];
+
+const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ isOpen, onClose }) => {
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white">Atalhos do Teclado</h2>
+                <table className="w-full text-sm">
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {SALES_SHORTCUTS.map(shortcut => (
+                            <tr key={shortcut.keys}>
+                                <td className="py-2 pr-4 whitespace-nowrap">
+                                    <kbd className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 font-mono text-xs">{shortcut.keys}</kbd>
+                                </td>
+                                <td className="py-2">{shortcut.description}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="mt-6 flex justify-end">
+                    <button type="button" onClick={onClose} className="bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200 py-2 px-4 rounded-md font-semibold hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors">
+                        Fechar
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShortcutsHelp;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useCallback, FormEvent } from 'react';
+import { Product, StockMovement, StockMovementType } from '../types';
+import { MANUAL_MOVEMENT_TYPES, STOCK_MOVEMENT_LABELS, ledgerStock } from '../lib/stockMovements';
+
+interface StockMovementsModalProps {
+    product: Product | null;
+    onClose: () => void;
+    onLoadMovements: (productId: string) => Promise<StockMovement[]>;
+    onRecordMovement: (product: Product, type: StockMovementType, value: number, reason: string) => Promise<boolean>;
+}
+
+const QUANTITY_LABELS: Partial<Record<StockMovementType, string>> = {
+    receipt: 'Quantidade recebida',
+    adjustment: 'Ajuste (use negativo para retirar)',
+    loss: 'Quantidade perdida',
+    inventory: 'Quantidade contada',
+};
+
+const inputClass = "mt-1 block w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+const StockMovementsModal: React.FC<StockMovementsModalProps> = ({ product, onClose, onLoadMovements, onRecordMovement }) => {
+    const [movements, setMovements] = useState<StockMovement[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [type, setType] = useState<StockMovementType>('receipt');
+    const [quantity, setQuantity] = useState('');
+    const [reason, setReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const load = useCallback(async (productId: string) => {
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            setMovements(await onLoadMovements(productId));
+        } catch (e) {
+            console.warn('Falha ao carregar movimentos de estoque:', e);
+            setLoadError('Não foi possível carregar o histórico (sem conexão?).');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [onLoadMovements]);
+
+    useEffect(() => {
+        setType('receipt');
+        setQuantity('');
+        setReason('');
+        setMovements([]);
+        if (product) void load(product.id);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [product?.id]);
+
+    if (!product) return null;
+
+    const value = parseInt(quantity, 10);
+    const canSubmit = !isSubmitting && !isNaN(value) && reason.trim() !== '' && (type === 'inventory' ? value >= 0 : value !== 0);
+    const ledger = ledgerStock(movements);
+    const outOfSync = !isLoading && !loadError && movements.length > 0 && ledger !== product.stock;
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        setIsSubmitting(true);
+        try {
+            if (await onRecordMovement(product, type, value, reason.trim())) {
+                setQuantity('');
+                setReason('');
+                await load(product.id);
+            }
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-3xl m-4 max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h2 className="text-xl font-bold">Estoque — {product.name}</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Estoque atual: <span className="font-semibold">{product.stock}</span></p>
+                    </div>
+                    <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 text-2xl leading-none" aria-label="Fechar">&times;</button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end mb-6">
+                    <div>
+                        <label htmlFor="movement-type" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tipo</label>
+                        <select id="movement-type" value={type} onChange={e => setType(e.target.value as StockMovementType)} className={inputClass}>
+                            {MANUAL_MOVEMENT_TYPES.map(t => <option key={t} value={t}>{STOCK_MOVEMENT_LABELS[t]}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="movement-quantity" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{QUANTITY_LABELS[type]}</label>
+                        <input
+                            type="number"
+                            id="movement-quantity"
+                            value={quantity}
+                            onChange={e => setQuantity(e.target.value)}
+                            min={type === 'adjustment' ? undefined : 0}
+                            step={1}
+                            className={inputClass}
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="movement-reason" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Motivo</label>
+                        <input
+                            type="text"
+                            id="movement-reason"
+                            value={reason}
+                            onChange={e => setReason(e.target.value)}
+                            placeholder={type === 'receipt' ? 'ex.: nota 1234' : ''}
+                            className={inputClass}
+                            required
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={!canSubmit}
+                        className="bg-indigo-600 text-white py-2 px-4 rounded-md font-semibold hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {isSubmitting ? 'Salvando...' : 'Lançar'}
+                    </button>
+                </form>
+
+                {outOfSync && (
+                    <p className="mb-4 p-3 rounded-md bg-amber-50 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 text-sm">
+                        O histórico soma {ledger}, mas o estoque gravado é {product.stock}. Lance uma correção de inventário para conciliar.
+                    </p>
+                )}
+
+                <div className="overflow-y-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                        <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Data</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Tipo</th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Qtd.</th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Saldo</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Motivo</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Usuário</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                            {isLoading ? (
+                                <tr><td colSpan={6} className="text-center py-4 text-gray-500">Carregando...</td></tr>
+                            ) : loadError ? (
+                                <tr><td colSpan={6} className="text-center py-4 text-red-500">{loadError}</td></tr>
+                            ) : movements.length > 0 ? movements.map(m => (
+                                <tr key={m.id}>
+                                    <td className="px-4 py-3 whitespace-nowrap">{new Date(m.timestamp).toLocaleString('pt-BR')}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap">{STOCK_MOVEMENT_LABELS[m.type]}</td>
+                                    <td className={`px-4 py-3 text-right font-semibold ${m.quantity < 0 ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>
+                                        {m.quantity > 0 ? `+${m.quantity}` : m.quantity}
+                                    </td>
+                                    <td className="px-4 py-3 text-right">{m.stockAfter ?? '-'}</td>
+                                    <td className="px-4 py-3">{m.reason}</td>
+                                    <td className="px-4 py-3">{m.operator || '-'}</td>
+                                </tr>
+                            )) : (
+                                <tr><td colSpan={6} className="text-center py-4 text-gray-500">Nenhum movimento registrado.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StockMovementsModal;
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import type { DayRange } from '../lib/periods';
+import type { ReportTotals } from '../lib/reports';
+
+/**
+ * Totais do intervalo pelo `load` do App (agregados no banco quando online,
+ * calculados no terminal quando não). Busca de novo quando o intervalo ou o
+ * `load` mudam (o App troca o `load` pouco depois de cada mudança nos dados);
+ * null até chegar o primeiro resultado do intervalo.
+ */
+export function useReportTotals(
+  load: (range: DayRange) => Promise<ReportTotals>,
+  range: DayRange | null
+): ReportTotals | null {
+  const [loaded, setLoaded] = useState<{ range: DayRange; totals: ReportTotals } | null>(null);
+  const from = range?.from;
+  const to = range?.to;
+
+  useEffect(() => {
+    if (!from || !to) return;
+    let cancelled = false;
+    load({ from, to })
+      .then(totals => { if (!cancelled) setLoaded({ range: { from, to }, totals }); })
+      .catch(e => console.warn('Falha ao carregar totais do relatório:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [load, from, to]);
+
+  return loaded && loaded.range.from === from && loaded.range.to === to ? loaded.totals : null;
+}
@@ -0,0 +1,95 @@
+import { Refund, Sale } from '../types';
+import { businessDayOf, minutesIntoBusinessDay, weekdayOf, getBusinessDaySettings } from './businessDay';
+import { summarizeSales, rankProducts, ProductRank } from './reports';
+
+// ====== Análises de vendas (produtos, horários e comparação entre dias) ======
+
+export interface SalesMetrics {
+  /** Vendas menos estornos. */
+  revenue: number;
+  /** Vendas não canceladas. */
+  salesCount: number;
+  /** Unidades vendidas nessas vendas. */
+  itemsCount: number;
+  averageTicket: number;
+  itemsPerSale: number;
+}
+
+export function salesMetrics(sales: Sale[], refunds: Refund[] = []): SalesMetrics {
+  const counted = sales.filter(sale => sale.status !== 'cancelled');
+  const salesCount = counted.length;
+  const itemsCount = counted.reduce((acc, sale) => acc + sale.items.reduce((n, item) => n + item.quantity, 0), 0);
+  const revenue = summarizeSales(sales, refunds).totalSales;
+  return {
+    revenue,
+    salesCount,
+    itemsCount,
+    averageTicket: salesCount ? revenue / salesCount : 0,
+    itemsPerSale: salesCount ? itemsCount / salesCount : 0,
+  };
+}
+
+/** Variação relativa (0,1 = +10%); null quando a base é zero. */
+export function relativeChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : (current - previous) / previous;
+}
+
+/** Os mais vendidos por quantidade ou por receita (líquida de desconto e estornos). */
+export function topProducts(
+  sales: Sale[],
+  refunds: Refund[],
+  by: 'quantity' | 'revenue',
+  limit = 10
+): ProductRank[] {
+  const ranking = rankProducts(sales, refunds);
+  const sorted = by === 'quantity'
+    ? [...ranking].sort((a, b) => b.quantity - a.quantity || b.revenue - a.revenue)
+    : ranking;
+  return sorted.filter(p => (by === 'quantity' ? p.quantity > 0 : p.revenue > 0)).slice(0, limit);
+}
+
+/** Hora do dia de operação (0 = primeira hora depois da virada) em que a venda foi feita. */
+const hourSlot = (sale: Sale) => Math.floor(minutesIntoBusinessDay(sale.timestamp) / 60);
+
+/** Hora no relógio da cantina correspondente a cada posição de `hourSlot`. */
+export function slotLabel(slot: number): string {
+  return `${String((slot + getBusinessDaySettings().cutoffHour) % 24).padStart(2, '0')}h`;
+}
+
+/** Vendas (não canceladas) e receita por hora do dia de operação. */
+export function salesByHour(sales: Sale[]): { count: number; revenue: number }[] {
+  const hours = Array.from({ length: 24 }, () => ({ count: 0, revenue: 0 }));
+  sales
+    .filter(sale => sale.status !== 'cancelled')
+    .forEach(sale => {
+      const slot = hours[hourSlot(sale)];
+      slot.count += 1;
+      slot.revenue += sale.total;
+    });
+  return hours;
+}
+
+/**
+ * Mapa de calor dia da semana × hora: média de vendas por hora em cada dia
+ * da semana do período (dividida pelo número de dias daquele tipo com movimento).
+ * Linhas 0–6 = domingo a sábado.
+ */
+export function weekdayHourHeatmap(sales: Sale[]): number[][] {
+  const counts = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const daysPerWeekday = Array.from({ length: 7 }, () => new Set<string>());
+  sales
+    .filter(sale => sale.status !== 'cancelled')
+    .forEach(sale => {
+      const day = businessDayOf(sale.timestamp);
+      const weekday = weekdayOf(day);
+      counts[weekday][hourSlot(sale)] += 1;
+      daysPerWeekday[weekday].add(day);
+    });
+  return counts.map((row, weekday) => row.map(count => (daysPerWeekday[weekday].size ? count / daysPerWeekday[weekday].size : 0)));
+}
+
+/** Registros do dia feitos até o mesmo horário de `reference` (para comparar com um dia em andamento). */
+export function untilTimeOfDay<T extends { timestamp: Date }>(records: T[], reference: Date): T[] {
+  const limit = minutesIntoBusinessDay(reference);
+  return records.filter(record => minutesIntoBusinessDay(record.timestamp) <= limit);
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { ean13CheckDigit, isValidEan13, validateProductCode } from './barcode';
+
+describe('EAN-13', () => {
+  it('calcula o dígito verificador', () => {
+    expect(ean13CheckDigit('400638133393')).toBe(1);
+    expect(ean13CheckDigit('789100031550')).toBe(7);
+  });
+
+  it('valida o código completo', () => {
+    expect(isValidEan13('4006381333931')).toBe(true);
+    expect(isValidEan13('4006381333932')).toBe(false);
+    expect(isValidEan13('400638133393')).toBe(false);
+  });
+
+  it('só exige dígito verificador de códigos com 13 dígitos', () => {
+    expect(validateProductCode('4006381333932')).not.toBeNull();
+    expect(validateProductCode('4006 3813 3393 1')).toBeNull();
+    expect(validateProductCode('SKU-001')).toBeNull();
+  });
+});
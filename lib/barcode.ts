@@ -0,0 +1,84 @@
+import { Product } from '../types';
+
+// ====== Código de barras (EAN-13) e leitor tipo teclado ======
+
+/** Remove espaços e separadores digitados junto com o código. */
+export function normalizeBarcode(code: string): string {
+  return code.replace(/[\s-]/g, '').trim();
+}
+
+export function ean13CheckDigit(first12: string): number {
+  const sum = first12
+    .split('')
+    .reduce((acc, digit, idx) => acc + Number(digit) * (idx % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(code: string): boolean {
+  if (!/^\d{13}$/.test(code)) return false;
+  return ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+}
+
+/**
+ * Valida o código informado no cadastro. 13 dígitos é tratado como EAN-13 e
+ * precisa do dígito verificador certo; outros formatos valem como SKU interno.
+ * Retorna a mensagem de erro ou null.
+ */
+export function validateProductCode(code: string): string | null {
+  const normalized = normalizeBarcode(code);
+  if (!normalized) return null;
+  if (/^\d{13}$/.test(normalized) && !isValidEan13(normalized)) {
+    return 'Código EAN-13 inválido (dígito verificador não confere).';
+  }
+  if (normalized.length > 48) return 'Código muito longo.';
+  return null;
+}
+
+export function findProductByCode(products: Product[], code: string): Product | undefined {
+  const normalized = normalizeBarcode(code);
+  if (!normalized) return undefined;
+  return products.find(p => p.barcode && normalizeBarcode(p.barcode) === normalized);
+}
+
+interface ScanDetectorOptions {
+  onScan: (code: string) => void;
+  /** Intervalo máximo entre teclas de uma mesma leitura. */
+  maxIntervalMs?: number;
+  minLength?: number;
+}
+
+/**
+ * Leitores "keyboard wedge" digitam o código inteiro em poucos milissegundos
+ * e terminam com Enter. O detector junta as teclas rápidas e só dispara
+ * quando a sequência termina em Enter; digitação humana é descartada.
+ */
+export function createScanDetector({ onScan, maxIntervalMs = 50, minLength = 6 }: ScanDetectorOptions) {
+  let buffer = '';
+  let lastKeyAt = 0;
+
+  return {
+    /** Retorna true quando a tecla completou uma leitura (o chamador deve cancelar o evento). */
+    handleKey(key: string, timestamp: number = Date.now()): boolean {
+      const isBurst = timestamp - lastKeyAt <= maxIntervalMs;
+      lastKeyAt = timestamp;
+
+      if (key === 'Enter') {
+        const code = buffer;
+        buffer = '';
+        if (isBurst && code.length >= minLength) {
+          onScan(code);
+          return true;
+        }
+        return false;
+      }
+
+      if (key.length !== 1) return false;
+      buffer = isBurst ? buffer + key : key;
+      return false;
+    },
+    reset() {
+      buffer = '';
+      lastKeyAt = 0;
+    },
+  };
+}
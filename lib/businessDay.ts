@@ -0,0 +1,102 @@
+import type { BusinessDaySettings } from '../types';
+
+// ====== Dia de operação (data local da cantina) ======
+// Relatórios, caixa e sangrias são agrupados pela data no fuso da cantina, não
+// pela data UTC. Com `cutoffHour`, o que acontece antes desse horário ainda
+// conta para o dia anterior (ex.: gira que passa da meia-noite).
+
+export const DEFAULT_BUSINESS_DAY: BusinessDaySettings = {
+  timeZone: 'America/Sao_Paulo',
+  cutoffHour: 0,
+};
+
+let config: BusinessDaySettings = DEFAULT_BUSINESS_DAY;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Aplica o fuso e o horário de virada das configurações (fuso inválido volta ao padrão). */
+export function configureBusinessDay(settings: Partial<BusinessDaySettings> | undefined): void {
+  const timeZone = settings?.timeZone && isValidTimeZone(settings.timeZone)
+    ? settings.timeZone
+    : DEFAULT_BUSINESS_DAY.timeZone;
+  const cutoffHour = Math.min(23, Math.max(0, Math.floor(Number(settings?.cutoffHour) || 0)));
+  config = { timeZone, cutoffHour };
+}
+
+export function getBusinessDaySettings(): BusinessDaySettings {
+  return config;
+}
+
+/** Dia de operação (YYYY-MM-DD) em que o instante informado cai. */
+export function businessDayOf(value: Date | string | number): string {
+  const shifted = new Date(new Date(value).getTime() - config.cutoffHour * 3_600_000);
+  const parts = formatterFor(config.timeZone).formatToParts(shifted);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+const timeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Minutos desde a meia-noite no fuso da cantina (0–1439). */
+export function localMinutesOf(value: Date | string | number): number {
+  let formatter = timeFormatters.get(config.timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone: config.timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    timeFormatters.set(config.timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(value));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return (get('hour') % 24) * 60 + get('minute');
+}
+
+/** Minutos desde o início do dia de operação (considera o horário de virada). */
+export function minutesIntoBusinessDay(value: Date | string | number): number {
+  return (localMinutesOf(value) - config.cutoffHour * 60 + 1440) % 1440;
+}
+
+export function todayBusinessDay(): string {
+  return businessDayOf(new Date());
+}
+
+/** Soma (ou subtrai) dias de uma data YYYY-MM-DD. */
+export function addDays(day: string, amount: number): string {
+  const date = new Date(`${day}T12:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Instantes (ISO, UTC) que com certeza contêm os dias de operação de `from` a
+ * `to`, qualquer que seja o fuso ou a virada. Serve para filtrar por `timestamp`
+ * no banco; o corte exato é feito depois com `businessDayOf`.
+ */
+export function instantsCovering(from: string, to: string): { start: string; end: string } {
+  return { start: `${addDays(from, -1)}T00:00:00.000Z`, end: `${addDays(to, 3)}T00:00:00.000Z` };
+}
+
+/** Dia da semana de YYYY-MM-DD (0 = domingo), sem depender do fuso do navegador. */
+export function weekdayOf(day: string): number {
+  return new Date(`${day}T12:00:00Z`).getUTCDay();
+}
+
+/** Data de exibição (dd/mm/aaaa) de um dia YYYY-MM-DD, sem depender do fuso do navegador. */
+export function formatBusinessDay(day: string): string {
+  return new Date(`${day}T12:00:00Z`).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+}
@@ -0,0 +1,53 @@
+import type { CashCount, Withdrawal } from '../types';
+
+// ====== Contagem de caixa no fechamento ======
+
+/** Cédulas e moedas em circulação (R$), da maior para a menor. */
+export const DENOMINATIONS = [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05] as const;
+
+/** Diferenças abaixo de meio centavo são arredondamento, não sobra/falta. */
+const CASH_TOLERANCE = 0.005;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** Chave usada para guardar a quantidade de cada cédula/moeda (ex.: "0.25"). */
+export function denominationKey(value: number): string {
+  return String(value);
+}
+
+export function denominationLabel(value: number): string {
+  return value >= 2 ? `Cédula de R$ ${value}` : `Moeda de R$ ${value.toFixed(2).replace('.', ',')}`;
+}
+
+export function sumDenominations(counts: Record<string, number>): number {
+  return roundCents(
+    DENOMINATIONS.reduce((acc, value) => acc + value * (counts[denominationKey(value)] || 0), 0)
+  );
+}
+
+/**
+ * Dinheiro que deveria estar na gaveta: abertura + vendas em dinheiro − sangrias.
+ * `netCashSales` já vem sem os estornos devolvidos em dinheiro (summarizeSales).
+ */
+export function expectedDrawerCash(openingCash: number, netCashSales: number, withdrawals: Withdrawal[] = []): number {
+  const withdrawn = withdrawals.reduce((acc, w) => acc + w.amount, 0);
+  return roundCents(openingCash + netCashSales - withdrawn);
+}
+
+export function buildCashCount(expectedCash: number, denominations: Record<string, number>): CashCount {
+  const countedCash = sumDenominations(denominations);
+  const difference = roundCents(countedCash - expectedCash);
+  return {
+    expectedCash,
+    countedCash,
+    difference: Math.abs(difference) < CASH_TOLERANCE ? 0 : difference,
+    denominations,
+  };
+}
+
+/** "Sobra", "Falta" ou "Sem diferença", para exibir junto do valor. */
+export function describeDifference(difference: number): string {
+  if (difference > 0) return 'Sobra';
+  if (difference < 0) return 'Falta';
+  return 'Sem diferença';
+}
@@ -0,0 +1,76 @@
+import { Category } from '../types';
+import { normalizeText } from './search';
+
+// ====== Categorias de produtos ======
+
+/**
+ * Categorias que existiam fixas antes do cadastro. O id é o nome antigo,
+ * que é o valor já gravado em `category` nos produtos.
+ */
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'Alimentos', name: 'Alimentos', color: '#f59e0b', sortOrder: 0, active: true },
+  { id: 'Loja', name: 'Loja', color: '#6366f1', sortOrder: 1, active: true },
+];
+
+/** Cores sugeridas para categorias novas, em rodízio. */
+export const CATEGORY_COLORS = ['#f59e0b', '#6366f1', '#10b981', '#ef4444', '#0ea5e9', '#8b5cf6', '#ec4899', '#84cc16'];
+
+export function sortCategories(categories: Category[]): Category[] {
+  return [...categories].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+}
+
+export function activeCategories(categories: Category[]): Category[] {
+  return sortCategories(categories.filter(c => c.active));
+}
+
+/** Nome para exibição; produtos de categoria desconhecida mostram o próprio id. */
+export function categoryName(categories: Category[], id: string): string {
+  return categories.find(c => c.id === id)?.name ?? id;
+}
+
+/** Procura pelo nome (sem diferenciar acento/maiúscula) ou pelo id. */
+export function findCategoryByName(categories: Category[], name: string): Category | undefined {
+  const normalized = normalizeText(name);
+  if (!normalized) return undefined;
+  return categories.find(c => normalizeText(c.name) === normalized || c.id === name.trim());
+}
+
+/** Nome vazio ou já usado por outra categoria. Retorna a mensagem de erro ou null. */
+export function validateCategoryName(categories: Category[], name: string, categoryId?: string): string | null {
+  if (!name.trim()) return 'Informe o nome da categoria.';
+  const existing = findCategoryByName(categories, name);
+  return existing && existing.id !== categoryId ? `Já existe a categoria "${existing.name}".` : null;
+}
+
+/** Categoria nova no fim da ordem, com a próxima cor do rodízio. */
+export function createCategory(categories: Category[], name: string, color?: string): Category {
+  const lastOrder = categories.reduce((max, c) => Math.max(max, c.sortOrder), -1);
+  return {
+    id: crypto?.randomUUID?.() ?? `cat-${Date.now()}-${categories.length}`,
+    name: name.trim(),
+    color: color ?? CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
+    sortOrder: lastOrder + 1,
+    active: true,
+  };
+}
+
+/**
+ * Importação: associa cada nome a uma categoria existente e cria as que
+ * faltam (uma só por nome). Nome vazio cai na primeira categoria ativa.
+ * `ids` segue a ordem de `names`.
+ */
+export function resolveCategories(categories: Category[], names: string[]): { ids: string[]; created: Category[] } {
+  const created: Category[] = [];
+  const fallback = activeCategories(categories)[0]?.id ?? DEFAULT_CATEGORIES[0].id;
+
+  const ids = names.map(name => {
+    if (!name.trim()) return fallback;
+    const known = findCategoryByName([...categories, ...created], name);
+    if (known) return known.id;
+    const category = createCategory([...categories, ...created], name);
+    created.push(category);
+    return category.id;
+  });
+
+  return { ids, created };
+}
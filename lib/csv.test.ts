@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCsv, parseDecimal } from './csv';
+
+describe('detectDelimiter', () => {
+  it('escolhe o separador mais frequente da primeira linha, fora das aspas', () => {
+    expect(detectDelimiter('nome;preco;estoque\nA;1,50;3')).toBe(';');
+    expect(detectDelimiter('"a,b,c";x\n')).toBe(';');
+    expect(detectDelimiter('nome,preco\n')).toBe(',');
+    expect(detectDelimiter('nome\tpreco\n')).toBe('\t');
+  });
+});
+
+describe('parseCsv', () => {
+  it('aceita aspas com separador, quebra de linha e aspas duplicadas', () => {
+    expect(parseCsv('nome;obs\n"Pão; queijo";"linha 1\nlinha 2"\n"Suco ""natural""";x')).toEqual([
+      ['nome', 'obs'],
+      ['Pão; queijo', 'linha 1\nlinha 2'],
+      ['Suco "natural"', 'x'],
+    ]);
+  });
+
+  it('remove o BOM, aceita CRLF e descarta linhas vazias', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('parseDecimal', () => {
+  it('lê formatos brasileiro e americano', () => {
+    expect(parseDecimal('2,50')).toBe(2.5);
+    expect(parseDecimal('1.234,56')).toBe(1234.56);
+    expect(parseDecimal('1,234.56')).toBe(1234.56);
+    expect(parseDecimal('R$ 3')).toBe(3);
+    expect(parseDecimal('2.5')).toBe(2.5);
+    expect(parseDecimal('-4')).toBe(-4);
+    expect(parseDecimal(7)).toBe(7);
+  });
+
+  it('retorna NaN para o que não é número', () => {
+    expect(parseDecimal('')).toBeNaN();
+    expect(parseDecimal('abc')).toBeNaN();
+    expect(parseDecimal(undefined)).toBeNaN();
+  });
+});
@@ -0,0 +1,91 @@
+// ====== Leitura de CSV (planilhas exportadas pelo Excel/LibreOffice) ======
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'] as const;
+
+export type CsvDelimiter = (typeof CANDIDATE_DELIMITERS)[number];
+
+/**
+ * Separador mais frequente na primeira linha, sem contar o que está entre
+ * aspas. O Excel em português exporta com ";" porque a vírgula é decimal.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+  return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+/**
+ * Divide o texto em linhas e campos (RFC 4180): campos entre aspas podem ter
+ * separador, quebra de linha e aspas duplicadas (""). Aceita CRLF e BOM.
+ * Linhas totalmente vazias são descartadas.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) endRow();
+
+  return rows;
+}
+
+/**
+ * Número escrito no formato brasileiro ou americano: "2,50", "1.234,56",
+ * "1,234.56", "R$ 3", "2.5". Com os dois separadores, o último é o decimal;
+ * só com vírgula, ela é decimal. Retorna NaN quando não é número.
+ */
+export function parseDecimal(value: string | number | undefined | null): number {
+  if (typeof value === 'number') return value;
+  if (value === undefined || value === null) return NaN;
+  let text = value.replace(/R\$|\s/g, '');
+  if (!text) return NaN;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && lastComma >= 0) {
+    text = text.replace(/,/g, '');
+  }
+
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : NaN;
+}
@@ -0,0 +1,333 @@
+import { Category, HistoricalReport, Product, Refund, Sale, SaleStatus } from '../types';
+import { businessDayOf, formatBusinessDay, getBusinessDaySettings } from './businessDay';
+import { describePayments } from './payments';
+import { summarizeSales } from './reports';
+import { expectedDrawerCash } from './cashCount';
+import { categoryName } from './categories';
+import { isActiveProduct } from './products';
+import { netItemValues } from './margins';
+
+// ====== Exportação (CSV/XLSX) gerada no navegador ======
+
+export type ExportColumnType = 'text' | 'number' | 'money' | 'date';
+
+export interface ExportColumn {
+  header: string;
+  type?: ExportColumnType;
+}
+
+export type ExportCell = string | number | null;
+
+export interface ExportSheet {
+  /** Nome da aba no XLSX. */
+  name: string;
+  /** Início do nome do arquivo CSV. */
+  fileName: string;
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+}
+
+/** Dias de operação (YYYY-MM-DD), inclusive nas duas pontas. */
+export interface ExportRange {
+  from: string;
+  to: string;
+}
+
+/** pt-BR: ";" como separador, vírgula decimal e datas dd/mm/aaaa (abre direto no Excel em português). */
+export type CsvFormat = 'pt-BR' | 'standard';
+
+export type ExportDataset = 'products' | 'sales' | 'refunds' | 'withdrawals' | 'drawers';
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  products: 'Produtos',
+  sales: 'Vendas (item a item)',
+  refunds: 'Estornos',
+  withdrawals: 'Sangrias',
+  drawers: 'Caixa por dia',
+};
+
+const STATUS_LABELS: Record<SaleStatus, string> = {
+  completed: 'Concluída',
+  partially_refunded: 'Estorno parcial',
+  cancelled: 'Cancelada',
+};
+
+const inRange = (day: string, range: ExportRange) => day >= range.from && day <= range.to;
+
+const timeOf = (value: Date) =>
+  new Date(value).toLocaleTimeString('pt-BR', { timeZone: getBusinessDaySettings().timeZone });
+
+const plainAmount = (value: number) => value.toFixed(2);
+
+export function productsSheet(products: Product[], categories: Category[]): ExportSheet {
+  return {
+    name: 'Produtos',
+    fileName: 'produtos',
+    columns: [
+      { header: 'Nome' },
+      { header: 'Código' },
+      { header: 'Categoria' },
+      { header: 'Preço', type: 'money' },
+      { header: 'Custo', type: 'money' },
+      { header: 'Estoque', type: 'number' },
+      { header: 'Estoque mínimo', type: 'number' },
+      { header: 'Qtd. para repor', type: 'number' },
+      { header: 'Situação' },
+      { header: 'Itens do kit' },
+    ],
+    rows: [...products]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(p => [
+        p.name,
+        p.barcode ?? '',
+        categoryName(categories, p.category),
+        p.price,
+        p.costPrice ?? null,
+        p.stock,
+        p.minStock ?? 0,
+        p.reorderQuantity ?? 0,
+        isActiveProduct(p) ? 'Ativo' : 'Arquivado',
+        (p.components ?? [])
+          .map(c => `${c.quantity}x ${products.find(x => x.id === c.productId)?.name ?? c.productId}`)
+          .join(' + '),
+      ]),
+  };
+}
+
+/**
+ * Uma linha por item vendido. Os valores da venda (desconto, total, pagamento)
+ * só aparecem na primeira linha de cada venda, para que somar a coluna dê o total certo.
+ * O valor líquido do item já tem o desconto da venda rateado.
+ */
+export function salesSheet(sales: Sale[], range: ExportRange): ExportSheet {
+  const rows = sales
+    .filter(sale => inRange(businessDayOf(sale.timestamp), range))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .flatMap(sale => {
+      const netValues = netItemValues(sale);
+      return sale.items.map((item, idx): ExportCell[] => [
+        businessDayOf(sale.timestamp),
+        timeOf(sale.timestamp),
+        sale.id,
+        STATUS_LABELS[sale.status ?? 'completed'],
+        sale.operator ?? '',
+        item.productName,
+        item.quantity,
+        item.pricePerItem,
+        item.quantity * item.pricePerItem,
+        netValues[idx],
+        item.costPerItem !== undefined ? item.costPerItem * item.quantity : null,
+        idx === 0 ? sale.discountAmount : null,
+        idx === 0 ? sale.total : null,
+        idx === 0 ? describePayments(sale, plainAmount) : '',
+      ]);
+    });
+
+  return {
+    name: 'Vendas',
+    fileName: 'vendas',
+    columns: [
+      { header: 'Data', type: 'date' },
+      { header: 'Hora' },
+      { header: 'Venda' },
+      { header: 'Situação' },
+      { header: 'Operador' },
+      { header: 'Produto' },
+      { header: 'Quantidade', type: 'number' },
+      { header: 'Preço unitário', type: 'money' },
+      { header: 'Total do item', type: 'money' },
+      { header: 'Líquido do item', type: 'money' },
+      { header: 'Custo do item', type: 'money' },
+      { header: 'Desconto da venda', type: 'money' },
+      { header: 'Total da venda', type: 'money' },
+      { header: 'Pagamento' },
+    ],
+    rows,
+  };
+}
+
+/** Uma linha por item estornado; valores do estorno só na primeira linha de cada um. */
+export function refundsSheet(refunds: Refund[], range: ExportRange): ExportSheet {
+  const rows = refunds
+    .filter(refund => inRange(businessDayOf(refund.timestamp), range))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .flatMap(refund =>
+      refund.items.map((item, idx): ExportCell[] => [
+        businessDayOf(refund.timestamp),
+        timeOf(refund.timestamp),
+        refund.id,
+        refund.saleId,
+        item.productName,
+        item.quantity,
+        item.pricePerItem,
+        idx === 0 ? refund.amount : null,
+        idx === 0 ? refund.cashAmount : null,
+        idx === 0 ? refund.reason : '',
+        idx === 0 ? refund.operator ?? '' : '',
+      ])
+    );
+
+  return {
+    name: 'Estornos',
+    fileName: 'estornos',
+    columns: [
+      { header: 'Data', type: 'date' },
+      { header: 'Hora' },
+      { header: 'Estorno' },
+      { header: 'Venda' },
+      { header: 'Produto' },
+      { header: 'Quantidade', type: 'number' },
+      { header: 'Preço unitário', type: 'money' },
+      { header: 'Valor devolvido', type: 'money' },
+      { header: 'Devolvido em dinheiro', type: 'money' },
+      { header: 'Motivo' },
+      { header: 'Operador' },
+    ],
+    rows,
+  };
+}
+
+export function withdrawalsSheet(reports: Record<string, HistoricalReport>, range: ExportRange): ExportSheet {
+  const rows = Object.values(reports)
+    .filter(report => inRange(report.date, range))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap(report =>
+      (report.withdrawals ?? []).map((w): ExportCell[] => [report.date, timeOf(w.timestamp), w.amount, w.reason])
+    );
+
+  return {
+    name: 'Sangrias',
+    fileName: 'sangrias',
+    columns: [
+      { header: 'Data', type: 'date' },
+      { header: 'Hora' },
+      { header: 'Valor', type: 'money' },
+      { header: 'Motivo' },
+    ],
+    rows,
+  };
+}
+
+/** Resumo de cada dia com caixa aberto: abertura, entradas, saídas, esperado, contado e fechamento. */
+export function drawersSheet(
+  reports: Record<string, HistoricalReport>,
+  sales: Sale[],
+  refunds: Refund[],
+  range: ExportRange
+): ExportSheet {
+  const rows = Object.values(reports)
+    .filter(report => inRange(report.date, range))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((report): ExportCell[] => {
+      const summary = summarizeSales(
+        sales.filter(s => businessDayOf(s.timestamp) === report.date),
+        refunds.filter(r => businessDayOf(r.timestamp) === report.date)
+      );
+      const withdrawn = (report.withdrawals ?? []).reduce((acc, w) => acc + w.amount, 0);
+      const expected = report.cashCount?.expectedCash
+        ?? expectedDrawerCash(report.openingCash, summary.cashSales, report.withdrawals);
+      return [
+        report.date,
+        report.openingCash,
+        summary.cashSales,
+        summary.pixSales,
+        summary.totalRefunds,
+        withdrawn,
+        expected,
+        report.cashCount?.countedCash ?? null,
+        report.cashCount?.difference ?? null,
+        report.closingCash,
+      ];
+    });
+
+  return {
+    name: 'Caixa',
+    fileName: 'caixa',
+    columns: [
+      { header: 'Data', type: 'date' },
+      { header: 'Abertura', type: 'money' },
+      { header: 'Vendas em dinheiro', type: 'money' },
+      { header: 'Vendas por Pix', type: 'money' },
+      { header: 'Estornos', type: 'money' },
+      { header: 'Sangrias', type: 'money' },
+      { header: 'Esperado na gaveta', type: 'money' },
+      { header: 'Contado', type: 'money' },
+      { header: 'Sobra/Falta', type: 'money' },
+      { header: 'Fechamento', type: 'money' },
+    ],
+    rows,
+  };
+}
+
+function formatCsvCell(value: ExportCell, type: ExportColumnType, format: CsvFormat): string {
+  if (value === null || value === '') return '';
+  if (typeof value === 'number') {
+    const text = type === 'money' ? value.toFixed(2) : String(value);
+    return format === 'pt-BR' ? text.replace('.', ',') : text;
+  }
+  return type === 'date' && format === 'pt-BR' ? formatBusinessDay(value) : value;
+}
+
+export function toCsv(sheet: ExportSheet, format: CsvFormat): string {
+  const delimiter = format === 'pt-BR' ? ';' : ',';
+  const quote = (text: string) =>
+    /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+
+  const lines = [
+    sheet.columns.map(c => quote(c.header)).join(delimiter),
+    ...sheet.rows.map(row =>
+      row.map((value, idx) => quote(formatCsvCell(value, sheet.columns[idx].type ?? 'text', format))).join(delimiter)
+    ),
+  ];
+  return lines.join('\r\n');
+}
+
+/** Baixa o conteúdo como arquivo. CSV leva BOM para o Excel reconhecer UTF-8. */
+export function downloadFile(fileName: string, content: BlobPart, mimeType: string): void {
+  const blob = new Blob(mimeType.startsWith('text/csv') ? ['\uFEFF', content] : [content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadCsv(fileName: string, sheet: ExportSheet, format: CsvFormat): void {
+  downloadFile(fileName, toCsv(sheet, format), 'text/csv;charset=utf-8');
+}
+
+/** Uma pasta de trabalho com uma aba por conjunto de dados; números e datas como células de verdade. */
+export async function downloadXlsx(fileName: string, sheets: ExportSheet[]): Promise<void> {
+  // Carregado sob demanda: a biblioteca é grande e só a exportação/importação usa
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+
+  sheets.forEach(sheet => {
+    const data = [
+      sheet.columns.map(c => c.header),
+      ...sheet.rows.map(row =>
+        row.map((value, idx) =>
+          sheet.columns[idx].type === 'date' && typeof value === 'string' && value
+            ? new Date(`${value}T12:00:00`)
+            : value
+        )
+      ),
+    ];
+    const worksheet = XLSX.utils.aoa_to_sheet(data, { cellDates: true, dateNF: 'dd/mm/yyyy' });
+    sheet.columns.forEach((column, col) => {
+      if (column.type !== 'money') return;
+      for (let row = 1; row < data.length; row++) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
+        if (cell && cell.t === 'n') cell.z = '#,##0.00';
+      }
+    });
+    worksheet['!cols'] = sheet.columns.map(c => ({ wch: Math.max(10, c.header.length + 2) }));
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+  });
+
+  const content = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  downloadFile(fileName, content, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+}
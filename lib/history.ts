@@ -0,0 +1,53 @@
+import type { HistoricalReport } from '../types';
+import { addDays, businessDayOf } from './businessDay';
+import type { DayRange } from './periods';
+
+// ====== Histórico carregado sob demanda ======
+// A inicialização traz só os dias recentes; relatórios de datas antigas pedem
+// os intervalos que faltam e o resultado fica em memória (não no localStorage).
+
+/** Partes de `wanted` que nenhum dos intervalos já carregados cobre. */
+export function missingRanges(loaded: DayRange[], wanted: DayRange): DayRange[] {
+  const missing: DayRange[] = [];
+  let cursor = wanted.from;
+  for (const range of [...loaded].sort((a, b) => a.from.localeCompare(b.from))) {
+    if (range.to < cursor) continue;
+    if (range.from > wanted.to) break;
+    if (range.from > cursor) missing.push({ from: cursor, to: addDays(range.from, -1) });
+    cursor = addDays(range.to, 1);
+    if (cursor > wanted.to) return missing;
+  }
+  if (cursor <= wanted.to) missing.push({ from: cursor, to: wanted.to });
+  return missing;
+}
+
+/** Junta registros por id (o carregado prevalece), em ordem cronológica. */
+export function mergeById<T extends { id: string; timestamp: Date }>(current: T[], loaded: T[]): T[] {
+  if (!loaded.length) return current;
+  const byId = new Map(current.map(r => [r.id, r]));
+  loaded.forEach(r => byId.set(r.id, r));
+  return [...byId.values()].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/** Junta caixas por dia: o carregado prevalece, sem perder sangrias que só existem aqui (ainda na fila). */
+export function mergeReports(
+  current: Record<string, HistoricalReport>,
+  loaded: Record<string, HistoricalReport>
+): Record<string, HistoricalReport> {
+  const merged = { ...current };
+  Object.values(loaded).forEach(report => {
+    const local = current[report.date]?.withdrawals ?? [];
+    const withdrawals = [...report.withdrawals, ...local.filter(w => !report.withdrawals.some(x => x.id === w.id))];
+    merged[report.date] = { ...report, withdrawals };
+  });
+  return merged;
+}
+
+/** Registros a partir de `fromDay` (o que vale a pena guardar no navegador). */
+export function recordsSince<T extends { timestamp: Date }>(records: T[], fromDay: string): T[] {
+  return records.filter(r => businessDayOf(r.timestamp) >= fromDay);
+}
+
+export function reportsSince(reports: Record<string, HistoricalReport>, fromDay: string): Record<string, HistoricalReport> {
+  return Object.fromEntries(Object.entries(reports).filter(([date]) => date >= fromDay));
+}
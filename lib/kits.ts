@@ -0,0 +1,115 @@
+import { KitComponent, Product, SaleItem, SaleItemComponent } from '../types';
+
+// ====== Kits/combos: produtos compostos por outros produtos ======
+
+type StockItem = Pick<SaleItem, 'productId' | 'quantity' | 'components'>;
+
+export function isKit(product: Pick<Product, 'components'> | undefined): boolean {
+  return !!product?.components?.length;
+}
+
+/** Componentes do item: o congelado na venda ou, no carrinho, o cadastro atual do kit. */
+function itemComponents(item: StockItem, products: Product[]): { productId: string; quantity: number }[] | null {
+  if (item.components?.length) return item.components;
+  const product = products.find(p => p.id === item.productId);
+  return isKit(product) ? product!.components! : null;
+}
+
+/**
+ * Quanto de cada produto de estoque os itens consomem; kits entram pelos
+ * componentes (quantidade do item × quantidade por kit).
+ */
+export function stockDemand(items: StockItem[], products: Product[] = []): Map<string, number> {
+  const demand = new Map<string, number>();
+  const add = (productId: string, quantity: number) => {
+    if (productId) demand.set(productId, (demand.get(productId) ?? 0) + quantity);
+  };
+  items.forEach(item => {
+    const components = itemComponents(item, products);
+    if (components) components.forEach(c => add(c.productId, c.quantity * item.quantity));
+    else add(item.productId, item.quantity);
+  });
+  return demand;
+}
+
+/**
+ * Unidades do produto que ainda dá para vender, descontando o que `items`
+ * (o carrinho) já consome. Para kits, é o que o componente mais escasso permite.
+ */
+export function availableQuantity(product: Product, products: Product[], items: StockItem[] = []): number {
+  const demand = stockDemand(items, products);
+  const free = (productId: string) =>
+    (products.find(p => p.id === productId)?.stock ?? 0) - (demand.get(productId) ?? 0);
+
+  if (!isKit(product)) return Math.max(0, free(product.id));
+  return Math.max(0, Math.min(...product.components!.map(c => Math.floor(free(c.productId) / c.quantity))));
+}
+
+/** O kit com o estoque disponível no lugar do próprio (que não é usado). */
+export function withKitAvailability(product: Product, products: Product[]): Product {
+  return isKit(product) ? { ...product, stock: availableQuantity(product, products) } : product;
+}
+
+/** Custo do kit pela soma dos componentes; undefined se algum não tem custo. */
+export function kitCost(components: KitComponent[], products: Product[]): number | undefined {
+  let total = 0;
+  for (const c of components) {
+    const cost = products.find(p => p.id === c.productId)?.costPrice;
+    if (cost === undefined) return undefined;
+    total += cost * c.quantity;
+  }
+  return total;
+}
+
+/** Componentes do kit com nome, preço e custo de agora, para gravar na venda. */
+export function snapshotComponents(kit: Product, products: Product[]): SaleItemComponent[] {
+  return (kit.components ?? []).map(c => {
+    const product = products.find(p => p.id === c.productId);
+    return {
+      productId: c.productId,
+      productName: product?.name ?? c.productId,
+      quantity: c.quantity,
+      pricePerItem: product?.price ?? 0,
+      costPerItem: product?.costPrice,
+    };
+  });
+}
+
+/**
+ * Troca cada kit pelos componentes, com o valor do kit rateado pelo preço
+ * avulso de cada um (o total dos itens não muda). Serve para relatórios por componente.
+ */
+export function expandKitItems<T extends Omit<SaleItem, 'components'> & { components?: SaleItemComponent[] }>(items: T[]): T[] {
+  return items.flatMap(item => {
+    if (!item.components?.length) return [item];
+    const listValue = item.components.reduce((acc, c) => acc + c.pricePerItem * c.quantity, 0);
+    const units = item.components.reduce((acc, c) => acc + c.quantity, 0);
+    return item.components.map(c => {
+      const share = listValue > 0 ? (c.pricePerItem * c.quantity) / listValue : c.quantity / units;
+      return {
+        ...item,
+        productId: c.productId,
+        productName: c.productName,
+        quantity: item.quantity * c.quantity,
+        pricePerItem: (item.pricePerItem * share) / c.quantity,
+        costPerItem: c.costPerItem,
+        components: undefined,
+      };
+    });
+  });
+}
+
+/** Problema na composição do kit (vazio, quantidade inválida, componente que é kit ou repetido). */
+export function validateKitComponents(components: KitComponent[], products: Product[], kitId?: string): string | null {
+  if (!components.length) return 'Inclua ao menos um produto no kit.';
+  const ids = new Set<string>();
+  for (const c of components) {
+    const product = products.find(p => p.id === c.productId);
+    if (!product) return 'Produto do kit não encontrado.';
+    if (c.productId === kitId || isKit(product)) return `"${product.name}" é um kit; kits não podem conter kits.`;
+    if (!Number.isInteger(c.quantity) || c.quantity <= 0) return `Quantidade inválida para "${product.name}".`;
+    if (ids.has(c.productId)) return `"${product.name}" aparece duas vezes.`;
+    ids.add(c.productId);
+  }
+  return null;
+}
@@ -0,0 +1,117 @@
+import { Refund, Sale } from '../types';
+import { expandKitItems } from './kits';
+
+// ====== Custo das mercadorias vendidas (CMV), lucro bruto e margem ======
+
+export interface MarginTotals {
+  /** Receita líquida: itens com o desconto rateado, menos estornos. */
+  revenue: number;
+  /** Parte da receita cujos itens têm custo; é a base do lucro e da margem. */
+  costedRevenue: number;
+  /** Custo das mercadorias vendidas (estornos devolvem o custo). */
+  cost: number;
+  /** costedRevenue − cost. */
+  profit: number;
+  /** Lucro sobre a receita com custo (0–1); null quando não há base. */
+  margin: number | null;
+}
+
+export interface ProductMargin extends MarginTotals {
+  /** productId ou, em itens sem produto, o nome. */
+  key: string;
+  productName: string;
+  /** Unidades vendidas menos estornadas. */
+  quantity: number;
+}
+
+export interface MarginSummary extends MarginTotals {
+  /** Ordenados do maior para o menor lucro. */
+  products: ProductMargin[];
+}
+
+/**
+ * Valor líquido de cada item da venda: o desconto é rateado pelo valor de
+ * cada item, de modo que a soma dá `sale.total`.
+ */
+export function netItemValues(sale: Sale): number[] {
+  const ratio = sale.subtotal > 0 ? sale.total / sale.subtotal : 0;
+  return sale.items.map(item => item.pricePerItem * item.quantity * ratio);
+}
+
+/** Valor devolvido por item do estorno, na proporção do valor de cada item. */
+export function refundItemValues(refund: Refund): number[] {
+  const itemsValue = refund.items.reduce((acc, item) => acc + item.pricePerItem * item.quantity, 0);
+  return refund.items.map(item =>
+    itemsValue > 0 ? refund.amount * ((item.pricePerItem * item.quantity) / itemsValue) : 0
+  );
+}
+
+const withMargin = <T extends Omit<MarginTotals, 'profit' | 'margin'>>(totals: T): T & MarginTotals => {
+  const profit = totals.costedRevenue - totals.cost;
+  return { ...totals, profit, margin: totals.costedRevenue > 0 ? profit / totals.costedRevenue : null };
+};
+
+/**
+ * Receita, CMV, lucro e margem do período, no total e por produto. Itens
+ * vendidos antes de o produto ter custo entram na receita, mas ficam fora
+ * do lucro e da margem (em vez de aparecerem com custo zero). Com
+ * `byComponent`, cada kit vendido aparece como os produtos que o compõem.
+ */
+export function summarizeMargins(
+  sales: Sale[],
+  refunds: Refund[] = [],
+  { byComponent = false }: { byComponent?: boolean } = {}
+): MarginSummary {
+  const byProduct = new Map<string, Omit<ProductMargin, 'profit' | 'margin'>>();
+
+  const add = (
+    item: { productId: string; productName: string; costPerItem?: number },
+    quantity: number,
+    value: number
+  ) => {
+    const key = item.productId || item.productName;
+    const row = byProduct.get(key) ?? { key, productName: item.productName, quantity: 0, revenue: 0, costedRevenue: 0, cost: 0 };
+    row.quantity += quantity;
+    row.revenue += value;
+    if (item.costPerItem !== undefined) {
+      row.costedRevenue += value;
+      row.cost += item.costPerItem * quantity;
+    }
+    byProduct.set(key, row);
+  };
+
+  sales.forEach(original => {
+    const sale = byComponent ? { ...original, items: expandKitItems(original.items) } : original;
+    const values = netItemValues(sale);
+    sale.items.forEach((item, idx) => add(item, item.quantity, values[idx]));
+  });
+  refunds.forEach(original => {
+    const refund = byComponent ? { ...original, items: expandKitItems(original.items) } : original;
+    const values = refundItemValues(refund);
+    refund.items.forEach((item, idx) => add(item, -item.quantity, -values[idx]));
+  });
+
+  const products = [...byProduct.values()]
+    .map(withMargin)
+    .sort((a, b) => b.profit - a.profit || b.revenue - a.revenue);
+  const totals = products.reduce(
+    (acc, p) => ({
+      revenue: acc.revenue + p.revenue,
+      costedRevenue: acc.costedRevenue + p.costedRevenue,
+      cost: acc.cost + p.cost,
+    }),
+    { revenue: 0, costedRevenue: 0, cost: 0 }
+  );
+
+  return { ...withMargin(totals), products };
+}
+
+/** Margem como "32,5%"; sem base, "-". */
+export function formatMargin(margin: number | null): string {
+  return margin === null ? '-' : `${(margin * 100).toFixed(1).replace('.', ',')}%`;
+}
+
+/** Margem de um preço sobre o custo (0–1); null sem custo ou sem preço. */
+export function unitMargin(price: number, cost?: number): number | null {
+  return cost === undefined || price <= 0 ? null : (price - cost) / price;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentMethod } from '../types';
+import { discountAmountFor, paymentsMatchTotal, roundMoney, roundPayments } from './payments';
+
+describe('discountAmountFor', () => {
+  it('arredonda o percentual para centavos', () => {
+    expect(discountAmountFor(7.05, { type: 'percentage', value: 10 })).toBe(0.71);
+  });
+
+  it('nunca passa do subtotal', () => {
+    expect(discountAmountFor(10, { type: 'fixed', value: 15 })).toBe(10);
+    expect(discountAmountFor(10, { type: 'percentage', value: 150 })).toBe(10);
+  });
+
+  it('sem desconto ou valor inválido é zero', () => {
+    expect(discountAmountFor(10, undefined)).toBe(0);
+    expect(discountAmountFor(10, { type: 'fixed', value: -3 })).toBe(0);
+    expect(discountAmountFor(10, { type: 'fixed', value: NaN })).toBe(0);
+  });
+});
+
+describe('roundMoney', () => {
+  it('corrige o erro de ponto flutuante', () => {
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+    expect(roundMoney(1.005)).toBe(1.01);
+  });
+});
+
+describe('roundPayments', () => {
+  it('o último pagamento absorve a sobra do arredondamento', () => {
+    const payments = roundPayments([{ method: PaymentMethod.Cash, amount: 3.335 }, { method: PaymentMethod.Pix, amount: 3.015 }], 6.35);
+    expect(payments.map(p => p.amount)).toEqual([3.34, 3.01]);
+    expect(paymentsMatchTotal(payments, 6.35)).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { CheckoutOptions, PaymentMethod, Sale, SalePayment } from '../types';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  [PaymentMethod.Cash]: 'Dinheiro',
+  [PaymentMethod.Pix]: 'Pix',
+};
+
+/** Diferença tolerada entre a soma dos pagamentos e o total (arredondamento). */
+export const PAYMENT_TOLERANCE = 0.005;
+
+/**
+ * Pagamentos da venda. Vendas antigas (antes do pagamento dividido) só têm
+ * `paymentMethod`; nesse caso o total inteiro conta para essa forma.
+ */
+export function getSalePayments(sale: Sale): SalePayment[] {
+  if (sale.payments?.length) return sale.payments;
+  return [{ method: sale.paymentMethod ?? PaymentMethod.Cash, amount: sale.total }];
+}
+
+/** Quanto da venda foi pago com a forma informada. */
+export function amountPaidWith(sale: Sale, method: PaymentMethod): number {
+  return getSalePayments(sale)
+    .filter(p => p.method === method)
+    .reduce((acc, p) => acc + p.amount, 0);
+}
+
+/** Arredonda para centavos (o banco guarda valores em numeric(12,2)). */
+export function roundMoney(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Desconto em reais da venda: percentual do subtotal ou valor fixo, nunca
+ * maior que o subtotal, em centavos. A tela de vendas e o registro da venda usam
+ * a mesma conta, para o total exibido ser o gravado.
+ */
+export function discountAmountFor(subtotal: number, discount: CheckoutOptions['discount']): number {
+  const value = discount?.value ?? 0;
+  if (!(value > 0)) return 0;
+  const amount = discount!.type === 'percentage' ? subtotal * (value / 100) : value;
+  return roundMoney(Math.min(amount, subtotal));
+}
+
+/** Pagamentos em centavos; o último absorve a sobra do arredondamento para a soma bater com o total. */
+export function roundPayments(payments: SalePayment[], total: number): SalePayment[] {
+  const rounded = payments.map(p => ({ ...p, amount: roundMoney(p.amount) }));
+  if (rounded.length) {
+    const others = rounded.slice(0, -1).reduce((acc, p) => acc + p.amount, 0);
+    rounded[rounded.length - 1].amount = roundMoney(total - others);
+  }
+  return rounded;
+}
+
+export function paymentsMatchTotal(payments: SalePayment[], total: number): boolean {
+  const paid = payments.reduce((acc, p) => acc + p.amount, 0);
+  return Math.abs(paid - total) < PAYMENT_TOLERANCE;
+}
+
+/** Texto para tabelas: "Pix" ou "Dinheiro R$ 5,00 + Pix R$ 3,00". */
+export function describePayments(sale: Sale, formatAmount: (value: number) => string): string {
+  const payments = getSalePayments(sale);
+  if (payments.length === 1) return PAYMENT_METHOD_LABELS[payments[0].method] ?? payments[0].method;
+  return payments
+    .map(p => `${PAYMENT_METHOD_LABELS[p.method] ?? p.method} ${formatAmount(p.amount)}`)
+    .join(' + ');
+}
@@ -0,0 +1,40 @@
+import { addDays, weekdayOf } from './businessDay';
+
+// ====== Períodos de relatório (dias de operação YYYY-MM-DD) ======
+
+/** Inclusive nas duas pontas. */
+export interface DayRange {
+  from: string;
+  to: string;
+}
+
+export type PeriodPreset = 'day' | 'thisWeek' | 'thisMonth' | 'lastMonth' | 'custom';
+
+export const PERIOD_PRESET_LABELS: Record<PeriodPreset, string> = {
+  day: 'Dia',
+  thisWeek: 'Esta semana',
+  thisMonth: 'Este mês',
+  lastMonth: 'Mês passado',
+  custom: 'Personalizado',
+};
+
+export const isInRange = (day: string, range: DayRange) => day >= range.from && day <= range.to;
+
+/**
+ * Intervalo de um atalho a partir de hoje. A semana começa na segunda;
+ * "este mês" e "esta semana" vão até hoje. `day` e `custom` devolvem só hoje.
+ */
+export function presetRange(preset: PeriodPreset, today: string): DayRange {
+  switch (preset) {
+    case 'thisWeek':
+      return { from: addDays(today, -((weekdayOf(today) + 6) % 7)), to: today };
+    case 'thisMonth':
+      return { from: `${today.slice(0, 8)}01`, to: today };
+    case 'lastMonth': {
+      const lastDay = addDays(`${today.slice(0, 8)}01`, -1);
+      return { from: `${lastDay.slice(0, 8)}01`, to: lastDay };
+    }
+    default:
+      return { from: today, to: today };
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { buildPixPayload, crc16, toPixTxid } from './pix';
+
+describe('crc16', () => {
+  it('segue o CRC16-CCITT (0x1021, início 0xFFFF)', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+});
+
+describe('buildPixPayload', () => {
+  it('termina com o CRC do próprio conteúdo', () => {
+    const payload = buildPixPayload({ key: 'cantina@exemplo.com', merchantName: 'Cantina São José', merchantCity: 'Goiânia', amount: 12.5, txid: 'sale-123' });
+    expect(payload.slice(-8, -4)).toBe('6304');
+    expect(payload.slice(-4)).toBe(crc16(payload.slice(0, -4)));
+    expect(payload).toContain('540512.50');
+    expect(payload).toContain('5916Cantina Sao Jose');
+  });
+});
+
+describe('toPixTxid', () => {
+  it('mantém só letras e números, até 25; vazio vira ***', () => {
+    expect(toPixTxid('sale-123')).toBe('sale123');
+    expect(toPixTxid(undefined)).toBe('***');
+    expect(toPixTxid('x'.repeat(30))).toHaveLength(25);
+  });
+});
@@ -0,0 +1,66 @@
+// ====== Pix BR Code (QR estático, padrão EMV do Banco Central) ======
+// Monta o "copia e cola" do Pix localmente, sem chamar nenhum serviço.
+
+export interface PixPayloadInput {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  /** Identificador da transação (ex.: id da venda). */
+  txid?: string;
+}
+
+const MAX_NAME = 25;
+const MAX_CITY = 15;
+const MAX_TXID = 25;
+
+/** Campo EMV: id (2 dígitos) + tamanho (2 dígitos) + valor. */
+function field(id: string, value: string): string {
+  return id + String(value.length).padStart(2, '0') + value;
+}
+
+/** Remove acentos e caracteres fora do conjunto aceito pelos leitores de QR dos bancos. */
+function sanitize(value: string, maxLength: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 .,\-@/]/g, '')
+    .trim()
+    .slice(0, maxLength);
+}
+
+/** O txid só aceita letras e números (até 25); sem txid usa-se "***". */
+export function toPixTxid(id: string | undefined): string {
+  const txid = (id ?? '').replace(/[^A-Za-z0-9]/g, '').slice(-MAX_TXID);
+  return txid || '***';
+}
+
+/** CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF), exigido no campo 63. */
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(payload)) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+export function buildPixPayload({ key, merchantName, merchantCity, amount, txid }: PixPayloadInput): string {
+  const merchantAccount = field('00', 'br.gov.bcb.pix') + field('01', key.trim());
+
+  const payload =
+    field('00', '01') +
+    field('26', merchantAccount) +
+    field('52', '0000') +
+    field('53', '986') +
+    (amount && amount > 0 ? field('54', amount.toFixed(2)) : '') +
+    field('58', 'BR') +
+    field('59', sanitize(merchantName, MAX_NAME) || 'N') +
+    field('60', sanitize(merchantCity, MAX_CITY) || 'N') +
+    field('62', field('05', toPixTxid(txid))) +
+    '6304';
+
+  return payload + crc16(payload);
+}
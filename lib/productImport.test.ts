@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../types';
+import { DEFAULT_CATEGORIES } from './categories';
+import { buildImportPreview, importPlan } from './productImport';
+
+const header = ['name', 'stock', 'price', 'min_stock', 'reorder_quantity'];
+const preview = (rows: string[][], products: Product[] = []) => buildImportPreview([header, ...rows], products, DEFAULT_CATEGORIES);
+
+describe('buildImportPreview', () => {
+  it('lê preços nos formatos brasileiro e americano', () => {
+    const { rows } = preview([['Coxinha', '10', '6,50', '', ''], ['Suco', '5', '7.5', '', '']]);
+    expect(rows.map(r => [r.action, r.product.price, r.product.stock])).toEqual([['create', 6.5, 10], ['create', 7.5, 5]]);
+  });
+
+  it('recusa quantidades com separador de milhar em vez de ler 1.000 como 1', () => {
+    const { rows } = preview([['Coxinha', '1.000', '6', '1,000', '2.500']]);
+    expect(rows[0].action).toBe('skip');
+    expect(rows[0].errors).toEqual([
+      expect.stringContaining('Estoque ambíguo'),
+      expect.stringContaining('Estoque mínimo ambíguo'),
+      expect.stringContaining('Qtd. para repor ambíguo'),
+    ]);
+  });
+
+  it('aceita quantidades inteiras sem separador e recusa frações', () => {
+    expect(preview([['Coxinha', '1000', '6', '', '']]).rows[0].product.stock).toBe(1000);
+    expect(preview([['Coxinha', '1,5', '6', '', '']]).rows[0].errors).toEqual([expect.stringContaining('Estoque inválido')]);
+  });
+
+  it('atualiza o produto existente e leva a quantidade como contagem de estoque', () => {
+    const existing: Product = { id: 'p1', name: 'Coxinha', stock: 3, price: 5, category: DEFAULT_CATEGORIES[0].id };
+    const plan = importPlan(preview([['coxinha', '12', '6', '', '']], [existing]));
+    expect(plan.create).toHaveLength(0);
+    expect(plan.update).toEqual([expect.objectContaining({ id: 'p1', price: 6, stock: 3 })]);
+    expect(plan.stockCounts).toEqual([{ productId: 'p1', countedStock: 12 }]);
+  });
+});
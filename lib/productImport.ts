@@ -0,0 +1,205 @@
+import { Category, Product } from '../types';
+import { parseCsv, parseDecimal } from './csv';
+import { normalizeText } from './search';
+import { findProductByCode, normalizeBarcode, validateProductCode } from './barcode';
+import { resolveCategories } from './categories';
+
+// ====== Importação de produtos (CSV/XLSX) com prévia ======
+
+type ImportField = 'name' | 'stock' | 'price' | 'costPrice' | 'category' | 'minStock' | 'reorderQuantity' | 'barcode';
+
+/** Cabeçalhos aceitos para cada campo, já sem acento e em minúsculas. */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'nome', 'produto'],
+  stock: ['stock', 'estoque', 'quantidade', 'qtd'],
+  price: ['price', 'preco', 'valor'],
+  costPrice: ['cost_price', 'custo', 'preco de custo', 'preco_custo'],
+  category: ['category', 'categoria'],
+  minStock: ['min_stock', 'estoque_minimo', 'estoque minimo', 'minimo'],
+  reorderQuantity: ['reorder_quantity', 'qtd_repor', 'qtd para repor', 'reposicao'],
+  barcode: ['barcode', 'codigo', 'codigo de barras', 'ean', 'sku'],
+};
+
+/** Cabeçalho do modelo de planilha. */
+export const IMPORT_TEMPLATE_HEADERS = ['name', 'stock', 'price', 'cost_price', 'category', 'min_stock', 'reorder_quantity', 'barcode'];
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export interface ImportRow {
+  /** Linha na planilha (a 1 é o cabeçalho). */
+  line: number;
+  action: ImportAction;
+  /** Produto como ficará depois da importação (nas ignoradas, o que foi lido). */
+  product: Omit<Product, 'id'>;
+  /** Produto já cadastrado com o mesmo código ou nome. */
+  existing?: Product;
+  /** Estoque informado para um produto existente; se mudar, vira correção de inventário. */
+  countedStock?: number;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  /** Categorias que não existem e serão criadas. */
+  newCategories: Category[];
+  /** Erro que impede a importação inteira (ex.: cabeçalho sem nome nem código). */
+  fileError?: string;
+}
+
+export interface ProductImportPlan {
+  categories: Category[];
+  create: Omit<Product, 'id'>[];
+  /** Cadastro atualizado; o estoque segue o atual e só muda por `stockCounts`. */
+  update: Product[];
+  stockCounts: { productId: string; countedStock: number }[];
+}
+
+/** Lê a primeira planilha de um .xlsx/.xls/.ods, ou o CSV, como tabela de textos. */
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.(xlsx|xls|ods)$/i.test(file.name)) {
+    // Carregado sob demanda: a biblioteca é grande e só a importação usa
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, blankrows: false, defval: '' });
+    return rows.map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))));
+  }
+  return parseCsv(await file.text());
+}
+
+function mapHeaders(header: string[]): Partial<Record<ImportField, number>> {
+  const columns: Partial<Record<ImportField, number>> = {};
+  header.forEach((title, index) => {
+    const normalized = normalizeText(title);
+    const field = (Object.keys(HEADER_ALIASES) as ImportField[]).find(f => HEADER_ALIASES[f].includes(normalized));
+    if (field && columns[field] === undefined) columns[field] = index;
+  });
+  return columns;
+}
+
+/** "1.000" ou "1,000": milhar no formato brasileiro ou decimal no americano (ou o contrário). */
+const AMBIGUOUS_THOUSANDS = /^\d{1,3}([.,]\d{3})+$/;
+
+/**
+ * Inteiro ≥ 0; vazio retorna undefined. Quantidades com separador de milhar
+ * são recusadas: "1.000" viraria 1 (decimal) sem aviso nenhum na prévia.
+ */
+function parseCount(value: string | undefined, label: string, errors: string[]): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (AMBIGUOUS_THOUSANDS.test(value.replace(/\s/g, ''))) {
+    errors.push(`${label} ambíguo: "${value}". Escreva a quantidade sem separador de milhar (ex.: 1000).`);
+    return undefined;
+  }
+  const parsed = parseDecimal(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    errors.push(`${label} inválido: "${value}".`);
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * Confere cada linha e decide o que fazer com ela. Produtos existentes são
+ * encontrados pelo código de barras ou, sem código, pelo nome (sem acento e
+ * maiúsculas) e são atualizados em vez de duplicados. Colunas ausentes ou
+ * vazias mantêm o valor atual do produto.
+ */
+export function buildImportPreview(table: string[][], products: Product[], categories: Category[]): ImportPreview {
+  const [header = [], ...body] = table;
+  const columns = mapHeaders(header);
+  if (columns.name === undefined && columns.barcode === undefined) {
+    return {
+      rows: [],
+      newCategories: [],
+      fileError: `Cabeçalho inválido: informe ao menos a coluna "name" (ou "barcode"). Esperado: ${IMPORT_TEMPLATE_HEADERS.join(', ')}.`,
+    };
+  }
+
+  const cell = (row: string[], field: ImportField) =>
+    columns[field] === undefined ? undefined : (row[columns[field]!] ?? '').trim();
+
+  const { ids: categoryIds, created } = resolveCategories(categories, body.map(row => cell(row, 'category') ?? ''));
+  const seen = new Map<string, number>();
+
+  const rows = body.map((row, index): ImportRow => {
+    const line = index + 2;
+    const errors: string[] = [];
+
+    const name = cell(row, 'name') ?? '';
+    const code = normalizeBarcode(cell(row, 'barcode') ?? '');
+    const codeError = code ? validateProductCode(code) : null;
+    if (codeError) errors.push(codeError);
+
+    const byCode = code ? findProductByCode(products, code) : undefined;
+    const byName = name ? products.find(p => normalizeText(p.name) === normalizeText(name)) : undefined;
+    const existing = byCode ?? (byName && !(code && byName.barcode) ? byName : undefined);
+    if (!byCode && byName?.barcode && code) {
+      errors.push(`"${byName.name}" já está cadastrado com outro código (${byName.barcode}).`);
+    }
+
+    // A mesma linha repetida na planilha seria gravada duas vezes
+    const key = existing?.id ?? (code || normalizeText(name));
+    if (key && seen.has(key)) errors.push(`Repete a linha ${seen.get(key)}.`);
+    else if (key) seen.set(key, line);
+
+    const priceText = cell(row, 'price');
+    let price = existing?.price ?? NaN;
+    if (priceText) {
+      price = parseDecimal(priceText);
+      if (isNaN(price) || price < 0) errors.push(`Preço inválido: "${priceText}".`);
+    } else if (!existing) {
+      errors.push('Preço não informado.');
+    }
+    if (!existing && !name) errors.push('Nome não informado.');
+
+    const costText = cell(row, 'costPrice');
+    let costPrice = existing?.costPrice;
+    if (costText) {
+      costPrice = parseDecimal(costText);
+      if (isNaN(costPrice) || costPrice < 0) errors.push(`Custo inválido: "${costText}".`);
+    }
+
+    const stock = parseCount(cell(row, 'stock'), 'Estoque', errors);
+    const minStock = parseCount(cell(row, 'minStock'), 'Estoque mínimo', errors);
+    const reorderQuantity = parseCount(cell(row, 'reorderQuantity'), 'Qtd. para repor', errors);
+    const categoryText = cell(row, 'category');
+
+    const product: Omit<Product, 'id'> = {
+      name: name || existing?.name || '',
+      price,
+      costPrice,
+      stock: existing ? existing.stock : stock ?? 0,
+      category: existing && !categoryText ? existing.category : categoryIds[index],
+      minStock: minStock ?? existing?.minStock ?? 0,
+      reorderQuantity: reorderQuantity ?? existing?.reorderQuantity ?? 0,
+      barcode: code || existing?.barcode,
+      active: existing?.active,
+      components: existing?.components,
+    };
+
+    return {
+      line,
+      action: errors.length ? 'skip' : existing ? 'update' : 'create',
+      product,
+      existing,
+      countedStock: existing ? stock : undefined,
+      errors,
+    };
+  });
+
+  const usedCategories = new Set(rows.filter(r => r.action !== 'skip').map(r => r.product.category));
+  return { rows, newCategories: created.filter(c => usedCategories.has(c.id)) };
+}
+
+/** O que gravar a partir da prévia (linhas com erro ficam de fora). */
+export function importPlan(preview: ImportPreview): ProductImportPlan {
+  const updates = preview.rows.filter(r => r.action === 'update' && r.existing);
+  return {
+    categories: preview.newCategories,
+    create: preview.rows.filter(r => r.action === 'create').map(r => r.product),
+    update: updates.map(r => ({ ...r.product, id: r.existing!.id, stock: r.existing!.stock })),
+    stockCounts: updates
+      .filter(r => r.countedStock !== undefined && r.countedStock !== r.existing!.stock)
+      .map(r => ({ productId: r.existing!.id, countedStock: r.countedStock! })),
+  };
+}
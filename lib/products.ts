@@ -0,0 +1,15 @@
+import { Product } from '../types';
+
+// ====== Produtos ativos e arquivados ======
+
+export type ProductStatusFilter = 'active' | 'archived' | 'all';
+
+/** Produtos sem o campo (gravados antes do arquivamento) são ativos. */
+export function isActiveProduct(product: Product): boolean {
+  return product.active !== false;
+}
+
+export function filterByStatus(products: Product[], filter: ProductStatusFilter): Product[] {
+  if (filter === 'all') return products;
+  return products.filter(p => isActiveProduct(p) === (filter === 'active'));
+}
@@ -0,0 +1,192 @@
+import { ReceiptSettings, Sale } from '../types';
+import { PAYMENT_METHOD_LABELS, getSalePayments } from './payments';
+import { getBusinessDaySettings } from './businessDay';
+
+// ====== Cupom não fiscal (recibo do cliente) ======
+// O layout é montado uma vez em linhas e desenhado de duas formas: texto de
+// largura fixa (impressão pelo navegador) e bytes ESC/POS (impressora térmica).
+
+export type PaperWidth = ReceiptSettings['paperWidth'];
+
+/** Caracteres por linha na fonte padrão (fonte A) das térmicas. */
+export const RECEIPT_COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+export type ReceiptLine =
+  | { kind: 'text'; text: string; align?: 'left' | 'center'; bold?: boolean; large?: boolean }
+  | { kind: 'pair'; left: string; right: string; bold?: boolean; large?: boolean }
+  | { kind: 'rule' };
+
+export const DEFAULT_RECEIPT_SETTINGS: ReceiptSettings = {
+  storeName: '',
+  headerLines: '',
+  footer: 'Obrigado e volte sempre!',
+  paperWidth: 80,
+  bridgeUrl: '',
+  printAfterSale: false,
+};
+
+/** Valor com vírgula e "R$" (sem o espaço especial do toLocaleString, que a térmica não tem). */
+const money = (value: number) => {
+  const [int, cents] = Math.abs(value).toFixed(2).split('.');
+  return `${value < 0 ? '-' : ''}R$ ${int.replace(/\B(?=(\d{3})+(?!\d))/g, '.')},${cents}`;
+};
+
+const quantity = (value: number) => String(value).replace('.', ',');
+
+/** Data e hora da venda no fuso da cantina. */
+function formatTimestamp(value: Date): string {
+  return new Date(value).toLocaleString('pt-BR', {
+    timeZone: getBusinessDaySettings().timeZone,
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Linhas do cupom: cabeçalho da loja, itens (kits com o que levam), subtotal,
+ * desconto, total, pagamentos, troco e identificação da venda. `copy` marca
+ * a reimpressão como segunda via.
+ */
+export function buildReceipt(sale: Sale, settings: ReceiptSettings, { copy = false }: { copy?: boolean } = {}): ReceiptLine[] {
+  const lines: ReceiptLine[] = [];
+  const storeName = settings.storeName.trim();
+  if (storeName) lines.push({ kind: 'text', text: storeName, align: 'center', bold: true, large: true });
+  settings.headerLines
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .forEach(text => lines.push({ kind: 'text', text, align: 'center' }));
+  lines.push({ kind: 'text', text: 'CUPOM NÃO FISCAL', align: 'center', bold: true });
+  if (copy) lines.push({ kind: 'text', text: '2ª via', align: 'center' });
+  lines.push({ kind: 'rule' });
+
+  lines.push({ kind: 'pair', left: 'Data', right: formatTimestamp(sale.timestamp) });
+  lines.push({ kind: 'pair', left: 'Venda', right: sale.id });
+  if (sale.operator) lines.push({ kind: 'pair', left: 'Operador', right: sale.operator });
+  lines.push({ kind: 'rule' });
+
+  sale.items.forEach(item => {
+    lines.push({ kind: 'text', text: item.productName });
+    lines.push({
+      kind: 'pair',
+      left: `  ${quantity(item.quantity)} x ${money(item.pricePerItem)}`,
+      right: money(item.pricePerItem * item.quantity),
+    });
+    item.components?.forEach(component => {
+      lines.push({ kind: 'text', text: `  - ${quantity(component.quantity * item.quantity)}x ${component.productName}` });
+    });
+  });
+  lines.push({ kind: 'rule' });
+
+  lines.push({ kind: 'pair', left: 'Subtotal', right: money(sale.subtotal) });
+  if (sale.discountAmount > 0) {
+    const percent = sale.discountType === 'percentage' && sale.discountValue ? ` (${quantity(sale.discountValue)}%)` : '';
+    lines.push({ kind: 'pair', left: `Desconto${percent}`, right: money(-sale.discountAmount) });
+  }
+  lines.push({ kind: 'pair', left: 'TOTAL', right: money(sale.total), bold: true, large: true });
+
+  getSalePayments(sale).forEach(payment => {
+    lines.push({ kind: 'pair', left: PAYMENT_METHOD_LABELS[payment.method] ?? payment.method, right: money(payment.amount) });
+  });
+  if (sale.cashTendered !== undefined) {
+    lines.push({ kind: 'pair', left: 'Recebido em dinheiro', right: money(sale.cashTendered) });
+    lines.push({ kind: 'pair', left: 'Troco', right: money(sale.changeDue ?? 0) });
+  }
+  if (sale.status === 'cancelled') lines.push({ kind: 'text', text: 'VENDA ESTORNADA', align: 'center', bold: true });
+  if (sale.status === 'partially_refunded') lines.push({ kind: 'text', text: 'VENDA COM ESTORNO PARCIAL', align: 'center', bold: true });
+
+  const footer = settings.footer.trim();
+  if (footer) {
+    lines.push({ kind: 'rule' });
+    footer.split('\n').map(line => line.trim()).filter(Boolean).forEach(text => lines.push({ kind: 'text', text, align: 'center' }));
+  }
+  return lines;
+}
+
+/** Quebra o texto em pedaços de até `width` caracteres, preferindo os espaços. */
+function wrap(text: string, width: number): string[] {
+  const rows: string[] = [];
+  let rest = text;
+  while (rest.length > width) {
+    const cut = rest.lastIndexOf(' ', width);
+    const at = cut > 0 ? cut : width;
+    rows.push(rest.slice(0, at).trimEnd());
+    rest = rest.slice(at).trimStart();
+  }
+  rows.push(rest);
+  return rows;
+}
+
+const center = (text: string, width: number) => ' '.repeat(Math.max(0, Math.floor((width - text.length) / 2))) + text;
+
+/**
+ * Uma linha do cupom em linhas de largura fixa. Linhas `large` saem com
+ * largura dupla na térmica, então cabem metade dos caracteres.
+ */
+function layoutLine(line: ReceiptLine, columns: number): string[] {
+  if (line.kind === 'rule') return ['-'.repeat(columns)];
+  const width = line.large ? Math.floor(columns / 2) : columns;
+  if (line.kind === 'text') {
+    return wrap(line.text, width).map(row => (line.align === 'center' ? center(row, width) : row));
+  }
+  // Par: texto à esquerda e valor à direita; se não couber, o valor desce
+  if (line.left.length + line.right.length + 1 <= width) {
+    return [line.left + ' '.repeat(width - line.left.length - line.right.length) + line.right];
+  }
+  return [...wrap(line.left, width), line.right.padStart(width)];
+}
+
+/** O cupom como texto de largura fixa (pré-visualização e impressão pelo navegador). */
+export function receiptText(lines: ReceiptLine[], paperWidth: PaperWidth): { text: string; bold?: boolean; large?: boolean }[] {
+  const columns = RECEIPT_COLUMNS[paperWidth];
+  return lines.flatMap(line => {
+    const style = line.kind === 'rule' ? {} : { bold: line.bold, large: line.large };
+    return layoutLine(line, columns).map(text => ({ text, ...style }));
+  });
+}
+
+// ====== ESC/POS ======
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/** Acentos do português na página de código PC850 (ESC t 2), aceita pela maioria das térmicas. */
+const PC850: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'à': 0x85, 'ç': 0x87, 'ê': 0x88, 'É': 0x90,
+  'ô': 0x93, 'á': 0xa0, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ª': 0xa6, 'º': 0xa7, 'Á': 0xb5,
+  'Â': 0xb6, 'À': 0xb7, 'ã': 0xc6, 'Ã': 0xc7, 'Ê': 0xd2, 'Í': 0xd6, 'Ó': 0xe0, 'Ô': 0xe2,
+  'õ': 0xe4, 'Õ': 0xe5, 'Ú': 0xe9,
+};
+
+/** Texto em bytes PC850; o que não existe na página perde o acento (ou vira "?"). */
+function encodePc850(text: string): number[] {
+  return [...text].flatMap(char => {
+    if (PC850[char] !== undefined) return [PC850[char]];
+    const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    return [...plain].map(c => (c.charCodeAt(0) < 0x80 ? c.charCodeAt(0) : 0x3f));
+  });
+}
+
+/**
+ * Bytes ESC/POS do cupom: inicializa, escolhe a PC850, imprime as linhas
+ * (negrito e largura/altura dupla quando marcados), avança o papel e corta.
+ */
+export function receiptEscPos(lines: ReceiptLine[], paperWidth: PaperWidth): Uint8Array {
+  const columns = RECEIPT_COLUMNS[paperWidth];
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 2];
+  lines.forEach(line => {
+    const bold = line.kind !== 'rule' && !!line.bold;
+    const large = line.kind !== 'rule' && !!line.large;
+    if (bold) bytes.push(ESC, 0x45, 1);
+    if (large) bytes.push(GS, 0x21, 0x11);
+    layoutLine(line, columns).forEach(row => bytes.push(...encodePc850(row), 0x0a));
+    if (large) bytes.push(GS, 0x21, 0x00);
+    if (bold) bytes.push(ESC, 0x45, 0);
+  });
+  // Avança 4 linhas e corte parcial
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0);
+  return new Uint8Array(bytes);
+}
+
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentMethod, type Sale } from '../types';
+import { buildRefund, refundableQuantities, saleStatusAfterRefunds } from './refunds';
+
+const sale: Sale = {
+  id: 's',
+  items: [
+    { productId: 'coxinha', productName: 'Coxinha', quantity: 3, pricePerItem: 5 },
+    { productId: 'suco', productName: 'Suco', quantity: 1, pricePerItem: 7.05 },
+  ],
+  subtotal: 22.05,
+  discountType: 'percentage',
+  discountValue: 10,
+  discountAmount: 2.21,
+  total: 19.84,
+  payments: [{ method: PaymentMethod.Cash, amount: 10 }, { method: PaymentMethod.Pix, amount: 9.84 }],
+  timestamp: new Date('2026-10-10T15:00:00Z'),
+};
+
+const item = (productId: string, quantity: number) => ({ ...sale.items.find(i => i.productId === productId)!, quantity });
+
+describe('buildRefund', () => {
+  it('aplica o desconto da venda e a proporção paga em dinheiro, em centavos', () => {
+    const refund = buildRefund(sale, [item('coxinha', 1)], 'frio', []);
+    expect(refund.amount).toBe(4.5);
+    expect(refund.cashAmount).toBe(2.27);
+  });
+
+  it('o último estorno leva o que sobrou, para fechar com o total da venda', () => {
+    const first = buildRefund(sale, [item('coxinha', 1)], 'frio', []);
+    const last = buildRefund(sale, [item('coxinha', 2), item('suco', 1)], 'desistiu', [first]);
+    expect(first.amount + last.amount).toBeCloseTo(sale.total, 10);
+  });
+
+  it('descarta itens com quantidade zero', () => {
+    expect(buildRefund(sale, [item('coxinha', 1), item('suco', 0)], 'x', []).items).toHaveLength(1);
+  });
+});
+
+describe('refundableQuantities / saleStatusAfterRefunds', () => {
+  it('desconta o que já foi estornado e ajusta o status', () => {
+    const first = { ...buildRefund(sale, [item('coxinha', 2)], 'x', []), id: 'r1' };
+    expect(refundableQuantities(sale, [first])).toEqual({ coxinha: 1, suco: 1 });
+    expect(saleStatusAfterRefunds(sale, [])).toBe('completed');
+    expect(saleStatusAfterRefunds(sale, [first])).toBe('partially_refunded');
+
+    const rest = { ...buildRefund(sale, [item('coxinha', 1), item('suco', 1)], 'x', [first]), id: 'r2' };
+    expect(saleStatusAfterRefunds(sale, [first, rest])).toBe('cancelled');
+  });
+});
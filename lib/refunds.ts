@@ -0,0 +1,55 @@
+import { PaymentMethod, Refund, RefundItem, Sale, SaleStatus } from '../types';
+import { amountPaidWith, roundMoney } from './payments';
+
+/** Quantidade ainda estornável de cada produto da venda (vendido − já estornado). */
+export function refundableQuantities(sale: Sale, refunds: Refund[]): Record<string, number> {
+  const remaining: Record<string, number> = {};
+  sale.items.forEach(item => {
+    remaining[item.productId] = (remaining[item.productId] ?? 0) + item.quantity;
+  });
+  refunds
+    .filter(r => r.saleId === sale.id)
+    .forEach(r => r.items.forEach(item => {
+      remaining[item.productId] = (remaining[item.productId] ?? 0) - item.quantity;
+    }));
+  return remaining;
+}
+
+/**
+ * Monta o estorno dos itens escolhidos. O valor segue a proporção do desconto
+ * da venda e a parte em dinheiro segue a proporção paga em dinheiro.
+ */
+export function buildRefund(sale: Sale, items: RefundItem[], reason: string, previousRefunds: Refund[]): Refund {
+  const itemsValue = items.reduce((acc, item) => acc + item.pricePerItem * item.quantity, 0);
+  const remaining = refundableQuantities(sale, previousRefunds);
+  const refundsEverything = sale.items.every(item =>
+    items.filter(i => i.productId === item.productId).reduce((acc, i) => acc + i.quantity, 0) >= (remaining[item.productId] ?? 0)
+  );
+
+  const alreadyRefunded = previousRefunds
+    .filter(r => r.saleId === sale.id)
+    .reduce((acc, r) => acc + r.amount, 0);
+  // O último estorno leva o que sobrou, para o total estornado bater com o total da venda
+  const amount = roundMoney(refundsEverything
+    ? sale.total - alreadyRefunded
+    : sale.subtotal > 0 ? itemsValue * (sale.total / sale.subtotal) : 0);
+  const cashShare = sale.total > 0 ? amountPaidWith(sale, PaymentMethod.Cash) / sale.total : 0;
+
+  return {
+    id: `rf-${Date.now()}`,
+    saleId: sale.id,
+    items: items.filter(i => i.quantity > 0),
+    amount,
+    cashAmount: roundMoney(amount * cashShare),
+    reason,
+    timestamp: new Date(),
+  };
+}
+
+/** Status da venda depois de considerar os estornos já registrados. */
+export function saleStatusAfterRefunds(sale: Sale, refunds: Refund[]): SaleStatus {
+  const ownRefunds = refunds.filter(r => r.saleId === sale.id);
+  if (!ownRefunds.length) return 'completed';
+  const remaining = refundableQuantities(sale, ownRefunds);
+  return Object.values(remaining).every(q => q <= 0) ? 'cancelled' : 'partially_refunded';
+}
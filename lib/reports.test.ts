@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { PaymentMethod, type Refund, type Sale } from '../types';
+import { configureBusinessDay } from './businessDay';
+import { reportTotals, summarizeDays, sumDays } from './reports';
+
+// Mesmas regras de report_daily_totals / report_product_totals (migração
+// 20261019240000): estornos negativos no dia do estorno, a parte que não
+// voltou em dinheiro sai do Pix, vendas antigas contam pelo paymentMethod.
+
+const sale = (id: string, timestamp: string, total: number, payments: Sale['payments'], extra: Partial<Sale> = {}): Sale => ({
+  id,
+  items: [{ productId: 'coxinha', productName: 'Coxinha', quantity: 1, pricePerItem: total }],
+  subtotal: total,
+  discountAmount: 0,
+  total,
+  payments,
+  timestamp: new Date(timestamp),
+  ...extra,
+});
+
+const refund = (saleId: string, timestamp: string, amount: number, cashAmount: number): Refund => ({
+  id: `rf-${saleId}`,
+  saleId,
+  items: [{ productId: 'coxinha', productName: 'Coxinha', quantity: 1, pricePerItem: amount }],
+  amount,
+  cashAmount,
+  reason: 'teste',
+  timestamp: new Date(timestamp),
+});
+
+describe('summarizeDays', () => {
+  afterEach(() => configureBusinessDay(undefined));
+
+  it('separa dinheiro e Pix e desconta estornos no dia em que aconteceram', () => {
+    const sales = [
+      sale('a', '2026-10-10T15:00:00Z', 10, [{ method: PaymentMethod.Cash, amount: 4 }, { method: PaymentMethod.Pix, amount: 6 }]),
+      sale('b', '2026-10-10T16:00:00Z', 8, [], { paymentMethod: PaymentMethod.Pix, discountAmount: 2 }),
+    ];
+    const refunds = [refund('a', '2026-10-11T15:00:00Z', 5, 2)];
+    const reports = {
+      '2026-10-11': { date: '2026-10-11', openingCash: 0, closingCash: 0, withdrawals: [{ id: 'w', amount: 1, reason: 'x', timestamp: new Date('2026-10-11T18:00:00Z') }] },
+    };
+
+    const days = summarizeDays(sales, refunds, reports, { from: '2026-10-10', to: '2026-10-11' });
+    expect(days).toEqual([
+      expect.objectContaining({ date: '2026-10-10', salesCount: 2, totalSales: 18, cashSales: 4, pixSales: 14, totalDiscounts: 2, totalRefunds: 0 }),
+      expect.objectContaining({ date: '2026-10-11', salesCount: 0, totalSales: -5, cashSales: -2, pixSales: -3, totalRefunds: 5, cashRefunds: 2, totalWithdrawals: 1, netCash: -3 }),
+    ]);
+    expect(sumDays(days)).toMatchObject({ salesCount: 2, totalSales: 13, cashSales: 2, pixSales: 11 });
+  });
+
+  it('agrupa pelo dia de operação (fuso e virada)', () => {
+    configureBusinessDay({ timeZone: 'America/Sao_Paulo', cutoffHour: 4 });
+    // 02:00 em São Paulo, antes da virada: conta para o dia anterior
+    const late = sale('a', '2026-10-11T05:00:00Z', 10, [{ method: PaymentMethod.Cash, amount: 10 }]);
+    const days = summarizeDays([late], [], {}, { from: '2026-10-10', to: '2026-10-11' });
+    expect(days.map(d => d.date)).toEqual(['2026-10-10']);
+  });
+});
+
+describe('reportTotals', () => {
+  it('ranqueia produtos com o desconto rateado e estornos descontados', () => {
+    const s: Sale = {
+      id: 's',
+      items: [
+        { productId: 'coxinha', productName: 'Coxinha', quantity: 2, pricePerItem: 6 },
+        { productId: 'suco', productName: 'Suco', quantity: 1, pricePerItem: 8 },
+      ],
+      subtotal: 20,
+      discountAmount: 2,
+      total: 18,
+      payments: [{ method: PaymentMethod.Cash, amount: 18 }],
+      timestamp: new Date('2026-10-10T15:00:00Z'),
+    };
+    const r: Refund = { ...refund('s', '2026-10-10T16:00:00Z', 7.2, 7.2), items: [{ productId: 'suco', productName: 'Suco', quantity: 1, pricePerItem: 8 }] };
+
+    const totals = reportTotals([s], [r], {}, { from: '2026-10-10', to: '2026-10-10' });
+    expect(totals.days[0]).toMatchObject({ totalSales: 10.8, totalRefunds: 7.2 });
+    expect(totals.products).toHaveLength(1);
+    expect(totals.products[0]).toMatchObject({ key: 'coxinha', quantity: 2, share: 1 });
+    expect(totals.products[0].revenue).toBeCloseTo(10.8);
+  });
+});
@@ -0,0 +1,168 @@
+import { HistoricalReport, PaymentMethod, Refund, Sale } from '../types';
+import { amountPaidWith } from './payments';
+import { businessDayOf } from './businessDay';
+import { DayRange, isInRange } from './periods';
+import { summarizeMargins } from './margins';
+
+export interface SalesSummary {
+  /** Vendas do período menos os estornos do período. */
+  totalSales: number;
+  cashSales: number;
+  pixSales: number;
+  totalDiscounts: number;
+  totalRefunds: number;
+  cashRefunds: number;
+}
+
+/**
+ * Totais de um conjunto de vendas; dinheiro e Pix vêm das partes de cada
+ * pagamento. Estornos entram negativos, na forma em que foram devolvidos.
+ */
+export function summarizeSales(sales: Sale[], refunds: Refund[] = []): SalesSummary {
+  const gross = sales.reduce(
+    (acc, sale) => ({
+      total: acc.total + sale.total,
+      cash: acc.cash + amountPaidWith(sale, PaymentMethod.Cash),
+      pix: acc.pix + amountPaidWith(sale, PaymentMethod.Pix),
+      discounts: acc.discounts + sale.discountAmount,
+    }),
+    { total: 0, cash: 0, pix: 0, discounts: 0 }
+  );
+  const totalRefunds = refunds.reduce((acc, r) => acc + r.amount, 0);
+  const cashRefunds = refunds.reduce((acc, r) => acc + r.cashAmount, 0);
+
+  return {
+    totalSales: gross.total - totalRefunds,
+    cashSales: gross.cash - cashRefunds,
+    pixSales: gross.pix - (totalRefunds - cashRefunds),
+    totalDiscounts: gross.discounts,
+    totalRefunds,
+    cashRefunds,
+  };
+}
+
+export interface DaySummary extends SalesSummary {
+  date: string;
+  salesCount: number;
+  totalWithdrawals: number;
+  /** Dinheiro que ficou do movimento: vendas em dinheiro (já sem estornos em dinheiro) − sangrias. */
+  netCash: number;
+}
+
+export type PeriodTotals = Omit<DaySummary, 'date'>;
+
+/** Resumo de cada dia do período que teve venda, estorno ou sangria, em ordem. */
+export function summarizeDays(
+  sales: Sale[],
+  refunds: Refund[],
+  reports: Record<string, HistoricalReport>,
+  range: DayRange
+): DaySummary[] {
+  const salesByDay = new Map<string, Sale[]>();
+  sales.forEach(sale => {
+    const day = businessDayOf(sale.timestamp);
+    if (isInRange(day, range)) salesByDay.set(day, [...(salesByDay.get(day) ?? []), sale]);
+  });
+  const refundsByDay = new Map<string, Refund[]>();
+  refunds.forEach(refund => {
+    const day = businessDayOf(refund.timestamp);
+    if (isInRange(day, range)) refundsByDay.set(day, [...(refundsByDay.get(day) ?? []), refund]);
+  });
+  const days = new Set([
+    ...salesByDay.keys(),
+    ...refundsByDay.keys(),
+    ...Object.keys(reports).filter(day => isInRange(day, range) && reports[day].withdrawals?.length),
+  ]);
+
+  return [...days].sort().map(date => {
+    const summary = summarizeSales(salesByDay.get(date) ?? [], refundsByDay.get(date) ?? []);
+    const totalWithdrawals = (reports[date]?.withdrawals ?? []).reduce((acc, w) => acc + w.amount, 0);
+    return {
+      ...summary,
+      date,
+      salesCount: salesByDay.get(date)?.length ?? 0,
+      totalWithdrawals,
+      netCash: summary.cashSales - totalWithdrawals,
+    };
+  });
+}
+
+export function sumDays(days: DaySummary[]): PeriodTotals {
+  return days.reduce<PeriodTotals>(
+    (acc, day) => ({
+      totalSales: acc.totalSales + day.totalSales,
+      cashSales: acc.cashSales + day.cashSales,
+      pixSales: acc.pixSales + day.pixSales,
+      totalDiscounts: acc.totalDiscounts + day.totalDiscounts,
+      totalRefunds: acc.totalRefunds + day.totalRefunds,
+      cashRefunds: acc.cashRefunds + day.cashRefunds,
+      salesCount: acc.salesCount + day.salesCount,
+      totalWithdrawals: acc.totalWithdrawals + day.totalWithdrawals,
+      netCash: acc.netCash + day.netCash,
+    }),
+    { totalSales: 0, cashSales: 0, pixSales: 0, totalDiscounts: 0, totalRefunds: 0, cashRefunds: 0, salesCount: 0, totalWithdrawals: 0, netCash: 0 }
+  );
+}
+
+export interface ProductRank {
+  key: string;
+  productName: string;
+  quantity: number;
+  /** Receita líquida (desconto rateado, estornos descontados). */
+  revenue: number;
+  /** Fatia da receita do período (0–1). */
+  share: number;
+}
+
+/** Quantidade e receita líquida de um produto no período (antes do ranking). */
+export type ProductTotal = Omit<ProductRank, 'share'>;
+
+/**
+ * Ordena do que mais faturou para o que menos faturou; a fatia é sobre a
+ * receita de todos os produtos. Usado pelo cálculo local e pelo do banco.
+ */
+export function rankProductTotals(totals: ProductTotal[]): ProductRank[] {
+  const revenue = totals.reduce((acc, p) => acc + p.revenue, 0);
+  return totals
+    .filter(p => p.quantity !== 0 || Math.abs(p.revenue) >= 0.005)
+    .map(p => ({ ...p, share: revenue > 0 ? p.revenue / revenue : 0 }))
+    .sort((a, b) => b.revenue - a.revenue || b.quantity - a.quantity);
+}
+
+/** Produtos do período do que mais faturou para o que menos faturou. */
+export function rankProducts(sales: Sale[], refunds: Refund[] = []): ProductRank[] {
+  return rankProductTotals(
+    summarizeMargins(sales, refunds).products.map(p => ({
+      key: p.key,
+      productName: p.productName,
+      quantity: p.quantity,
+      revenue: p.revenue,
+    }))
+  );
+}
+
+/** Totais de relatório de um período: dia a dia e por produto. */
+export interface ReportTotals {
+  days: DaySummary[];
+  products: ProductRank[];
+  /** Calculado no terminal sem todos os dias do intervalo carregados: os números estão incompletos. */
+  partial?: boolean;
+}
+
+/**
+ * Cálculo local dos totais (backends sem banco e terminal offline). O
+ * Supabase faz o mesmo em report_daily_totals / report_product_totals.
+ */
+export function reportTotals(
+  sales: Sale[],
+  refunds: Refund[],
+  reports: Record<string, HistoricalReport>,
+  range: DayRange
+): ReportTotals {
+  const periodSales = sales.filter(s => isInRange(businessDayOf(s.timestamp), range));
+  const periodRefunds = refunds.filter(r => isInRange(businessDayOf(r.timestamp), range));
+  return {
+    days: summarizeDays(periodSales, periodRefunds, reports, range),
+    products: rankProducts(periodSales, periodRefunds),
+  };
+}
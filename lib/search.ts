@@ -0,0 +1,58 @@
+import { Product } from '../types';
+
+// ====== Busca de produtos (sem acento, tolerante a letras faltando) ======
+
+/** Minúsculas e sem acentos: "Pão de Queijo" → "pao de queijo". */
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Pontua um termo contra um texto já normalizado: início de palavra vale mais
+ * que trecho no meio, que vale mais que letras em ordem com buracos
+ * ("rfgte" acha "refrigerante"). Retorna 0 quando não combina.
+ */
+function scoreToken(token: string, text: string): number {
+  if (text.startsWith(token)) return 100;
+  if (text.includes(` ${token}`)) return 80;
+  if (text.includes(token)) return 60;
+
+  let pos = 0;
+  let gaps = 0;
+  for (const char of token) {
+    const found = text.indexOf(char, pos);
+    if (found < 0) return 0;
+    gaps += found - pos;
+    pos = found + 1;
+  }
+  // Subsequência muito espalhada não ajuda o operador
+  if (token.length < 3 || gaps > token.length * 3) return 0;
+  return Math.max(1, 40 - gaps);
+}
+
+/** Todos os termos da busca precisam combinar com o nome (ou o código). */
+export function searchProducts(products: Product[], query: string, limit: number = 20): Product[] {
+  const tokens = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (!tokens.length) return [];
+
+  return products
+    .map(product => {
+      const name = normalizeText(product.name);
+      const code = product.barcode ? normalizeText(product.barcode) : '';
+      let score = 0;
+      for (const token of tokens) {
+        const tokenScore = Math.max(scoreToken(token, name), code.startsWith(token) ? 90 : 0);
+        if (!tokenScore) return { product, score: 0 };
+        score += tokenScore;
+      }
+      return { product, score };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name))
+    .slice(0, limit)
+    .map(r => r.product);
+}
@@ -0,0 +1,37 @@
+import { Product, Sale } from '../types';
+import { businessDayOf } from './businessDay';
+import { isActiveProduct } from './products';
+import { isKit, stockDemand } from './kits';
+
+// ====== Alertas de estoque (mínimo e reposição) ======
+
+/** No mínimo ou abaixo dele. Sem mínimo cadastrado, só conta quando esgota. */
+export function isLowStock(product: Product): boolean {
+  return product.stock <= (product.minStock ?? 0);
+}
+
+export function isSoldOut(product: Product): boolean {
+  return product.stock <= 0;
+}
+
+/** Quanto comprar: a quantidade de reposição cadastrada ou o que falta para o mínimo. */
+export function suggestedReorder(product: Product): number {
+  if (product.reorderQuantity && product.reorderQuantity > 0) return product.reorderQuantity;
+  return Math.max(1, (product.minStock ?? 0) - product.stock);
+}
+
+/** Produtos para repor, os esgotados primeiro. Arquivados e kits (repõe-se os componentes) ficam de fora. */
+export function reorderList(products: Product[]): Product[] {
+  return products
+    .filter(p => isActiveProduct(p) && !isKit(p) && isLowStock(p))
+    .sort((a, b) => a.stock - b.stock || a.name.localeCompare(b.name));
+}
+
+/** Produtos vendidos no dia (avulsos ou em kits) que estão esgotados agora (aviso no fechamento). */
+export function soldOutDuringDay(products: Product[], sales: Sale[], day: string): Product[] {
+  const sold = stockDemand(
+    sales.filter(sale => businessDayOf(sale.timestamp) === day).flatMap(sale => sale.items),
+    products
+  );
+  return products.filter(p => sold.has(p.id) && isActiveProduct(p) && !isKit(p) && isSoldOut(p));
+}
@@ -0,0 +1,98 @@
+import { Product, Refund, RefundItem, Sale, SaleItem, StockMovement, StockMovementType } from '../types';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Entrada (compra)',
+  sale: 'Venda',
+  refund: 'Estorno',
+  adjustment: 'Ajuste manual',
+  loss: 'Perda / avaria',
+  inventory: 'Correção de inventário',
+};
+
+/** Tipos que o operador lança à mão; venda e estorno vêm das próprias operações. */
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = ['receipt', 'adjustment', 'loss', 'inventory'];
+
+/**
+ * Monta um movimento manual. `value` é a quantidade informada: entrada e perda
+ * usam o valor absoluto, ajuste aceita sinal e inventário é a quantidade contada.
+ */
+export function buildStockMovement(
+  product: Product,
+  type: StockMovementType,
+  value: number,
+  reason: string,
+  operator: string
+): StockMovement {
+  const quantity =
+    type === 'receipt' ? Math.abs(value)
+    : type === 'loss' ? -Math.abs(value)
+    : type === 'inventory' ? value - product.stock
+    : value;
+
+  return {
+    id: crypto?.randomUUID?.() ?? `mv-${Date.now()}`,
+    productId: product.id,
+    type,
+    quantity,
+    ...(type === 'inventory' ? { countedStock: value } : {}),
+    stockAfter: product.stock + quantity,
+    reason,
+    operator,
+    timestamp: new Date(),
+  };
+}
+
+/** Estoque depois do movimento; o inventário substitui pelo valor contado. */
+export function applyStockMovement(stock: number, movement: StockMovement): number {
+  if (movement.type === 'inventory' && movement.countedStock !== undefined) return movement.countedStock;
+  return stock + movement.quantity;
+}
+
+/**
+ * Linhas de estoque dos itens: o próprio produto ou, nos kits, cada componente.
+ * Os ids seguem os do banco: `mv-<id>-i<n>` e, por componente, `mv-<id>-i<n>-c<k>`.
+ */
+function itemStockLines(items: (SaleItem | RefundItem)[], ownerId: string): { id: string; productId: string; quantity: number }[] {
+  return items.flatMap((item, idx) =>
+    item.components?.length
+      ? item.components.map((c, k) => ({
+          id: `mv-${ownerId}-i${idx}-c${k}`,
+          productId: c.productId,
+          quantity: c.quantity * item.quantity,
+        }))
+      : item.productId
+        ? [{ id: `mv-${ownerId}-i${idx}`, productId: item.productId, quantity: item.quantity }]
+        : []
+  );
+}
+
+/** Baixas de uma venda (uma por item, ou por componente nos kits). */
+export function saleStockMovements(sale: Sale): StockMovement[] {
+  return itemStockLines(sale.items, sale.id).map(line => ({
+    ...line,
+    type: 'sale' as const,
+    quantity: -line.quantity,
+    reason: 'Venda',
+    operator: sale.operator ?? '',
+    referenceId: sale.id,
+    timestamp: new Date(sale.timestamp),
+  }));
+}
+
+/** Devoluções ao estoque de um estorno (uma por item, ou por componente nos kits). */
+export function refundStockMovements(refund: Refund): StockMovement[] {
+  return itemStockLines(refund.items, refund.id).map(line => ({
+    ...line,
+    type: 'refund' as const,
+    reason: refund.reason,
+    operator: refund.operator ?? '',
+    referenceId: refund.id,
+    timestamp: new Date(refund.timestamp),
+  }));
+}
+
+/** Estoque segundo o histórico (para conferir com o estoque gravado no produto). */
+export function ledgerStock(movements: StockMovement[]): number {
+  const ordered = [...movements].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  return ordered.reduce((stock, m) => applyStockMovement(stock, m), 0);
+}
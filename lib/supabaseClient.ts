@@ -1,7 +1,24 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
-const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
-const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+const url = import.meta.env.VITE_SUPABASE_URL as string | undefined;
+const anon = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
 
-// Cliente sem header customizado (evita CORS)
-export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+let client: SupabaseClient | null = null;
+
+/** Indica se as variáveis do Supabase foram definidas no build. */
+export function isSupabaseConfigured(): boolean {
+  return !!url && !!anon;
+}
+
+/**
+ * Retorna o cliente do Supabase se as variáveis estiverem definidas.
+ * Caso contrário retorna null (a app segue com o backend local).
+ */
+export function getSupabase(): SupabaseClient | null {
+  if (!url || !anon) return null;
+  if (!client) {
+    // Cliente sem header customizado (evita CORS)
+    client = createClient(url, anon);
+  }
+  return client;
+}
@@ -0,0 +1,52 @@
+import { isSupabaseConfigured } from '../lib/supabaseClient';
+import { createLocalRepository } from './localRepo';
+import { createMemoryRepository } from './memoryRepo';
+import type { DataRepository } from './repository';
+import { supabaseRepository } from './supabaseRepo';
+
+export type DataBackend = 'supabase' | 'local' | 'memory';
+
+/**
+ * Backend escolhido por VITE_DATA_BACKEND. Sem valor, usa o Supabase quando
+ * as variáveis dele existem e o armazenamento local caso contrário. Avisa no
+ * console qual backend ficou e por quê.
+ */
+export function resolveBackend(): DataBackend {
+  const configured = import.meta.env.VITE_DATA_BACKEND;
+  if (configured === 'supabase' && !isSupabaseConfigured()) {
+    console.warn(
+      '[dados] VITE_DATA_BACKEND=supabase, mas VITE_SUPABASE_URL ou VITE_SUPABASE_ANON_KEY não estão definidas. ' +
+      'Usando o backend local (localStorage deste navegador).'
+    );
+    return 'local';
+  }
+  if (configured === 'supabase' || configured === 'local' || configured === 'memory') {
+    console.info(`[dados] Backend "${configured}" (definido em VITE_DATA_BACKEND).`);
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[dados] VITE_DATA_BACKEND="${configured}" não existe (use supabase, local ou memory); escolhendo automaticamente.`);
+  }
+  if (isSupabaseConfigured()) {
+    console.info('[dados] Backend "supabase" (VITE_SUPABASE_URL e VITE_SUPABASE_ANON_KEY definidas).');
+    return 'supabase';
+  }
+  console.info('[dados] Backend "local": Supabase não configurado, dados salvos só neste navegador.');
+  return 'local';
+}
+
+export function createRepository(backend: DataBackend): DataRepository {
+  switch (backend) {
+    case 'supabase':
+      return supabaseRepository;
+    case 'local':
+      return createLocalRepository();
+    case 'memory':
+      return createMemoryRepository();
+  }
+}
+
+export const dataBackend: DataBackend = resolveBackend();
+
+/** Repositório usado pela app inteira. */
+export const repository: DataRepository = createRepository(dataBackend);
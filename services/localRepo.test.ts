@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PaymentMethod, type Product, type Sale } from '../types';
+import { todayBusinessDay } from '../lib/businessDay';
+import { createLocalRepository } from './localRepo';
+
+// localStorage mínimo: os testes rodam no Node, sem navegador.
+function memoryStorage(initial: Record<string, unknown> = {}) {
+  const items = new Map(Object.entries(initial).map(([k, v]) => [k, JSON.stringify(v)]));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+}
+
+const coxinha: Product = { id: 'coxinha', name: 'Coxinha', stock: 7, price: 6.5, category: 'Alimentos' };
+const sale: Sale = {
+  id: 's1',
+  items: [{ productId: 'coxinha', productName: 'Coxinha', quantity: 1, pricePerItem: 6.5 }],
+  subtotal: 6.5,
+  discountAmount: 0,
+  total: 6.5,
+  payments: [{ method: PaymentMethod.Cash, amount: 6.5 }],
+  timestamp: new Date(),
+};
+
+describe('localRepo', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+
+  beforeEach(() => {
+    storage = memoryStorage({
+      'pdv-products': [coxinha],
+      'pdv-sales': [sale],
+      'pdv-cashDrawer': { isOpen: true, openingCash: 50, previousClosingCash: 30 },
+      'pdv-historicalReports': {
+        '2026-01-05': { date: '2026-01-05', openingCash: 20, closingCash: 30, withdrawals: [{ id: 'w1', amount: 5, reason: 'troco', timestamp: new Date('2026-01-05T15:00:00Z') }] },
+      },
+    });
+    vi.stubGlobal('window', { localStorage: storage });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('na primeira execução mantém o cadastro, as vendas e o caixa que a app já tinha', async () => {
+    const repo = createLocalRepository();
+    const data = await repo.fetchInitialData();
+    expect(data.products).toEqual([coxinha]);
+    expect(data.sales.map(s => s.id)).toEqual(['s1']);
+    expect(data.cashDrawer).toMatchObject({ isOpen: true, openingCash: 50, previousClosingCash: 30 });
+
+    const history = await repo.fetchHistory({ from: '2026-01-05', to: '2026-01-05' });
+    expect(history.historicalReports['2026-01-05']).toMatchObject({ closingCash: 30, withdrawals: [{ id: 'w1' }] });
+    expect(storage.getItem('pdv-local-db')).not.toBeNull();
+  });
+
+  it('o estoque importado vira o saldo inicial do histórico', async () => {
+    const repo = createLocalRepository();
+    const [movement] = await repo.fetchStockMovements('coxinha');
+    expect(movement).toMatchObject({ type: 'inventory', quantity: 7, stockAfter: 7 });
+  });
+
+  it('com o banco local já criado, ignora as chaves antigas', async () => {
+    storage.setItem('pdv-local-db', JSON.stringify({ products: [], sales: [] }));
+    const repo = createLocalRepository();
+    expect((await repo.fetchInitialData()).products).toEqual([]);
+  });
+
+  it('o caixa aberto fica no dia de operação atual', async () => {
+    const repo = createLocalRepository();
+    const today = todayBusinessDay();
+    const history = await repo.fetchHistory({ from: today, to: today });
+    expect(history.historicalReports[today]).toMatchObject({ openingCash: 50 });
+  });
+});
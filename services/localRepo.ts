@@ -0,0 +1,111 @@
+import { createMemoryRepository, emptyMemoryData, type MemoryData } from './memoryRepo';
+import type { CashDrawerDay, DataRepository } from './repository';
+import type { CashDrawer, Category, HistoricalReport, Product, Refund, Sale, StockMovement } from '../types';
+import { todayBusinessDay } from '../lib/businessDay';
+
+const STORAGE_KEY = 'pdv-local-db';
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+function openingMovements(products: Product[]): StockMovement[] {
+  const now = new Date();
+  return products.map(p => ({
+    id: `opening-${p.id}`,
+    productId: p.id,
+    type: 'inventory',
+    quantity: p.stock,
+    countedStock: p.stock,
+    stockAfter: p.stock,
+    reason: 'Saldo inicial',
+    operator: '',
+    timestamp: now,
+  }));
+}
+
+function read<T>(key: string): T | null {
+  const raw = window.localStorage.getItem(key);
+  if (!raw) return null;
+  return JSON.parse(raw, (_k, v) => (typeof v === 'string' && ISO_DATE.test(v) ? new Date(v) : v));
+}
+
+/**
+ * Primeira execução do backend local: o banco começa com o que a app já
+ * guardava nas chaves próprias (pdv-products, pdv-sales, ...), para a
+ * atualização não trocar o cadastro e o histórico por listas vazias.
+ */
+function fromAppStorage(): MemoryData {
+  const data = emptyMemoryData();
+  const products = read<Product[]>('pdv-products');
+  const categories = read<Category[]>('pdv-categories');
+  const reports = read<Record<string, HistoricalReport>>('pdv-historicalReports') ?? {};
+  const drawer = read<CashDrawer>('pdv-cashDrawer');
+
+  if (products) data.products = products;
+  if (categories?.length) data.categories = categories;
+  data.sales = read<Sale[]>('pdv-sales') ?? [];
+  data.refunds = read<Refund[]>('pdv-refunds') ?? [];
+
+  let previousClosingCash = 0;
+  data.cashDrawers = Object.values(reports)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(report => {
+      const day: CashDrawerDay = {
+        date: report.date,
+        openingCash: report.openingCash,
+        closingCash: report.closingCash,
+        previousClosingCash,
+        ...(report.cashCount ? { cashCount: report.cashCount } : {}),
+      };
+      previousClosingCash = report.closingCash;
+      return day;
+    });
+  data.withdrawals = Object.values(reports).flatMap(report =>
+    (report.withdrawals ?? []).map(withdrawal => ({ date: report.date, withdrawal }))
+  );
+
+  // Caixa aberto: o dia dele fica sem fechamento
+  if (drawer?.isOpen) {
+    const date = drawer.date ?? todayBusinessDay();
+    data.cashDrawers = [
+      ...data.cashDrawers.filter(d => d.date !== date),
+      { date, openingCash: drawer.openingCash, closingCash: null, previousClosingCash: drawer.previousClosingCash },
+    ];
+  }
+
+  data.stockMovements = openingMovements(data.products);
+  return data;
+}
+
+function load(key: string): MemoryData {
+  try {
+    const parsed = read<Partial<MemoryData>>(key);
+    if (!parsed) {
+      const seeded = fromAppStorage();
+      try {
+        window.localStorage.setItem(key, JSON.stringify(seeded));
+      } catch {
+        /* ignore quota errors */
+      }
+      return seeded;
+    }
+    const loaded: MemoryData = { ...emptyMemoryData(), ...parsed };
+    // Dados de antes do histórico de estoque: o estoque atual vira o saldo inicial
+    if (!parsed.stockMovements) loaded.stockMovements = openingMovements(loaded.products);
+    return loaded;
+  } catch {
+    return emptyMemoryData();
+  }
+}
+
+/**
+ * Backend só no navegador: as mesmas regras do backend em memória, com os
+ * dados salvos no localStorage. Permite usar a app sem Supabase configurado.
+ */
+export function createLocalRepository(storageKey: string = STORAGE_KEY): DataRepository {
+  return createMemoryRepository(load(storageKey), data => {
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(data));
+    } catch {
+      /* ignore quota errors */
+    }
+  });
+}
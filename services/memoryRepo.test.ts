@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PaymentMethod, type Product, type Refund, type Sale } from '../types';
+import { addDays, todayBusinessDay } from '../lib/businessDay';
+import { createMemoryRepository, emptyMemoryData } from './memoryRepo';
+import { InsufficientStockError, RejectedWriteError, type DataRepository } from './repository';
+
+// Contrato do DataRepository no backend em memória: as mesmas regras que o
+// Supabase aplica nas funções commit_sale, refund_sale e record_stock_movement.
+
+const product = (id: string, stock: number, extra: Partial<Product> = {}): Product => ({
+  id, name: id, stock, price: 5, category: 'Alimentos', ...extra,
+});
+
+const sale = (id: string, items: [string, number][], timestamp = new Date('2026-10-10T15:00:00Z')): Sale => {
+  const total = items.reduce((acc, [, quantity]) => acc + quantity * 5, 0);
+  return {
+    id,
+    items: items.map(([productId, quantity]) => ({ productId, productName: productId, quantity, pricePerItem: 5 })),
+    subtotal: total,
+    discountAmount: 0,
+    total,
+    payments: [{ method: PaymentMethod.Cash, amount: total }],
+    timestamp,
+  };
+};
+
+const refund = (id: string, saleId: string, items: [string, number][], amount: number): Refund => ({
+  id,
+  saleId,
+  items: items.map(([productId, quantity]) => ({ productId, productName: productId, quantity, pricePerItem: 5 })),
+  amount,
+  cashAmount: amount,
+  reason: 'teste',
+  timestamp: new Date('2026-10-10T16:00:00Z'),
+});
+
+async function stockOf(repo: DataRepository, id: string) {
+  const { products } = await repo.fetchInitialData();
+  return products.find(p => p.id === id)?.stock;
+}
+
+describe('memoryRepo', () => {
+  let repo: DataRepository;
+
+  beforeEach(async () => {
+    repo = createMemoryRepository({ ...emptyMemoryData(), products: [product('coxinha', 10), product('suco', 2)] });
+  });
+
+  describe('commitSale', () => {
+    it('grava a venda e baixa o estoque', async () => {
+      await repo.commitSale(sale('s1', [['coxinha', 3]]));
+      expect(await stockOf(repo, 'coxinha')).toBe(7);
+      const { sales } = await repo.fetchHistory({ from: '2026-10-10', to: '2026-10-10' });
+      expect(sales.map(s => s.id)).toEqual(['s1']);
+    });
+
+    it('é idempotente: a mesma venda reenviada não baixa duas vezes', async () => {
+      await repo.commitSale(sale('s1', [['coxinha', 3]]));
+      await repo.commitSale(sale('s1', [['coxinha', 3]]));
+      expect(await stockOf(repo, 'coxinha')).toBe(7);
+    });
+
+    it('recusa a venda inteira sem estoque, sem baixar nada', async () => {
+      const attempt = repo.commitSale(sale('s1', [['coxinha', 1], ['suco', 3]]));
+      await expect(attempt).rejects.toBeInstanceOf(InsufficientStockError);
+      await expect(attempt).rejects.toBeInstanceOf(RejectedWriteError);
+      expect(await stockOf(repo, 'coxinha')).toBe(10);
+      expect(await stockOf(repo, 'suco')).toBe(2);
+    });
+
+    it('kits baixam o estoque dos componentes', async () => {
+      repo = createMemoryRepository({
+        ...emptyMemoryData(),
+        products: [product('coxinha', 10), product('suco', 5), product('combo', 0, { components: [{ productId: 'coxinha', quantity: 2 }, { productId: 'suco', quantity: 1 }] })],
+      });
+      await repo.commitSale(sale('s1', [['combo', 2]]));
+      expect(await stockOf(repo, 'coxinha')).toBe(6);
+      expect(await stockOf(repo, 'suco')).toBe(3);
+    });
+  });
+
+  describe('recordRefund', () => {
+    beforeEach(async () => {
+      await repo.commitSale(sale('s1', [['coxinha', 3]]));
+    });
+
+    it('devolve o estoque e ajusta o status da venda', async () => {
+      await repo.recordRefund(refund('r1', 's1', [['coxinha', 1]], 5));
+      expect(await stockOf(repo, 'coxinha')).toBe(8);
+      let { sales } = await repo.fetchHistory({ from: '2026-10-10', to: '2026-10-10' });
+      expect(sales[0].status).toBe('partially_refunded');
+
+      await repo.recordRefund(refund('r2', 's1', [['coxinha', 2]], 10));
+      ({ sales } = await repo.fetchHistory({ from: '2026-10-10', to: '2026-10-10' }));
+      expect(sales[0].status).toBe('cancelled');
+    });
+
+    it('recusa estornar além do vendido menos o já estornado', async () => {
+      await repo.recordRefund(refund('r1', 's1', [['coxinha', 2]], 10));
+      await expect(repo.recordRefund(refund('r2', 's1', [['coxinha', 2]], 10))).rejects.toBeInstanceOf(RejectedWriteError);
+      expect(await stockOf(repo, 'coxinha')).toBe(9);
+    });
+
+    it('recusa valor acima do que falta devolver', async () => {
+      await expect(repo.recordRefund(refund('r1', 's1', [['coxinha', 1]], 20))).rejects.toBeInstanceOf(RejectedWriteError);
+    });
+
+    it('recusa estorno de venda inexistente', async () => {
+      await expect(repo.recordRefund(refund('r1', 'nao-existe', [['coxinha', 1]], 5))).rejects.toBeInstanceOf(RejectedWriteError);
+    });
+  });
+
+  describe('recordStockMovement', () => {
+    it('inventário calcula a variação contra o estoque atual', async () => {
+      await repo.commitSale(sale('s1', [['coxinha', 4]]));
+      await repo.recordStockMovement({
+        id: 'm1', productId: 'coxinha', type: 'inventory', quantity: 0, countedStock: 5,
+        reason: 'contagem', operator: '', timestamp: new Date('2026-10-10T18:00:00Z'),
+      });
+      expect(await stockOf(repo, 'coxinha')).toBe(5);
+      const [movement] = await repo.fetchStockMovements('coxinha');
+      expect(movement).toMatchObject({ id: 'm1', quantity: -1, stockAfter: 5 });
+    });
+
+    it('recusa saída que deixaria o estoque negativo', async () => {
+      const loss = { id: 'm1', productId: 'suco', type: 'loss' as const, quantity: -3, reason: 'avaria', operator: '', timestamp: new Date() };
+      await expect(repo.recordStockMovement(loss)).rejects.toBeInstanceOf(InsufficientStockError);
+    });
+  });
+
+  describe('leituras por dia de operação', () => {
+    it('fetchHistory traz só os dias do intervalo, com caixas e sangrias', async () => {
+      await repo.commitSale(sale('s1', [['coxinha', 1]], new Date('2026-10-09T15:00:00Z')));
+      await repo.commitSale(sale('s2', [['coxinha', 1]], new Date('2026-10-10T15:00:00Z')));
+      await repo.openCashDrawer(50, 0, '2026-10-10');
+      await repo.recordWithdrawal({ id: 'w1', amount: 20, reason: 'troco', timestamp: new Date('2026-10-10T17:00:00Z') }, '2026-10-10');
+
+      const history = await repo.fetchHistory({ from: '2026-10-10', to: '2026-10-10' });
+      expect(history.sales.map(s => s.id)).toEqual(['s2']);
+      expect(history.historicalReports['2026-10-10']).toMatchObject({ openingCash: 50, withdrawals: [{ id: 'w1' }] });
+      expect(history.historicalReports['2026-10-09']).toBeUndefined();
+    });
+
+    it('caixa aberto ontem e ainda não fechado continua aberto, com o dia em que abriu', async () => {
+      const yesterday = addDays(todayBusinessDay(), -1);
+      await repo.openCashDrawer(50, 0, yesterday);
+      expect((await repo.fetchInitialData()).cashDrawer).toMatchObject({ isOpen: true, openingCash: 50, date: yesterday });
+
+      await repo.closeCashDrawer(70, yesterday);
+      expect((await repo.fetchInitialData()).cashDrawer).toMatchObject({ isOpen: false, previousClosingCash: 70 });
+    });
+
+    it('fetchReportTotals soma por dia e por produto, com estornos descontados', async () => {
+      await repo.commitSale(sale('s1', [['coxinha', 2], ['suco', 1]]));
+      await repo.recordRefund(refund('r1', 's1', [['coxinha', 1]], 5));
+
+      const totals = await repo.fetchReportTotals({ from: '2026-10-10', to: '2026-10-10' });
+      expect(totals.days).toHaveLength(1);
+      expect(totals.days[0]).toMatchObject({ date: '2026-10-10', salesCount: 1, totalSales: 10, cashSales: 10, totalRefunds: 5 });
+      expect(totals.products.find(p => p.productName === 'coxinha')).toMatchObject({ quantity: 1, revenue: 5 });
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import type { Product, Sale, Withdrawal, Refund, StockMovement, Category } from '../types';
+import { refundableQuantities, saleStatusAfterRefunds } from '../lib/refunds';
+import { applyStockMovement, refundStockMovements, saleStockMovements } from '../lib/stockMovements';
+import { stockDemand } from '../lib/kits';
+import { addDays, businessDayOf, todayBusinessDay } from '../lib/businessDay';
+import { DEFAULT_CATEGORIES, sortCategories } from '../lib/categories';
+import { isInRange, type DayRange } from '../lib/periods';
+import { reportTotals } from '../lib/reports';
+import {
+  assembleHistory,
+  assembleInitialData,
+  InsufficientStockError,
+  RejectedWriteError,
+  RECENT_DAYS,
+  type CashDrawerDay,
+  type DataRepository,
+  type HistoryRows,
+} from './repository';
+
+
+/** Conteúdo completo do backend em memória (também é o formato salvo pelo localRepo). */
+export interface MemoryData {
+  products: Product[];
+  categories: Category[];
+  sales: Sale[];
+  refunds: Refund[];
+  cashDrawers: CashDrawerDay[];
+  withdrawals: { date: string; withdrawal: Withdrawal }[];
+  stockMovements: StockMovement[];
+}
+
+export const emptyMemoryData = (): MemoryData => ({
+  products: [],
+  categories: DEFAULT_CATEGORIES,
+  sales: [],
+  refunds: [],
+  cashDrawers: [],
+  withdrawals: [],
+  stockMovements: [],
+});
+
+/** Preenche `stockAfter` dos movimentos a partir do estoque já atualizado dos produtos. */
+function withStockAfter(movements: StockMovement[], products: Product[]): StockMovement[] {
+  return movements.map(m => ({ ...m, stockAfter: products.find(p => p.id === m.productId)?.stock }));
+}
+
+/**
+ * Backend em memória, com as mesmas regras do Supabase (baixa de estoque
+ * atômica, gravações idempotentes). Usado em testes e demonstrações, e como
+ * base do backend local. `onChange` é chamado após cada gravação.
+ */
+export function createMemoryRepository(
+  initial: MemoryData = emptyMemoryData(),
+  onChange?: (data: MemoryData) => void
+): DataRepository {
+  let data: MemoryData = initial;
+
+  const historyRows = (range: DayRange): HistoryRows => {
+    const inRange = (r: { timestamp: Date }) => isInRange(businessDayOf(r.timestamp), range);
+    return {
+      sales: data.sales
+        .filter(inRange)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+      refunds: data.refunds.filter(inRange),
+      drawers: data.cashDrawers.filter(d => isInRange(d.date, range)).sort((a, b) => a.date.localeCompare(b.date)),
+      withdrawals: data.withdrawals.filter(w => isInRange(w.date, range)),
+    };
+  };
+
+  const commit = (next: MemoryData) => {
+    data = next;
+    onChange?.(data);
+  };
+
+  return {
+    async fetchInitialData() {
+      const today = todayBusinessDay();
+      const from = addDays(today, -RECENT_DAYS);
+      const lastClosed = data.cashDrawers
+        .filter(d => d.date < from && d.closingCash !== null)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .slice(-1)[0];
+
+      return assembleInitialData({
+        products: [...data.products].sort((a, b) => a.name.localeCompare(b.name)),
+        categories: sortCategories(data.categories),
+        ...historyRows({ from, to: today }),
+        today,
+        lastClosed,
+      });
+    },
+
+    async fetchHistory(range) {
+      return assembleHistory(historyRows(range));
+    },
+
+    async fetchReportTotals(range) {
+      const history = assembleHistory(historyRows(range));
+      return reportTotals(history.sales, history.refunds, history.historicalReports, range);
+    },
+
+    // O estoque não vem do cadastro: produto novo começa em zero e muda por movimentos.
+    async upsertProduct(p) {
+      const exists = data.products.some(x => x.id === p.id);
+      commit({
+        ...data,
+        products: exists
+          ? data.products.map(x => (x.id === p.id ? { ...p, stock: x.stock } : x))
+          : [...data.products, { ...p, stock: 0 }],
+      });
+    },
+
+    async upsertProducts(list) {
+      if (!list?.length) return;
+      const byId = new Map(list.map(p => [p.id, p]));
+      const updated = data.products.map(x => (byId.has(x.id) ? { ...byId.get(x.id)!, stock: x.stock } : x));
+      const added = list.filter(p => !data.products.some(x => x.id === p.id)).map(p => ({ ...p, stock: 0 }));
+      commit({ ...data, products: [...updated, ...added] });
+    },
+
+    async upsertCategory(category) {
+      const exists = data.categories.some(c => c.id === category.id);
+      commit({
+        ...data,
+        categories: exists
+          ? data.categories.map(c => (c.id === category.id ? category : c))
+          : [...data.categories, category],
+      });
+    },
+
+    async commitSale(sale) {
+      if (data.sales.some(s => s.id === sale.id)) return;
+
+      const products = data.products.map(p => ({ ...p }));
+      for (const [productId, quantity] of stockDemand(sale.items, data.products)) {
+        const product = products.find(p => p.id === productId);
+        if (!product) continue;
+        product.stock -= quantity;
+        if (product.stock < 0) throw new InsufficientStockError(product.id, product.name);
+      }
+      const movements = withStockAfter(saleStockMovements(sale), products);
+      commit({ ...data, products, sales: [...data.sales, sale], stockMovements: [...data.stockMovements, ...movements] });
+    },
+
+    async openCashDrawer(openingAmount, previousClosingCash, onDateISO) {
+      const day: CashDrawerDay = {
+        date: onDateISO,
+        openingCash: openingAmount,
+        closingCash: null,
+        previousClosingCash: previousClosingCash ?? 0,
+      };
+      commit({ ...data, cashDrawers: [...data.cashDrawers.filter(d => d.date !== onDateISO), day] });
+    },
+
+    async closeCashDrawer(closingCash, onDateISO, cashCount) {
+      commit({
+        ...data,
+        cashDrawers: data.cashDrawers.map(d => (d.date === onDateISO ? { ...d, closingCash, cashCount } : d)),
+      });
+    },
+
+    async recordWithdrawal(w, onDateISO) {
+      if (data.withdrawals.some(x => x.withdrawal.id === w.id)) return;
+      commit({ ...data, withdrawals: [...data.withdrawals, { date: onDateISO, withdrawal: w }] });
+    },
+
+    async recordRefund(refund) {
+      if (data.refunds.some(r => r.id === refund.id)) return;
+      const sale = data.sales.find(s => s.id === refund.saleId);
+      if (!sale) throw new RejectedWriteError(`Venda ${refund.saleId} não encontrada`);
+
+      // Mesma conferência do refund_sale: nada além do vendido menos o já estornado
+      const available = refundableQuantities(sale, data.refunds);
+      const requested = new Map<string, number>();
+      refund.items.forEach(item => requested.set(item.productId, (requested.get(item.productId) ?? 0) + item.quantity));
+      for (const [productId, quantity] of requested) {
+        if (quantity > (available[productId] ?? 0)) {
+          const name = refund.items.find(i => i.productId === productId)?.productName ?? productId;
+          throw new RejectedWriteError(
+            `Estorno maior que o restante da venda: ${name} (pedido ${quantity}, restam ${Math.max(0, available[productId] ?? 0)})`
+          );
+        }
+      }
+      const refunded = data.refunds.filter(r => r.saleId === sale.id).reduce((acc, r) => acc + r.amount, 0);
+      if (refund.amount + refunded > sale.total + 0.01) {
+        throw new RejectedWriteError(`Estorno de ${refund.amount.toFixed(2)} passa do valor restante da venda`);
+      }
+
+      const refunds = [...data.refunds, refund];
+      const returned = stockDemand(refund.items, data.products);
+      const products = data.products.map(p => (returned.has(p.id) ? { ...p, stock: p.stock + returned.get(p.id)! } : p));
+      const sales = data.sales.map(s =>
+        s.id === sale.id ? { ...s, status: saleStatusAfterRefunds(s, refunds) } : s
+      );
+      const movements = withStockAfter(refundStockMovements(refund), products);
+      commit({ ...data, products, sales, refunds, stockMovements: [...data.stockMovements, ...movements] });
+    },
+
+    async recordStockMovement(movement) {
+      if (data.stockMovements.some(m => m.id === movement.id)) return;
+      const product = data.products.find(p => p.id === movement.productId);
+      if (!product) throw new RejectedWriteError(`Produto ${movement.productId} não encontrado`);
+
+      // Inventário: a variação é calculada contra o estoque atual, não o que o terminal viu
+      const stockAfter = applyStockMovement(product.stock, movement);
+      if (stockAfter < 0) throw new InsufficientStockError(product.id, product.name);
+
+      const recorded: StockMovement = { ...movement, quantity: stockAfter - product.stock, stockAfter };
+      commit({
+        ...data,
+        products: data.products.map(p => (p.id === product.id ? { ...p, stock: stockAfter } : p)),
+        stockMovements: [...data.stockMovements, recorded],
+      });
+    },
+
+    async fetchStockMovements(productId) {
+      return data.stockMovements
+        .filter(m => m.productId === productId)
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    },
+
+    // Um único processo: não há outros terminais para escutar.
+    subscribeToChanges() {
+      return () => {};
+    },
+  };
+}
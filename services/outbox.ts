@@ -0,0 +1,253 @@
+import type { Product, Sale, Withdrawal, Refund, CashCount, StockMovement, Category } from '../types';
+import { repository } from './dataBackend';
+import { RejectedWriteError } from './repository';
+
+// ====== Fila persistente de gravações (outbox) ======
+// Toda escrita no backend de dados entra aqui primeiro. A fila é salva no localStorage,
+// processada em ordem (FIFO) e, se uma gravação falhar, as seguintes esperam
+// para não inverter a ordem das operações (ex.: abrir caixa antes da venda).
+// Gravações que o servidor recusa de vez (ex.: venda sem estoque, restrição violada)
+// saem da fila e ficam guardadas como rejeitadas, para conferência manual; assim
+// não travam as que vêm atrás.
+
+export type OutboxOperation =
+  | { kind: 'upsertProduct'; payload: Product }
+  | { kind: 'upsertProducts'; payload: Product[] }
+  | { kind: 'upsertCategory'; payload: Category }
+  | { kind: 'commitSale'; payload: Sale }
+  | { kind: 'openCashDrawer'; payload: { date: string; openingAmount: number; previousClosingCash: number } }
+  | { kind: 'closeCashDrawer'; payload: { date: string; closingCash: number; cashCount?: CashCount } }
+  | { kind: 'recordWithdrawal'; payload: { date: string; withdrawal: Withdrawal } }
+  | { kind: 'recordRefund'; payload: Refund }
+  | { kind: 'recordStockMovement'; payload: StockMovement };
+
+export interface OutboxEntry {
+  /** Chave de idempotência: identifica a gravação em todas as tentativas. */
+  id: string;
+  op: OutboxOperation;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+const STORAGE_KEY = 'pdv-outbox';
+const REJECTED_KEY = 'pdv-outbox-rejected';
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 60_000;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+function loadEntries(key: string): OutboxEntry[] {
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return [];
+    return JSON.parse(raw, (_k, v) => (typeof v === 'string' && ISO_DATE.test(v) ? new Date(v) : v));
+  } catch {
+    return [];
+  }
+}
+
+function saveEntries(key: string, entries: OutboxEntry[]) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(entries));
+  } catch {
+    /* ignore quota errors */
+  }
+}
+
+let queue: OutboxEntry[] = loadEntries(STORAGE_KEY);
+let rejected: OutboxEntry[] = loadEntries(REJECTED_KEY);
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(pending: number, rejected: number) => void>();
+const rejectionListeners = new Set<(entry: OutboxEntry) => void>();
+
+function saveQueue() {
+  saveEntries(STORAGE_KEY, queue);
+}
+
+function saveRejected() {
+  saveEntries(REJECTED_KEY, rejected);
+}
+
+function notify() {
+  listeners.forEach(fn => fn(queue.length, rejected.length));
+}
+
+/** Recusa pelos dados da gravação: tentar de novo daria o mesmo erro. */
+function isPermanentFailure(e: unknown) {
+  return e instanceof RejectedWriteError;
+}
+
+function backoff(attempts: number) {
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+}
+
+async function execute(op: OutboxOperation) {
+  switch (op.kind) {
+    case 'upsertProduct':
+      return repository.upsertProduct(op.payload);
+    case 'upsertProducts':
+      return repository.upsertProducts(op.payload);
+    case 'upsertCategory':
+      return repository.upsertCategory(op.payload);
+    case 'commitSale':
+      return repository.commitSale(op.payload);
+    case 'openCashDrawer':
+      return repository.openCashDrawer(op.payload.openingAmount, op.payload.previousClosingCash, op.payload.date);
+    case 'closeCashDrawer':
+      return repository.closeCashDrawer(op.payload.closingCash, op.payload.date, op.payload.cashCount);
+    case 'recordWithdrawal':
+      return repository.recordWithdrawal(op.payload.withdrawal, op.payload.date);
+    case 'recordRefund':
+      return repository.recordRefund(op.payload);
+    case 'recordStockMovement':
+      return repository.recordStockMovement(op.payload);
+  }
+}
+
+function scheduleRetry() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (!queue.length) return;
+  const delay = Math.max(0, queue[0].nextAttemptAt - Date.now());
+  retryTimer = setTimeout(() => void flushOutbox(), delay);
+}
+
+/** Envia as gravações pendentes, na ordem em que foram enfileiradas. */
+export async function flushOutbox(): Promise<void> {
+  if (flushing) return;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+  flushing = true;
+  try {
+    while (queue.length) {
+      const entry = queue[0];
+      if (entry.nextAttemptAt > Date.now()) break;
+      try {
+        await execute(entry.op);
+        queue = queue.slice(1);
+        saveQueue();
+        notify();
+      } catch (e) {
+        if (isPermanentFailure(e)) {
+          console.error(`Gravação (${entry.op.kind}) recusada pelo servidor:`, e);
+          entry.lastError = e instanceof Error ? e.message : String(e);
+          queue = queue.slice(1);
+          rejected = [...rejected, entry];
+          saveQueue();
+          saveRejected();
+          notify();
+          rejectionListeners.forEach(fn => fn(entry));
+          continue;
+        }
+        entry.attempts += 1;
+        entry.nextAttemptAt = Date.now() + backoff(entry.attempts);
+        entry.lastError = e instanceof Error ? e.message : String(e);
+        saveQueue();
+        console.warn(`Gravação pendente (${entry.op.kind}) falhou, nova tentativa em breve:`, e);
+        break;
+      }
+    }
+  } finally {
+    flushing = false;
+    scheduleRetry();
+  }
+}
+
+/** Enfileira uma gravação e tenta enviá-la imediatamente. */
+export function enqueueWrite(op: OutboxOperation, idempotencyKey?: string): OutboxEntry {
+  const entry: OutboxEntry = {
+    id: idempotencyKey ?? crypto?.randomUUID?.() ?? `ob-${Date.now()}-${queue.length}`,
+    op,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+  queue = [...queue, entry];
+  saveQueue();
+  notify();
+  void flushOutbox();
+  return entry;
+}
+
+/**
+ * Grava na hora quando a fila está vazia e há conexão, repassando a quem chamou
+ * uma recusa definitiva do servidor (RejectedWriteError, ex.: estoque insuficiente). Qualquer outra
+ * falha, ou fila com pendências, faz a gravação cair na fila normalmente.
+ */
+export async function writeNow(op: OutboxOperation, idempotencyKey?: string): Promise<void> {
+  const online = typeof navigator === 'undefined' || navigator.onLine !== false;
+  if (!online || queue.length > 0) {
+    enqueueWrite(op, idempotencyKey);
+    return;
+  }
+  try {
+    await execute(op);
+  } catch (e) {
+    if (isPermanentFailure(e)) throw e;
+    console.warn(`Falha ao gravar (${op.kind}), seguindo pela fila:`, e);
+    enqueueWrite(op, idempotencyKey);
+  }
+}
+
+export function getPendingCount(): number {
+  return queue.length;
+}
+
+export function getRejectedEntries(): OutboxEntry[] {
+  return rejected;
+}
+
+/** Devolve uma gravação recusada para o fim da fila (ex.: depois de repor o estoque). */
+export function retryRejected(id: string): void {
+  const entry = rejected.find(e => e.id === id);
+  if (!entry) return;
+  rejected = rejected.filter(e => e !== entry);
+  queue = [...queue, { ...entry, attempts: 0, nextAttemptAt: 0 }];
+  saveRejected();
+  saveQueue();
+  notify();
+  void flushOutbox();
+}
+
+/** Descarta de vez uma gravação recusada. */
+export function discardRejected(id: string): void {
+  rejected = rejected.filter(e => e.id !== id);
+  saveRejected();
+  notify();
+}
+
+export function subscribeOutbox(listener: (pending: number, rejected: number) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Avisa cada gravação que o servidor recusa, para quem a aplicou localmente desfazer. */
+export function subscribeRejections(listener: (entry: OutboxEntry) => void): () => void {
+  rejectionListeners.add(listener);
+  return () => {
+    rejectionListeners.delete(listener);
+  };
+}
+
+/**
+ * Liga o processamento automático: tenta de novo quando a conexão volta
+ * e retoma o que ficou pendente da sessão anterior.
+ */
+export function startOutbox(): () => void {
+  const handleOnline = () => {
+    // Conexão voltou: não precisa esperar o backoff acumulado.
+    queue.forEach(entry => { entry.nextAttemptAt = 0; });
+    void flushOutbox();
+  };
+  window.addEventListener('online', handleOnline);
+  void flushOutbox();
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
@@ -0,0 +1,19 @@
+// ====== Ponte local da impressora térmica ======
+// O navegador não fala direto com a impressora USB/serial/rede. Um serviço
+// pequeno rodando no computador do caixa recebe os bytes ESC/POS por HTTP
+// (POST com o corpo bruto) e os repassa para a impressora.
+
+/** Envia o cupom já em ESC/POS para a ponte configurada. */
+export async function sendToPrinterBridge(url: string, bytes: Uint8Array): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: bytes,
+    });
+  } catch {
+    throw new Error('Não foi possível falar com a impressora. A ponte está rodando neste computador?');
+  }
+  if (!response.ok) throw new Error(`A impressora recusou o cupom (HTTP ${response.status}).`);
+}
@@ -0,0 +1,166 @@
+import type { Product, Sale, CashDrawer, HistoricalReport, Withdrawal, Refund, CashCount, StockMovement, Category } from '../types';
+import type { DayRange } from '../lib/periods';
+import type { ReportTotals } from '../lib/reports';
+
+// ====== Contrato comum dos backends de dados ======
+// A app só conversa com esta interface. Implementações: Supabase
+// (supabaseRepo), persistência no navegador (localRepo) e memória (memoryRepo).
+
+export interface InitialData {
+  products: Product[];
+  categories: Category[];
+  sales: Sale[];
+  refunds: Refund[];
+  cashDrawer: Partial<CashDrawer>;
+  historicalReports: Record<string, HistoricalReport>;
+}
+
+/** Movimento de um intervalo de dias (carregado sob demanda pelos relatórios). */
+export interface HistoryData {
+  sales: Sale[];
+  refunds: Refund[];
+  historicalReports: Record<string, HistoricalReport>;
+}
+
+/** Registro de caixa de um dia (um por data). */
+export interface CashDrawerDay {
+  date: string;
+  openingCash: number;
+  closingCash: number | null;
+  previousClosingCash: number;
+  /** Contagem feita no fechamento (dias antigos podem não ter). */
+  cashCount?: CashCount;
+}
+
+export interface RealtimeHandlers {
+  onProduct: (product: Product) => void;
+  onProductDeleted: (id: string) => void;
+  onCategory: (category: Category) => void;
+  /** Venda nova ou alterada (ex.: status após estorno). */
+  onSale: (sale: Sale) => void;
+  onRefund: (refund: Refund) => void;
+  onCashDrawer: (day: CashDrawerDay) => void;
+  onWithdrawal: (date: string, withdrawal: Withdrawal) => void;
+}
+
+export interface DataRepository {
+  /** Cadastro completo e o movimento de hoje e dos últimos RECENT_DAYS dias. */
+  fetchInitialData(): Promise<InitialData>;
+  /** Vendas, estornos, caixas e sangrias dos dias de operação do intervalo (inclusive). */
+  fetchHistory(range: DayRange): Promise<HistoryData>;
+  /** Totais por dia e por produto do intervalo, agregados no backend (dia de operação atual). */
+  fetchReportTotals(range: DayRange): Promise<ReportTotals>;
+  /** Grava cadastro (nome, preço, categoria, arquivado). O estoque só muda por movimentos. */
+  upsertProduct(p: Product): Promise<void>;
+  upsertProducts(list: Product[]): Promise<void>;
+  /** Cria ou altera uma categoria (nome, cor, ordem, ativa). */
+  upsertCategory(category: Category): Promise<void>;
+  /** Venda, itens e baixa de estoque de uma vez; recusa com InsufficientStockError. */
+  commitSale(sale: Sale): Promise<void>;
+  openCashDrawer(openingAmount: number, previousClosingCash: number, onDateISO: string): Promise<void>;
+  /** `closingCash` é o valor contado quando há `cashCount`. */
+  closeCashDrawer(closingCash: number, onDateISO: string, cashCount?: CashCount): Promise<void>;
+  recordWithdrawal(w: Withdrawal, onDateISO: string): Promise<void>;
+  /** Estorno, devolução de estoque e status da venda de uma vez. */
+  recordRefund(refund: Refund): Promise<void>;
+  /** Movimento manual de estoque; recusa com InsufficientStockError se deixar o estoque negativo. */
+  recordStockMovement(movement: StockMovement): Promise<void>;
+  /** Histórico de movimentos do produto, do mais recente para o mais antigo. */
+  fetchStockMovements(productId: string): Promise<StockMovement[]>;
+  /** Escuta alterações feitas por outros terminais. Retorna a função que cancela. */
+  subscribeToChanges(handlers: RealtimeHandlers): () => void;
+}
+
+/**
+ * Lançado quando o backend recusa a gravação pelos próprios dados (regra de
+ * negócio, restrição do banco, valor inválido): reenviar a mesma gravação não adianta.
+ */
+export class RejectedWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectedWriteError';
+  }
+}
+
+/** Lançado quando o backend recusa a venda (ou a saída de estoque) por falta de estoque. */
+export class InsufficientStockError extends RejectedWriteError {
+  productId: string;
+
+  constructor(productId: string, productName?: string) {
+    super(`Estoque insuficiente para "${productName || productId}".`);
+    this.name = 'InsufficientStockError';
+    this.productId = productId;
+  }
+}
+
+/**
+ * Dias anteriores a hoje carregados na inicialização (e guardados no navegador).
+ * Datas mais antigas são buscadas com `fetchHistory` quando um relatório pede.
+ */
+export const RECENT_DAYS = 14;
+
+/** Linhas de um intervalo, como saem de qualquer backend. */
+export interface HistoryRows {
+  sales: Sale[];
+  refunds: Refund[];
+  drawers: CashDrawerDay[];
+  withdrawals: { date: string; withdrawal: Withdrawal }[];
+}
+
+/** Histórico por dia (caixas + sangrias) a partir das linhas carregadas, igual para todos os backends. */
+export function assembleHistory(rows: HistoryRows): HistoryData {
+  return { sales: rows.sales, refunds: rows.refunds, historicalReports: assembleReports(rows) };
+}
+
+function assembleReports(input: Pick<HistoryRows, 'drawers' | 'withdrawals'>): Record<string, HistoricalReport> {
+  const reports: Record<string, HistoricalReport> = {};
+
+  input.drawers.forEach(day => {
+    reports[day.date] = {
+      openingCash: day.openingCash,
+      closingCash: day.closingCash ?? 0,
+      date: day.date,
+      withdrawals: [],
+      ...(day.cashCount ? { cashCount: day.cashCount } : {}),
+    };
+  });
+
+  input.withdrawals.forEach(({ date, withdrawal }) => {
+    if (!reports[date]) reports[date] = { openingCash: 0, closingCash: 0, date, withdrawals: [] };
+    reports[date].withdrawals.push(withdrawal);
+  });
+
+  return reports;
+}
+
+/**
+ * Monta o estado inicial (histórico recente e caixa de hoje) a partir das
+ * linhas carregadas. `lastClosed` é o último caixa fechado antes da janela,
+ * usado quando nenhum dia recente foi fechado.
+ */
+export function assembleInitialData(input: HistoryRows & {
+  products: Product[];
+  categories: Category[];
+  today: string;
+  lastClosed?: CashDrawerDay | null;
+}): InitialData {
+  const reports = assembleReports(input);
+
+  // O último caixa iniciado continua aberto enquanto não tiver valor de fechamento,
+  // mesmo que a virada do dia já tenha passado
+  const drawers = input.drawers.filter(d => d.date <= input.today).sort((a, b) => a.date.localeCompare(b.date));
+  const latest = drawers[drawers.length - 1];
+  const lastClosed = drawers.filter(d => d.closingCash !== null).slice(-1)[0] ?? input.lastClosed;
+  const cashDrawer: Partial<CashDrawer> = latest && latest.closingCash === null
+    ? { isOpen: true, openingCash: latest.openingCash, previousClosingCash: latest.previousClosingCash, date: latest.date }
+    : { isOpen: false, openingCash: 0, previousClosingCash: lastClosed?.closingCash ?? 0 };
+
+  return {
+    products: input.products,
+    categories: input.categories,
+    sales: input.sales,
+    refunds: input.refunds,
+    cashDrawer,
+    historicalReports: reports,
+  };
+}
@@ -1,160 +1,594 @@
-import { supabase } from '../lib/supabaseClient';
-import type { Product, Sale, PaymentMethod, CashDrawer, HistoricalReport, Withdrawal } from '../types';
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { getSupabase } from '../lib/supabaseClient';
+import type { Product, Sale, PaymentMethod, Withdrawal, Refund, CashCount, StockMovement, Category, SaleItemComponent } from '../types';
+import { getSalePayments } from '../lib/payments';
+import { addDays, businessDayOf, getBusinessDaySettings, instantsCovering, todayBusinessDay } from '../lib/businessDay';
+import { rankProductTotals, type DaySummary, type ReportTotals } from '../lib/reports';
+import { isInRange, type DayRange } from '../lib/periods';
+import {
+  assembleHistory,
+  assembleInitialData,
+  InsufficientStockError,
+  RECENT_DAYS,
+  RejectedWriteError,
+  type CashDrawerDay,
+  type DataRepository,
+  type HistoryData,
+  type HistoryRows,
+  type InitialData,
+  type RealtimeHandlers,
+} from './repository';
 
-const todayStr = () => new Date().toISOString().split('T')[0];
 
-// ====== LOAD (Bootstrap) ======
-export async function fetchInitialData(): Promise<{
-  products: Product[];
-  sales: Sale[];
-  cashDrawer: Partial<CashDrawer>;
-  historicalReports: Record<string, HistoricalReport>;
-}> {
-  // Produtos
-  const { data: prodData, error: prodErr } = await supabase
-    .from('products')
-    .select('id,name,stock,price,category,active')
-    .order('name', { ascending: true });
-  if (prodErr) throw new Error('Erro ao carregar produtos: ' + prodErr.message);
+const SALE_COLUMNS = 'id,subtotal,discount_type,discount_value,discount_amount,total,payment_method,timestamp,cash_tendered,change_due,status,operator,sale_items(id,product_id,product_name,quantity,price_per_item,cost_per_item,components),sale_payments(id,method,amount)';
 
-  const products: Product[] = (prodData || []).map(p => ({
+const REFUND_COLUMNS = 'id,sale_id,amount,cash_amount,reason,operator,ts,refund_items(id,product_id,product_name,quantity,price_per_item,cost_per_item,components)';
+
+function requireClient(): SupabaseClient {
+  const client = getSupabase();
+  if (!client) throw new Error('Supabase não configurado (VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY).');
+  return client;
+}
+
+// ====== MAPEAMENTO (linhas do banco -> tipos da app) ======
+function mapProduct(p: any): Product {
+  return {
     id: p.id,
     name: p.name,
     stock: Number(p.stock || 0),
     price: Number(p.price || 0),
-    category: (p.category as any) ?? 'Alimentos',
-  }));
+    costPrice: p.cost_price !== null && p.cost_price !== undefined ? Number(p.cost_price) : undefined,
+    category: p.category ?? 'Alimentos',
+    barcode: p.barcode ?? undefined,
+    minStock: Number(p.min_stock || 0),
+    reorderQuantity: Number(p.reorder_quantity || 0),
+    active: p.active !== false,
+    components: Array.isArray(p.components) && p.components.length
+      ? p.components.map((c: any) => ({ productId: c.product_id, quantity: Number(c.quantity) }))
+      : undefined,
+  };
+}
 
-  // Vendas + itens (últimos 60 dias)
-  const since = new Date();
-  since.setDate(since.getDate() - 60);
+function mapCategory(c: any): Category {
+  return {
+    id: c.id,
+    name: c.name,
+    color: c.color || '#6366f1',
+    sortOrder: Number(c.sort_order || 0),
+    active: c.active !== false,
+  };
+}
 
-  const { data: salesData, error: salesErr } = await supabase
-    .from('sales')
-    .select('id,subtotal,discount_type,discount_value,discount_amount,total,payment_method,timestamp,sale_items(id,product_id,product_name,quantity,price_per_item)')
-    .gte('timestamp', since.toISOString())
-    .order('timestamp', { ascending: true });
-  if (salesErr) throw new Error('Erro ao carregar vendas: ' + salesErr.message);
+function mapItemComponents(components: any): SaleItemComponent[] | undefined {
+  if (!Array.isArray(components) || !components.length) return undefined;
+  return components.map((c: any) => ({
+    productId: c.product_id,
+    productName: c.product_name,
+    quantity: Number(c.quantity),
+    pricePerItem: Number(c.price_per_item || 0),
+    costPerItem: c.cost_per_item !== null && c.cost_per_item !== undefined ? Number(c.cost_per_item) : undefined,
+  }));
+}
 
-  const sales: Sale[] = (salesData || []).map((s: any) => ({
+function mapSale(s: any): Sale {
+  return {
     id: s.id,
     items: (s.sale_items || []).map((it: any) => ({
       productId: it.product_id,
       productName: it.product_name,
       quantity: Number(it.quantity),
       pricePerItem: Number(it.price_per_item),
+      costPerItem: it.cost_per_item !== null && it.cost_per_item !== undefined ? Number(it.cost_per_item) : undefined,
+      components: mapItemComponents(it.components),
     })),
     subtotal: Number(s.subtotal),
     discountType: s.discount_type ?? undefined,
     discountValue: s.discount_value !== null ? Number(s.discount_value) : undefined,
     discountAmount: Number(s.discount_amount || 0),
     total: Number(s.total),
-    paymentMethod: s.payment_method as PaymentMethod,
+    // Vendas sem linhas em sale_payments (anteriores ao pagamento dividido) usam payment_method
+    payments: (s.sale_payments || []).length
+      ? s.sale_payments.map((p: any) => ({ method: p.method as PaymentMethod, amount: Number(p.amount) }))
+      : [{ method: s.payment_method as PaymentMethod, amount: Number(s.total) }],
+    cashTendered: s.cash_tendered !== null && s.cash_tendered !== undefined ? Number(s.cash_tendered) : undefined,
+    changeDue: s.change_due !== null && s.change_due !== undefined ? Number(s.change_due) : undefined,
+    status: s.status ?? undefined,
+    operator: s.operator ?? undefined,
     timestamp: new Date(s.timestamp),
-  }));
+  };
+}
+
+function mapRefund(r: any): Refund {
+  return {
+    id: r.id,
+    saleId: r.sale_id,
+    items: (r.refund_items || []).map((it: any) => ({
+      productId: it.product_id,
+      productName: it.product_name,
+      quantity: Number(it.quantity),
+      pricePerItem: Number(it.price_per_item),
+      costPerItem: it.cost_per_item !== null && it.cost_per_item !== undefined ? Number(it.cost_per_item) : undefined,
+      components: mapItemComponents(it.components),
+    })),
+    amount: Number(r.amount),
+    cashAmount: Number(r.cash_amount || 0),
+    reason: r.reason || '',
+    operator: r.operator ?? undefined,
+    timestamp: new Date(r.ts),
+  };
+}
+
+function mapStockMovement(m: any): StockMovement {
+  return {
+    id: m.id,
+    productId: m.product_id,
+    type: m.type,
+    quantity: Number(m.quantity),
+    countedStock: m.counted_stock !== null && m.counted_stock !== undefined ? Number(m.counted_stock) : undefined,
+    stockAfter: m.stock_after !== null && m.stock_after !== undefined ? Number(m.stock_after) : undefined,
+    reason: m.reason || '',
+    operator: m.operator || '',
+    referenceId: m.reference_id ?? undefined,
+    timestamp: new Date(m.ts),
+  };
+}
+
+function mapWithdrawal(w: any): Withdrawal {
+  return {
+    id: w.id,
+    amount: Number(w.amount),
+    reason: w.reason || '',
+    timestamp: new Date(w.ts),
+  };
+}
+
+function mapCashDrawer(row: any): CashDrawerDay {
+  return {
+    date: row.date,
+    openingCash: Number(row.opening_cash || 0),
+    closingCash: row.closing_cash !== null && row.closing_cash !== undefined ? Number(row.closing_cash) : null,
+    previousClosingCash: Number(row.previous_closing_cash || 0),
+    ...(row.counted_cash !== null && row.counted_cash !== undefined
+      ? {
+          cashCount: {
+            expectedCash: Number(row.expected_cash || 0),
+            countedCash: Number(row.counted_cash),
+            difference: Number(row.cash_difference || 0),
+            denominations: row.denomination_counts || {},
+          },
+        }
+      : {}),
+  };
+}
+
+// ====== LOAD (Bootstrap) ======
+/** Limite de linhas por resposta do PostgREST (padrão do Supabase). */
+const PAGE_SIZE = 1000;
+
+/** Repete a consulta página a página até vir uma incompleta (períodos longos passam do limite). */
+async function selectAllPages(
+  page: (first: number, last: number) => PromiseLike<{ data: any[] | null; error: { message: string } | null }>
+): Promise<{ data: any[]; error: { message: string } | null }> {
+  const rows: any[] = [];
+  for (let first = 0; ; first += PAGE_SIZE) {
+    const { data, error } = await page(first, first + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
 
-  // Caixa de hoje
-  const { data: cd, error: cdErr } = await supabase
-    .from('cash_drawers').select('*').eq('date', todayStr()).maybeSingle();
-  if (cdErr) throw new Error('Erro ao carregar caixa do dia: ' + cdErr.message);
+async function fetchInitialData(): Promise<InitialData> {
+  const supabase = requireClient();
 
-  // Sangrias (últimos 60 dias)
+  // Produtos
+  const { data: prodData, error: prodErr } = await supabase
+    .from('products')
+    .select('id,name,stock,price,cost_price,category,barcode,min_stock,reorder_quantity,active,components')
+    .order('name', { ascending: true });
+  if (prodErr) throw new Error('Erro ao carregar produtos: ' + prodErr.message);
+
+  const products: Product[] = (prodData || []).map(mapProduct);
+
+  // Categorias
+  const { data: catData, error: catErr } = await supabase
+    .from('categories')
+    .select('id,name,color,sort_order,active')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+  if (catErr) throw new Error('Erro ao carregar categorias: ' + catErr.message);
+
+  const today = todayBusinessDay();
+  const from = addDays(today, -RECENT_DAYS);
+  const rows = await fetchHistoryRows({ from, to: today });
+
+  // Último caixa fechado antes da janela (saldo anterior quando não houve fechamento recente)
+  const { data: lastClosed, error: lastErr } = await supabase
+    .from('cash_drawers').select('*')
+    .lt('date', from)
+    .not('closing_cash', 'is', null)
+    .order('date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastErr) throw new Error('Erro ao carregar caixas: ' + lastErr.message);
+
+  return assembleInitialData({
+    products,
+    categories: (catData || []).map(mapCategory),
+    ...rows,
+    today,
+    lastClosed: lastClosed ? mapCashDrawer(lastClosed) : null,
+  });
+}
+
+/** Vendas, estornos, sangrias e caixas dos dias de operação do intervalo. */
+async function fetchHistoryRows(range: DayRange): Promise<HistoryRows> {
+  const supabase = requireClient();
+  // `timestamp`/`ts` são instantes: busca com folga e corta pelo dia de operação
+  const { start, end } = instantsCovering(range.from, range.to);
+  const inRange = (r: { timestamp: Date }) => isInRange(businessDayOf(r.timestamp), range);
+
+  // Vendas + itens
+  const { data: salesData, error: salesErr } = await selectAllPages((first, last) => supabase
+    .from('sales')
+    .select(SALE_COLUMNS)
+    .gte('timestamp', start)
+    .lt('timestamp', end)
+    .order('timestamp', { ascending: true })
+    .order('id', { ascending: true })
+    .range(first, last));
+  if (salesErr) throw new Error('Erro ao carregar vendas: ' + salesErr.message);
+
+  // Estornos
+  const { data: refundsData, error: refundsErr } = await selectAllPages((first, last) => supabase
+    .from('refunds')
+    .select(REFUND_COLUMNS)
+    .gte('ts', start)
+    .lt('ts', end)
+    .order('ts', { ascending: true })
+    .order('id', { ascending: true })
+    .range(first, last));
+  if (refundsErr) throw new Error('Erro ao carregar estornos: ' + refundsErr.message);
+
+  // Sangrias
   const { data: wds, error: wdErr } = await supabase
     .from('withdrawals').select('*')
-    .gte('date', since.toISOString().slice(0,10))
+    .gte('date', range.from)
+    .lte('date', range.to)
     .order('ts', { ascending: true });
   if (wdErr) throw new Error('Erro ao carregar sangrias: ' + wdErr.message);
 
-  // Monta histórico por dia a partir de cash_drawers e withdrawals
-  const reports: Record<string, HistoricalReport> = {};
-  const { data: cds } = await supabase
+  // Caixas
+  const { data: cds, error: cdErr } = await supabase
     .from('cash_drawers').select('*')
-    .gte('date', since.toISOString().slice(0,10))
+    .gte('date', range.from)
+    .lte('date', range.to)
     .order('date', { ascending: true });
+  if (cdErr) throw new Error('Erro ao carregar caixas: ' + cdErr.message);
 
-  (cds || []).forEach((row: any) => {
-    reports[row.date] = {
-      openingCash: Number(row.opening_cash || 0),
-      closingCash: row.closing_cash !== null ? Number(row.closing_cash) : 0,
-      date: row.date,
-      withdrawals: [],
-    };
-  });
+  return {
+    sales: (salesData || []).map(mapSale).filter(inRange),
+    refunds: (refundsData || []).map(mapRefund).filter(inRange),
+    drawers: (cds || []).map(mapCashDrawer),
+    withdrawals: (wds || []).map((w: any) => ({ date: w.date, withdrawal: mapWithdrawal(w) })),
+  };
+}
 
-  (wds || []).forEach((w: any) => {
-    const d = w.date;
-    if (!reports[d]) reports[d] = { openingCash: 0, closingCash: 0, date: d, withdrawals: [] };
-    reports[d].withdrawals.push({
-      id: w.id,
-      amount: Number(w.amount),
-      reason: w.reason || '',
-      timestamp: new Date(w.ts),
-    });
-  });
+async function fetchHistory(range: DayRange): Promise<HistoryData> {
+  return assembleHistory(await fetchHistoryRows(range));
+}
+
+// ====== RELATÓRIOS (agregados no banco) ======
+function mapDaySummary(d: any): DaySummary {
+  const cashSales = Number(d.cash_sales || 0);
+  const totalWithdrawals = Number(d.total_withdrawals || 0);
+  return {
+    date: d.day,
+    salesCount: Number(d.sales_count || 0),
+    totalSales: Number(d.total_sales || 0),
+    cashSales,
+    pixSales: Number(d.pix_sales || 0),
+    totalDiscounts: Number(d.total_discounts || 0),
+    totalRefunds: Number(d.total_refunds || 0),
+    cashRefunds: Number(d.cash_refunds || 0),
+    totalWithdrawals,
+    netCash: cashSales - totalWithdrawals,
+  };
+}
 
-  const cashDrawer: Partial<CashDrawer> = cd
-    ? { isOpen: true, openingCash: Number(cd.opening_cash || 0), previousClosingCash: Number(cd.previous_closing_cash || 0) }
-    : { isOpen: false, openingCash: 0, previousClosingCash: Number((cds || []).slice(-1)[0]?.closing_cash || 0) };
+/** Mesmos números de `reportTotals` (lib/reports), sem trazer as vendas do período. */
+async function fetchReportTotals(range: DayRange): Promise<ReportTotals> {
+  const supabase = requireClient();
+  const { timeZone, cutoffHour } = getBusinessDaySettings();
+  const params = { p_from: range.from, p_to: range.to, p_time_zone: timeZone, p_cutoff_hour: cutoffHour };
 
-  return { products, sales, cashDrawer, historicalReports: reports };
+  const [days, products] = await Promise.all([
+    supabase.rpc('report_daily_totals', params),
+    supabase.rpc('report_product_totals', params),
+  ]);
+  if (days.error) throw new Error('Erro ao carregar totais por dia: ' + days.error.message);
+  if (products.error) throw new Error('Erro ao carregar totais por produto: ' + products.error.message);
+
+  return {
+    days: ((days.data as any[]) || []).map(mapDaySummary),
+    products: rankProductTotals(((products.data as any[]) || []).map(p => ({
+      key: p.key,
+      productName: p.product_name,
+      quantity: Number(p.quantity || 0),
+      revenue: Number(p.revenue || 0),
+    }))),
+  };
 }
 
 // ====== AÇÕES ======
-export async function upsertProduct(p: Product) {
-  const { error } = await supabase.from('products').upsert({
-    id: p.id, name: p.name, stock: p.stock, price: p.price,
-    category: p.category, active: true, updated_at: new Date().toISOString(),
+/**
+ * Erro de uma gravação. Recusas pelos dados — exceção das funções (P0001),
+ * valor inválido (22xxx), restrição violada (23xxx) ou outra requisição 4xx —
+ * viram RejectedWriteError; rede, 5xx e sessão expirada podem passar numa nova tentativa.
+ */
+function writeError(context: string, error: PostgrestError, status: number): Error {
+  const stock = /INSUFFICIENT_STOCK:(.+)/.exec(error.message);
+  if (stock) return new InsufficientStockError(stock[1], error.hint || undefined);
+  const code = error.code ?? '';
+  const rejected = code === 'P0001' || code.startsWith('22') || code.startsWith('23')
+    || (status >= 400 && status < 500 && ![401, 403, 408, 429].includes(status));
+  const message = `${context}: ${error.message}`;
+  return rejected ? new RejectedWriteError(message) : new Error(message);
+}
+
+// O cadastro não envia `stock`: produto novo nasce com 0 e o estoque só muda
+// por movimentos (record_stock_movement, commit_sale, refund_sale).
+async function upsertProduct(p: Product) {
+  const supabase = requireClient();
+  const { error, status } = await supabase.from('products').upsert({
+    id: p.id, name: p.name, price: p.price, cost_price: p.costPrice ?? null, category: p.category, barcode: p.barcode || null,
+    min_stock: p.minStock ?? 0, reorder_quantity: p.reorderQuantity ?? 0,
+    active: p.active !== false,
+    components: p.components?.length ? p.components.map(c => ({ product_id: c.productId, quantity: c.quantity })) : null,
+    updated_at: new Date().toISOString(),
   });
-  if (error) throw new Error('Erro ao salvar produto: ' + error.message);
+  if (error) throw writeError('Erro ao salvar produto', error, status);
 }
 
-export async function upsertProducts(list: Product[]) {
+async function upsertProducts(list: Product[]) {
   if (!list?.length) return;
-  const rows = list.map(p => ({ id: p.id, name: p.name, stock: p.stock, price: p.price, category: p.category, active: true, updated_at: new Date().toISOString() }));
-  const { error } = await supabase.from('products').upsert(rows);
-  if (error) throw new Error('Erro ao salvar produtos: ' + error.message);
-}
-
-export async function recordSale(sale: Sale) {
-  const { error: e1 } = await supabase.from('sales').insert({
-    id: sale.id,
-    subtotal: sale.subtotal,
-    discount_type: sale.discountType ?? null,
-    discount_value: sale.discountValue ?? null,
-    discount_amount: sale.discountAmount,
-    total: sale.total,
-    payment_method: sale.paymentMethod,
-    timestamp: sale.timestamp.toISOString(),
+  const supabase = requireClient();
+  const rows = list.map(p => ({
+    id: p.id, name: p.name, price: p.price, cost_price: p.costPrice ?? null, category: p.category, barcode: p.barcode || null,
+    min_stock: p.minStock ?? 0, reorder_quantity: p.reorderQuantity ?? 0,
+    active: p.active !== false,
+    components: p.components?.length ? p.components.map(c => ({ product_id: c.productId, quantity: c.quantity })) : null,
+    updated_at: new Date().toISOString(),
+  }));
+  const { error, status } = await supabase.from('products').upsert(rows);
+  if (error) throw writeError('Erro ao salvar produtos', error, status);
+}
+
+async function upsertCategory(c: Category) {
+  const supabase = requireClient();
+  const { error, status } = await supabase.from('categories').upsert({
+    id: c.id, name: c.name, color: c.color, sort_order: c.sortOrder, active: c.active,
+    updated_at: new Date().toISOString(),
   });
-  if (e1) throw new Error('Erro ao salvar venda: ' + e1.message);
-
-  const items = sale.items.map((it, idx) => ({
-    id: `${sale.id}-i${idx}`,
-    sale_id: sale.id,
-    product_id: it.productId || null,
-    product_name: it.productName,
-    quantity: it.quantity,
-    price_per_item: it.pricePerItem,
+  if (error) throw writeError('Erro ao salvar categoria', error, status);
+}
+
+// Inserções usam upsert com ignoreDuplicates: a mesma gravação pode ser
+// reenviada pela fila (outbox) sem duplicar linhas.
+
+/** Composição congelada de um kit vendido/estornado (coluna jsonb `components`). */
+function itemComponentsRow(components?: SaleItemComponent[]) {
+  if (!components?.length) return null;
+  return components.map(c => ({
+    product_id: c.productId,
+    product_name: c.productName,
+    quantity: c.quantity,
+    price_per_item: c.pricePerItem,
+    cost_per_item: c.costPerItem ?? null,
   }));
-  const { error: e2 } = await supabase.from('sale_items').insert(items);
-  if (e2) throw new Error('Erro ao salvar itens da venda: ' + e2.message);
 }
 
-export async function openCashDrawer(openingAmount: number, previousClosingCash: number) {
-  const { error } = await supabase.from('cash_drawers').upsert({
-    date: todayStr(), opening_cash: openingAmount, previous_closing_cash: previousClosingCash ?? 0,
+/**
+ * Venda, itens e baixa de estoque em uma única transação (RPC `commit_sale`).
+ * O estoque é decrementado a partir do valor atual no banco, não do que este
+ * navegador viu por último.
+ */
+async function commitSale(sale: Sale) {
+  const supabase = requireClient();
+  const payments = getSalePayments(sale);
+  const { error, status } = await supabase.rpc('commit_sale', {
+    p_sale: {
+      id: sale.id,
+      subtotal: sale.subtotal,
+      discount_type: sale.discountType ?? null,
+      discount_value: sale.discountValue ?? null,
+      discount_amount: sale.discountAmount,
+      total: sale.total,
+      payment_method: payments.length === 1 ? payments[0].method : 'Split',
+      timestamp: sale.timestamp.toISOString(),
+      cash_tendered: sale.cashTendered ?? null,
+      change_due: sale.changeDue ?? null,
+      operator: sale.operator ?? null,
+    },
+    p_items: sale.items.map((it, idx) => ({
+      id: `${sale.id}-i${idx}`,
+      product_id: it.productId || null,
+      product_name: it.productName,
+      quantity: it.quantity,
+      price_per_item: it.pricePerItem,
+      cost_per_item: it.costPerItem ?? null,
+      components: itemComponentsRow(it.components),
+    })),
+    p_payments: payments.map((p, idx) => ({
+      id: `${sale.id}-p${idx}`,
+      method: p.method,
+      amount: p.amount,
+    })),
+  });
+  if (error) throw writeError('Erro ao salvar venda', error, status);
+}
+
+async function openCashDrawer(openingAmount: number, previousClosingCash: number, onDateISO: string) {
+  const supabase = requireClient();
+  const { error, status } = await supabase.from('cash_drawers').upsert({
+    date: onDateISO, opening_cash: openingAmount, previous_closing_cash: previousClosingCash ?? 0,
   });
-  if (error) throw new Error('Erro ao abrir caixa: ' + error.message);
+  if (error) throw writeError('Erro ao abrir caixa', error, status);
 }
 
-export async function closeCashDrawer(closingCash: number) {
-  const { error } = await supabase.from('cash_drawers').update({ closing_cash: closingCash }).eq('date', todayStr());
-  if (error) throw new Error('Erro ao fechar caixa: ' + error.message);
+async function closeCashDrawer(closingCash: number, onDateISO: string, cashCount?: CashCount) {
+  const supabase = requireClient();
+  const { error, status } = await supabase.from('cash_drawers').update({
+    closing_cash: closingCash,
+    ...(cashCount
+      ? {
+          expected_cash: cashCount.expectedCash,
+          counted_cash: cashCount.countedCash,
+          cash_difference: cashCount.difference,
+          denomination_counts: cashCount.denominations,
+        }
+      : {}),
+  }).eq('date', onDateISO);
+  if (error) throw writeError('Erro ao fechar caixa', error, status);
 }
 
-export async function recordWithdrawal(w: Withdrawal, onDateISO: string) {
-  const { error } = await supabase.from('withdrawals').insert({
+async function recordWithdrawal(w: Withdrawal, onDateISO: string) {
+  const supabase = requireClient();
+  const { error, status } = await supabase.from('withdrawals').upsert({
     id: w.id, date: onDateISO, amount: w.amount, reason: w.reason, ts: w.timestamp.toISOString(),
+  }, { onConflict: 'id', ignoreDuplicates: true });
+  if (error) throw writeError('Erro ao registrar sangria', error, status);
+}
+
+/** Estorno, itens, devolução de estoque e status da venda numa transação (RPC `refund_sale`). */
+async function recordRefund(refund: Refund) {
+  const supabase = requireClient();
+  const { error, status } = await supabase.rpc('refund_sale', {
+    p_refund: {
+      id: refund.id,
+      sale_id: refund.saleId,
+      amount: refund.amount,
+      cash_amount: refund.cashAmount,
+      reason: refund.reason,
+      operator: refund.operator ?? null,
+      ts: refund.timestamp.toISOString(),
+    },
+    p_items: refund.items.map((it, idx) => ({
+      id: `${refund.id}-i${idx}`,
+      product_id: it.productId || null,
+      product_name: it.productName,
+      quantity: it.quantity,
+      price_per_item: it.pricePerItem,
+      cost_per_item: it.costPerItem ?? null,
+      components: itemComponentsRow(it.components),
+    })),
+  });
+  if (error) throw writeError('Erro ao registrar estorno', error, status);
+}
+
+/** Movimento manual; o estoque é atualizado na mesma transação (RPC `record_stock_movement`). */
+async function recordStockMovement(movement: StockMovement) {
+  const supabase = requireClient();
+  const { error, status } = await supabase.rpc('record_stock_movement', {
+    p_movement: {
+      id: movement.id,
+      product_id: movement.productId,
+      type: movement.type,
+      quantity: movement.quantity,
+      counted_stock: movement.countedStock ?? null,
+      reason: movement.reason,
+      operator: movement.operator || null,
+      ts: movement.timestamp.toISOString(),
+    },
   });
-  if (error) throw new Error('Erro ao registrar sangria: ' + error.message);
+  if (error) throw writeError('Erro ao registrar movimento de estoque', error, status);
+}
+
+async function fetchStockMovements(productId: string): Promise<StockMovement[]> {
+  const supabase = requireClient();
+  const { data, error } = await supabase
+    .from('stock_movements').select('*')
+    .eq('product_id', productId)
+    .order('ts', { ascending: false });
+  if (error) throw new Error('Erro ao carregar movimentos de estoque: ' + error.message);
+  return (data || []).map(mapStockMovement);
 }
+
+// ====== TEMPO REAL ======
+/** Busca uma venda com seus itens (o evento realtime de `sales` não traz `sale_items`). */
+async function fetchSale(id: string): Promise<Sale | null> {
+  const supabase = requireClient();
+  const { data, error } = await supabase.from('sales').select(SALE_COLUMNS).eq('id', id).maybeSingle();
+  if (error) throw new Error('Erro ao carregar venda: ' + error.message);
+  return data ? mapSale(data) : null;
+}
+
+async function fetchRefund(id: string): Promise<Refund | null> {
+  const supabase = requireClient();
+  const { data, error } = await supabase.from('refunds').select(REFUND_COLUMNS).eq('id', id).maybeSingle();
+  if (error) throw new Error('Erro ao carregar estorno: ' + error.message);
+  return data ? mapRefund(data) : null;
+}
+
+/**
+ * Escuta alterações feitas por outros terminais em produtos, categorias, vendas, caixa e
+ * sangrias. Retorna a função que cancela a inscrição.
+ */
+function subscribeToChanges(handlers: RealtimeHandlers): () => void {
+  const supabase = requireClient();
+  const channel = supabase
+    .channel('pdv-sync')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'products' }, payload => {
+      if (payload.eventType === 'DELETE') {
+        const id = (payload.old as any)?.id;
+        if (id) handlers.onProductDeleted(id);
+      } else {
+        handlers.onProduct(mapProduct(payload.new));
+      }
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'categories' }, payload => {
+      if (payload.eventType !== 'DELETE') handlers.onCategory(mapCategory(payload.new));
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'sales' }, payload => {
+      if (payload.eventType === 'DELETE') return;
+      // A venda e os itens são gravados na mesma transação (commit_sale),
+      // então quando o evento chega os itens já estão lá.
+      fetchSale((payload.new as any).id)
+        .then(sale => { if (sale) handlers.onSale(sale); })
+        .catch(e => console.warn(e));
+    })
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'refunds' }, payload => {
+      fetchRefund((payload.new as any).id)
+        .then(refund => { if (refund) handlers.onRefund(refund); })
+        .catch(e => console.warn(e));
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'cash_drawers' }, payload => {
+      if (payload.eventType !== 'DELETE') handlers.onCashDrawer(mapCashDrawer(payload.new));
+    })
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'withdrawals' }, payload => {
+      const row = payload.new as any;
+      handlers.onWithdrawal(row.date, mapWithdrawal(row));
+    })
+    .subscribe();
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
+
+export const supabaseRepository: DataRepository = {
+  fetchInitialData,
+  fetchHistory,
+  fetchReportTotals,
+  upsertProduct,
+  upsertProducts,
+  upsertCategory,
+  commitSale,
+  openCashDrawer,
+  closeCashDrawer,
+  recordWithdrawal,
+  recordRefund,
+  recordStockMovement,
+  fetchStockMovements,
+  subscribeToChanges,
+};
@@ -0,0 +1,59 @@
+-- Grava a venda, os itens e a baixa de estoque em uma única transação.
+-- A baixa é relativa ao estoque atual (stock = stock - quantidade), então dois
+-- terminais vendendo ao mesmo tempo não sobrescrevem o estoque um do outro.
+-- Se algum produto ficar negativo a função aborta e nada é gravado.
+create or replace function public.commit_sale(p_sale jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_stock integer;
+begin
+  -- Idempotente: a mesma venda reenviada pela fila não baixa o estoque de novo
+  if exists (select 1 from public.sales where id = p_sale->>'id') then
+    return;
+  end if;
+
+  insert into public.sales (
+    id, subtotal, discount_type, discount_value, discount_amount, total, payment_method, timestamp
+  ) values (
+    p_sale->>'id',
+    (p_sale->>'subtotal')::numeric,
+    p_sale->>'discount_type',
+    (p_sale->>'discount_value')::numeric,
+    (p_sale->>'discount_amount')::numeric,
+    (p_sale->>'total')::numeric,
+    p_sale->>'payment_method',
+    (p_sale->>'timestamp')::timestamptz
+  );
+
+  for v_item in select value from jsonb_array_elements(p_items) loop
+    if v_item->>'product_id' is not null then
+      update public.products
+         set stock = stock - (v_item->>'quantity')::integer,
+             updated_at = now()
+       where id = v_item->>'product_id'
+      returning stock into v_stock;
+
+      if v_stock is not null and v_stock < 0 then
+        raise exception 'INSUFFICIENT_STOCK:%', v_item->>'product_id'
+          using errcode = 'P0001',
+                hint = v_item->>'product_name';
+      end if;
+    end if;
+
+    insert into public.sale_items (id, sale_id, product_id, product_name, quantity, price_per_item)
+    values (
+      v_item->>'id',
+      p_sale->>'id',
+      v_item->>'product_id',
+      v_item->>'product_name',
+      (v_item->>'quantity')::integer,
+      (v_item->>'price_per_item')::numeric
+    );
+  end loop;
+end;
+$$;
+
+grant execute on function public.commit_sale(jsonb, jsonb) to anon, authenticated;
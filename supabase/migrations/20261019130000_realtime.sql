@@ -0,0 +1,2 @@
+-- Publica as tabelas usadas pelos terminais no canal realtime do Supabase.
+alter publication supabase_realtime add table public.products, public.sales, public.cash_drawers, public.withdrawals;
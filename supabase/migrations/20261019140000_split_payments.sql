@@ -0,0 +1,92 @@
+-- Pagamento dividido: cada venda pode ter várias formas de pagamento.
+-- `sales.payment_method` continua existindo: recebe a forma única ou 'Split'.
+create table if not exists public.sale_payments (
+  id text primary key,
+  sale_id text not null references public.sales(id) on delete cascade,
+  method text not null,
+  amount numeric(12, 2) not null check (amount >= 0)
+);
+
+create index if not exists sale_payments_sale_id_idx on public.sale_payments (sale_id);
+
+-- Vendas antigas: uma linha com o total na forma registrada
+insert into public.sale_payments (id, sale_id, method, amount)
+select s.id || '-p0', s.id, s.payment_method, s.total
+  from public.sales s
+ where not exists (select 1 from public.sale_payments p where p.sale_id = s.id);
+
+drop function if exists public.commit_sale(jsonb, jsonb);
+
+create or replace function public.commit_sale(p_sale jsonb, p_items jsonb, p_payments jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_payment jsonb;
+  v_stock integer;
+  v_paid numeric := 0;
+begin
+  -- Idempotente: a mesma venda reenviada pela fila não baixa o estoque de novo
+  if exists (select 1 from public.sales where id = p_sale->>'id') then
+    return;
+  end if;
+
+  select coalesce(sum((value->>'amount')::numeric), 0) into v_paid
+    from jsonb_array_elements(p_payments);
+  if abs(v_paid - (p_sale->>'total')::numeric) >= 0.01 then
+    raise exception 'PAYMENTS_MISMATCH: pagamentos % diferem do total %', v_paid, p_sale->>'total';
+  end if;
+
+  insert into public.sales (
+    id, subtotal, discount_type, discount_value, discount_amount, total, payment_method, timestamp
+  ) values (
+    p_sale->>'id',
+    (p_sale->>'subtotal')::numeric,
+    p_sale->>'discount_type',
+    (p_sale->>'discount_value')::numeric,
+    (p_sale->>'discount_amount')::numeric,
+    (p_sale->>'total')::numeric,
+    p_sale->>'payment_method',
+    (p_sale->>'timestamp')::timestamptz
+  );
+
+  for v_item in select value from jsonb_array_elements(p_items) loop
+    if v_item->>'product_id' is not null then
+      update public.products
+         set stock = stock - (v_item->>'quantity')::integer,
+             updated_at = now()
+       where id = v_item->>'product_id'
+      returning stock into v_stock;
+
+      if v_stock is not null and v_stock < 0 then
+        raise exception 'INSUFFICIENT_STOCK:%', v_item->>'product_id'
+          using errcode = 'P0001',
+                hint = v_item->>'product_name';
+      end if;
+    end if;
+
+    insert into public.sale_items (id, sale_id, product_id, product_name, quantity, price_per_item)
+    values (
+      v_item->>'id',
+      p_sale->>'id',
+      v_item->>'product_id',
+      v_item->>'product_name',
+      (v_item->>'quantity')::integer,
+      (v_item->>'price_per_item')::numeric
+    );
+  end loop;
+
+  for v_payment in select value from jsonb_array_elements(p_payments) loop
+    insert into public.sale_payments (id, sale_id, method, amount)
+    values (
+      v_payment->>'id',
+      p_sale->>'id',
+      v_payment->>'method',
+      (v_payment->>'amount')::numeric
+    );
+  end loop;
+end;
+$$;
+
+grant execute on function public.commit_sale(jsonb, jsonb, jsonb) to anon, authenticated;
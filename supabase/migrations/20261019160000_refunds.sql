@@ -0,0 +1,94 @@
+-- Estornos: a venda original continua gravada, com o status ajustado.
+alter table public.sales
+  add column if not exists status text not null default 'completed'
+    check (status in ('completed', 'partially_refunded', 'cancelled'));
+
+create table if not exists public.refunds (
+  id text primary key,
+  sale_id text not null references public.sales(id),
+  amount numeric(12, 2) not null,
+  cash_amount numeric(12, 2) not null default 0,
+  reason text not null,
+  ts timestamptz not null default now()
+);
+
+create table if not exists public.refund_items (
+  id text primary key,
+  refund_id text not null references public.refunds(id) on delete cascade,
+  product_id text,
+  product_name text not null,
+  quantity integer not null check (quantity > 0),
+  price_per_item numeric(12, 2) not null
+);
+
+create index if not exists refunds_sale_id_idx on public.refunds (sale_id);
+
+-- Grava o estorno, devolve o estoque e atualiza o status da venda numa transação.
+create or replace function public.refund_sale(p_refund jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_sale_id text := p_refund->>'sale_id';
+  v_remaining integer;
+begin
+  -- Idempotente: o mesmo estorno reenviado pela fila não devolve estoque duas vezes
+  if exists (select 1 from public.refunds where id = p_refund->>'id') then
+    return;
+  end if;
+
+  perform 1 from public.sales where id = v_sale_id for update;
+  if not found then
+    raise exception 'Venda % não encontrada', v_sale_id;
+  end if;
+
+  insert into public.refunds (id, sale_id, amount, cash_amount, reason, ts)
+  values (
+    p_refund->>'id',
+    v_sale_id,
+    (p_refund->>'amount')::numeric,
+    (p_refund->>'cash_amount')::numeric,
+    p_refund->>'reason',
+    (p_refund->>'ts')::timestamptz
+  );
+
+  for v_item in select value from jsonb_array_elements(p_items) loop
+    insert into public.refund_items (id, refund_id, product_id, product_name, quantity, price_per_item)
+    values (
+      v_item->>'id',
+      p_refund->>'id',
+      v_item->>'product_id',
+      v_item->>'product_name',
+      (v_item->>'quantity')::integer,
+      (v_item->>'price_per_item')::numeric
+    );
+
+    if v_item->>'product_id' is not null then
+      update public.products
+         set stock = stock + (v_item->>'quantity')::integer,
+             updated_at = now()
+       where id = v_item->>'product_id';
+    end if;
+  end loop;
+
+  -- Quantidade vendida que ainda não foi estornada
+  select coalesce(sum(si.quantity), 0) - coalesce((
+           select sum(ri.quantity)
+             from public.refund_items ri
+             join public.refunds r on r.id = ri.refund_id
+            where r.sale_id = v_sale_id
+         ), 0)
+    into v_remaining
+    from public.sale_items si
+   where si.sale_id = v_sale_id;
+
+  update public.sales
+     set status = case when v_remaining <= 0 then 'cancelled' else 'partially_refunded' end
+   where id = v_sale_id;
+end;
+$$;
+
+grant execute on function public.refund_sale(jsonb, jsonb) to anon, authenticated;
+
+alter publication supabase_realtime add table public.refunds;
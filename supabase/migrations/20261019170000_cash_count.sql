@@ -0,0 +1,7 @@
+-- Conferência do caixa no fechamento: valor esperado, contado e a diferença.
+-- closing_cash passa a ser o valor contado quando há contagem.
+alter table public.cash_drawers
+  add column if not exists expected_cash numeric(12, 2),
+  add column if not exists counted_cash numeric(12, 2),
+  add column if not exists cash_difference numeric(12, 2),
+  add column if not exists denomination_counts jsonb;
@@ -0,0 +1,280 @@
+-- Histórico de estoque: products.stock só muda junto com um movimento.
+create table if not exists public.stock_movements (
+  id text primary key,
+  product_id text not null references public.products(id),
+  type text not null
+    check (type in ('receipt', 'sale', 'refund', 'adjustment', 'loss', 'inventory')),
+  quantity integer not null,
+  counted_stock integer,
+  stock_after integer,
+  reason text not null default '',
+  operator text,
+  reference_id text,
+  ts timestamptz not null default now()
+);
+
+create index if not exists stock_movements_product_ts_idx on public.stock_movements (product_id, ts desc);
+
+-- Produto novo nasce sem estoque; a entrada inicial é um movimento.
+alter table public.products alter column stock set default 0;
+
+alter table public.sales add column if not exists operator text;
+alter table public.refunds add column if not exists operator text;
+
+-- Saldo inicial: o estoque atual de cada produto vira a primeira linha do histórico.
+insert into public.stock_movements (id, product_id, type, quantity, counted_stock, stock_after, reason)
+select 'opening-' || id, id, 'inventory', stock, stock, stock, 'Saldo inicial'
+  from public.products
+on conflict (id) do nothing;
+
+-- Estoque gravado x saldo do último movimento (diferença ≠ 0 indica alteração fora do histórico).
+create or replace view public.stock_reconciliation as
+select p.id as product_id,
+       p.name,
+       p.stock,
+       coalesce(l.stock_after, 0) as ledger_stock,
+       p.stock - coalesce(l.stock_after, 0) as difference
+  from public.products p
+  left join lateral (
+    select m.stock_after
+      from public.stock_movements m
+     where m.product_id = p.id
+     order by m.ts desc, m.id desc
+     limit 1
+  ) l on true;
+
+-- Movimento manual (entrada, ajuste, perda, inventário). Idempotente pelo id.
+create or replace function public.record_stock_movement(p_movement jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_product_id text := p_movement->>'product_id';
+  v_name text;
+  v_stock integer;
+  v_quantity integer;
+begin
+  if exists (select 1 from public.stock_movements where id = p_movement->>'id') then
+    return;
+  end if;
+
+  select stock, name into v_stock, v_name from public.products where id = v_product_id for update;
+  if not found then
+    raise exception 'Produto % não encontrado', v_product_id;
+  end if;
+
+  -- Inventário: a variação sai do estoque atual no banco, não do que o terminal viu
+  if p_movement->>'type' = 'inventory' then
+    v_quantity := (p_movement->>'counted_stock')::integer - v_stock;
+  else
+    v_quantity := (p_movement->>'quantity')::integer;
+  end if;
+
+  if v_stock + v_quantity < 0 then
+    raise exception 'INSUFFICIENT_STOCK:%', v_product_id
+      using errcode = 'P0001',
+            hint = v_name;
+  end if;
+
+  update public.products
+     set stock = v_stock + v_quantity,
+         updated_at = now()
+   where id = v_product_id;
+
+  insert into public.stock_movements (
+    id, product_id, type, quantity, counted_stock, stock_after, reason, operator, ts
+  ) values (
+    p_movement->>'id',
+    v_product_id,
+    p_movement->>'type',
+    v_quantity,
+    (p_movement->>'counted_stock')::integer,
+    v_stock + v_quantity,
+    coalesce(p_movement->>'reason', ''),
+    p_movement->>'operator',
+    (p_movement->>'ts')::timestamptz
+  );
+end;
+$$;
+
+grant execute on function public.record_stock_movement(jsonb) to anon, authenticated;
+
+-- commit_sale: grava o operador e registra a baixa de cada item no histórico.
+create or replace function public.commit_sale(p_sale jsonb, p_items jsonb, p_payments jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_payment jsonb;
+  v_stock integer;
+  v_paid numeric := 0;
+begin
+  -- Idempotente: a mesma venda reenviada pela fila não baixa o estoque de novo
+  if exists (select 1 from public.sales where id = p_sale->>'id') then
+    return;
+  end if;
+
+  select coalesce(sum((value->>'amount')::numeric), 0) into v_paid
+    from jsonb_array_elements(p_payments);
+  if abs(v_paid - (p_sale->>'total')::numeric) >= 0.01 then
+    raise exception 'PAYMENTS_MISMATCH: pagamentos % diferem do total %', v_paid, p_sale->>'total';
+  end if;
+
+  insert into public.sales (
+    id, subtotal, discount_type, discount_value, discount_amount, total, payment_method, timestamp,
+    cash_tendered, change_due, operator
+  ) values (
+    p_sale->>'id',
+    (p_sale->>'subtotal')::numeric,
+    p_sale->>'discount_type',
+    (p_sale->>'discount_value')::numeric,
+    (p_sale->>'discount_amount')::numeric,
+    (p_sale->>'total')::numeric,
+    p_sale->>'payment_method',
+    (p_sale->>'timestamp')::timestamptz,
+    (p_sale->>'cash_tendered')::numeric,
+    (p_sale->>'change_due')::numeric,
+    p_sale->>'operator'
+  );
+
+  for v_item in select value from jsonb_array_elements(p_items) loop
+    if v_item->>'product_id' is not null then
+      v_stock := null;
+      update public.products
+         set stock = stock - (v_item->>'quantity')::integer,
+             updated_at = now()
+       where id = v_item->>'product_id'
+      returning stock into v_stock;
+
+      if v_stock is not null and v_stock < 0 then
+        raise exception 'INSUFFICIENT_STOCK:%', v_item->>'product_id'
+          using errcode = 'P0001',
+                hint = v_item->>'product_name';
+      end if;
+
+      if v_stock is not null then
+        insert into public.stock_movements (
+          id, product_id, type, quantity, stock_after, reason, operator, reference_id, ts
+        ) values (
+          'mv-' || (v_item->>'id'),
+          v_item->>'product_id',
+          'sale',
+          -(v_item->>'quantity')::integer,
+          v_stock,
+          'Venda',
+          p_sale->>'operator',
+          p_sale->>'id',
+          (p_sale->>'timestamp')::timestamptz
+        );
+      end if;
+    end if;
+
+    insert into public.sale_items (id, sale_id, product_id, product_name, quantity, price_per_item)
+    values (
+      v_item->>'id',
+      p_sale->>'id',
+      v_item->>'product_id',
+      v_item->>'product_name',
+      (v_item->>'quantity')::integer,
+      (v_item->>'price_per_item')::numeric
+    );
+  end loop;
+
+  for v_payment in select value from jsonb_array_elements(p_payments) loop
+    insert into public.sale_payments (id, sale_id, method, amount)
+    values (
+      v_payment->>'id',
+      p_sale->>'id',
+      v_payment->>'method',
+      (v_payment->>'amount')::numeric
+    );
+  end loop;
+end;
+$$;
+
+-- refund_sale: grava o operador e registra a devolução de cada item no histórico.
+create or replace function public.refund_sale(p_refund jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_sale_id text := p_refund->>'sale_id';
+  v_remaining integer;
+  v_stock integer;
+begin
+  -- Idempotente: o mesmo estorno reenviado pela fila não devolve estoque duas vezes
+  if exists (select 1 from public.refunds where id = p_refund->>'id') then
+    return;
+  end if;
+
+  perform 1 from public.sales where id = v_sale_id for update;
+  if not found then
+    raise exception 'Venda % não encontrada', v_sale_id;
+  end if;
+
+  insert into public.refunds (id, sale_id, amount, cash_amount, reason, operator, ts)
+  values (
+    p_refund->>'id',
+    v_sale_id,
+    (p_refund->>'amount')::numeric,
+    (p_refund->>'cash_amount')::numeric,
+    p_refund->>'reason',
+    p_refund->>'operator',
+    (p_refund->>'ts')::timestamptz
+  );
+
+  for v_item in select value from jsonb_array_elements(p_items) loop
+    insert into public.refund_items (id, refund_id, product_id, product_name, quantity, price_per_item)
+    values (
+      v_item->>'id',
+      p_refund->>'id',
+      v_item->>'product_id',
+      v_item->>'product_name',
+      (v_item->>'quantity')::integer,
+      (v_item->>'price_per_item')::numeric
+    );
+
+    if v_item->>'product_id' is not null then
+      v_stock := null;
+      update public.products
+         set stock = stock + (v_item->>'quantity')::integer,
+             updated_at = now()
+       where id = v_item->>'product_id'
+      returning stock into v_stock;
+
+      if v_stock is not null then
+        insert into public.stock_movements (
+          id, product_id, type, quantity, stock_after, reason, operator, reference_id, ts
+        ) values (
+          'mv-' || (v_item->>'id'),
+          v_item->>'product_id',
+          'refund',
+          (v_item->>'quantity')::integer,
+          v_stock,
+          p_refund->>'reason',
+          p_refund->>'operator',
+          p_refund->>'id',
+          (p_refund->>'ts')::timestamptz
+        );
+      end if;
+    end if;
+  end loop;
+
+  -- Quantidade vendida que ainda não foi estornada
+  select coalesce(sum(si.quantity), 0) - coalesce((
+           select sum(ri.quantity)
+             from public.refund_items ri
+             join public.refunds r on r.id = ri.refund_id
+            where r.sale_id = v_sale_id
+         ), 0)
+    into v_remaining
+    from public.sale_items si
+   where si.sale_id = v_sale_id;
+
+  update public.sales
+     set status = case when v_remaining <= 0 then 'cancelled' else 'partially_refunded' end
+   where id = v_sale_id;
+end;
+$$;
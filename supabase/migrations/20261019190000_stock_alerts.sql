@@ -0,0 +1,4 @@
+-- Estoque mínimo e quantidade de reposição por produto.
+alter table public.products
+  add column if not exists min_stock integer not null default 0 check (min_stock >= 0),
+  add column if not exists reorder_quantity integer not null default 0 check (reorder_quantity >= 0);
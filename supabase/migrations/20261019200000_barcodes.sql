@@ -0,0 +1,4 @@
+-- Código de barras (EAN-13) ou SKU interno; único entre os produtos que têm código.
+alter table public.products add column if not exists barcode text;
+
+create unique index if not exists products_barcode_key on public.products (barcode) where barcode is not null;
@@ -0,0 +1,30 @@
+-- Categorias cadastráveis (antes fixas: 'Alimentos' e 'Loja').
+-- O id das categorias antigas é o próprio nome, que já está gravado em products.category.
+create table if not exists public.categories (
+  id text primary key,
+  name text not null,
+  color text not null default '#6366f1',
+  sort_order integer not null default 0,
+  active boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists categories_name_key on public.categories (lower(name));
+
+insert into public.categories (id, name, color, sort_order)
+values ('Alimentos', 'Alimentos', '#f59e0b', 0),
+       ('Loja', 'Loja', '#6366f1', 1)
+on conflict (id) do nothing;
+
+-- Qualquer outro valor já usado nos produtos vira categoria também
+insert into public.categories (id, name, sort_order)
+select distinct p.category, p.category, 100
+  from public.products p
+ where p.category is not null
+   and not exists (select 1 from public.categories c where c.id = p.category)
+on conflict do nothing;
+
+alter table public.products
+  add constraint products_category_fkey foreign key (category) references public.categories (id);
+
+alter publication supabase_realtime add table public.categories;
@@ -0,0 +1,178 @@
+-- Totais dos relatórios calculados no banco, com as mesmas regras de lib/reports.ts
+-- (summarizeDays e rankProducts). O dia de operação segue o fuso e a virada do
+-- terminal, passados como parâmetro: dia = data local de (instante − virada).
+
+create index if not exists sales_timestamp_idx on public.sales (timestamp);
+create index if not exists refunds_ts_idx on public.refunds (ts);
+create index if not exists withdrawals_date_idx on public.withdrawals (date);
+
+create or replace function public.business_day(p_ts timestamptz, p_time_zone text, p_cutoff_hour integer)
+returns date
+language sql
+stable
+as $$
+  select ((p_ts - make_interval(hours => p_cutoff_hour)) at time zone p_time_zone)::date;
+$$;
+
+-- Um registro por dia com venda, estorno ou sangria. Estornos entram negativos,
+-- na forma em que foram devolvidos; o que não voltou em dinheiro sai do Pix.
+create or replace function public.report_daily_totals(
+  p_from date,
+  p_to date,
+  p_time_zone text,
+  p_cutoff_hour integer
+)
+returns table (
+  day date,
+  sales_count integer,
+  total_sales numeric,
+  cash_sales numeric,
+  pix_sales numeric,
+  total_discounts numeric,
+  total_refunds numeric,
+  cash_refunds numeric,
+  total_withdrawals numeric
+)
+language sql
+stable
+as $$
+  with
+  -- Folga nos instantes (índice por timestamp); o corte exato é pelo dia de operação
+  bounds as (
+    select (p_from - 1)::timestamp at time zone 'UTC' as start_ts,
+           (p_to + 3)::timestamp at time zone 'UTC' as end_ts
+  ),
+  sale_days as (
+    select public.business_day(s.timestamp, p_time_zone, p_cutoff_hour) as day,
+           s.total,
+           coalesce(s.discount_amount, 0) as discount_amount,
+           -- Vendas sem linhas em sale_payments (anteriores ao pagamento dividido) usam payment_method
+           case when pay.n > 0 then pay.cash when s.payment_method = 'Cash' then s.total else 0 end as cash,
+           case when pay.n > 0 then pay.pix when s.payment_method = 'Pix' then s.total else 0 end as pix
+      from public.sales s
+      cross join bounds b
+      left join lateral (
+        select count(*) as n,
+               coalesce(sum(p.amount) filter (where p.method = 'Cash'), 0) as cash,
+               coalesce(sum(p.amount) filter (where p.method = 'Pix'), 0) as pix
+          from public.sale_payments p
+         where p.sale_id = s.id
+      ) pay on true
+     where s.timestamp >= b.start_ts and s.timestamp < b.end_ts
+  ),
+  sale_totals as (
+    select day,
+           count(*)::integer as sales_count,
+           sum(total) as gross,
+           sum(cash) as cash,
+           sum(pix) as pix,
+           sum(discount_amount) as discounts
+      from sale_days
+     where day between p_from and p_to
+     group by day
+  ),
+  refund_totals as (
+    select public.business_day(r.ts, p_time_zone, p_cutoff_hour) as day,
+           sum(r.amount) as amount,
+           sum(coalesce(r.cash_amount, 0)) as cash
+      from public.refunds r
+      cross join bounds b
+     where r.ts >= b.start_ts and r.ts < b.end_ts
+       and public.business_day(r.ts, p_time_zone, p_cutoff_hour) between p_from and p_to
+     group by 1
+  ),
+  withdrawal_totals as (
+    select w.date as day, sum(w.amount) as amount
+      from public.withdrawals w
+     where w.date between p_from and p_to
+     group by w.date
+  ),
+  days as (
+    select day from sale_totals
+    union
+    select day from refund_totals
+    union
+    select day from withdrawal_totals
+  )
+  select d.day,
+         coalesce(s.sales_count, 0),
+         (coalesce(s.gross, 0) - coalesce(r.amount, 0))::numeric,
+         (coalesce(s.cash, 0) - coalesce(r.cash, 0))::numeric,
+         (coalesce(s.pix, 0) - (coalesce(r.amount, 0) - coalesce(r.cash, 0)))::numeric,
+         coalesce(s.discounts, 0)::numeric,
+         coalesce(r.amount, 0)::numeric,
+         coalesce(r.cash, 0)::numeric,
+         coalesce(w.amount, 0)::numeric
+    from days d
+    left join sale_totals s on s.day = d.day
+    left join refund_totals r on r.day = d.day
+    left join withdrawal_totals w on w.day = d.day
+   order by d.day;
+$$;
+
+-- Quantidade e receita líquida por produto (productId ou, sem produto, o nome):
+-- desconto rateado pelo valor de cada item, estornos descontados na proporção dos itens.
+create or replace function public.report_product_totals(
+  p_from date,
+  p_to date,
+  p_time_zone text,
+  p_cutoff_hour integer
+)
+returns table (
+  key text,
+  product_name text,
+  quantity bigint,
+  revenue numeric
+)
+language sql
+stable
+as $$
+  with
+  bounds as (
+    select (p_from - 1)::timestamp at time zone 'UTC' as start_ts,
+           (p_to + 3)::timestamp at time zone 'UTC' as end_ts
+  ),
+  lines as (
+    select 0 as kind,
+           s.timestamp as ts,
+           i.id as line_id,
+           coalesce(nullif(i.product_id, ''), i.product_name) as key,
+           i.product_name,
+           i.quantity::bigint as quantity,
+           case when s.subtotal > 0 then i.price_per_item * i.quantity * s.total / s.subtotal else 0 end as value
+      from public.sales s
+      cross join bounds b
+      join public.sale_items i on i.sale_id = s.id
+     where s.timestamp >= b.start_ts and s.timestamp < b.end_ts
+       and public.business_day(s.timestamp, p_time_zone, p_cutoff_hour) between p_from and p_to
+    union all
+    select 1,
+           r.ts,
+           i.id,
+           coalesce(nullif(i.product_id, ''), i.product_name),
+           i.product_name,
+           -i.quantity::bigint,
+           -(case when t.items_value > 0 then r.amount * i.price_per_item * i.quantity / t.items_value else 0 end)
+      from public.refunds r
+      cross join bounds b
+      join public.refund_items i on i.refund_id = r.id
+      cross join lateral (
+        select sum(x.price_per_item * x.quantity) as items_value
+          from public.refund_items x
+         where x.refund_id = r.id
+      ) t
+     where r.ts >= b.start_ts and r.ts < b.end_ts
+       and public.business_day(r.ts, p_time_zone, p_cutoff_hour) between p_from and p_to
+  )
+  -- Nome da primeira venda do período, como no cálculo local
+  select key,
+         (array_agg(product_name order by kind, ts, line_id))[1],
+         sum(quantity)::bigint,
+         sum(value)::numeric
+    from lines
+   group by key;
+$$;
+
+grant execute on function public.business_day(timestamptz, text, integer) to anon, authenticated;
+grant execute on function public.report_daily_totals(date, date, text, integer) to anon, authenticated;
+grant execute on function public.report_product_totals(date, date, text, integer) to anon, authenticated;
@@ -0,0 +1,143 @@
+-- refund_sale confere no servidor o que pode ser estornado: a conferência do
+-- terminal usa só os estornos que ele tem carregados, e dois terminais podiam
+-- estornar os mesmos itens (devolvendo dinheiro e estoque duas vezes).
+create or replace function public.refund_sale(p_refund jsonb, p_items jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+  v_components jsonb;
+  v_line record;
+  v_sale_id text := p_refund->>'sale_id';
+  v_remaining integer;
+  v_stock integer;
+  v_total numeric;
+  v_excess record;
+begin
+  -- Idempotente: o mesmo estorno reenviado pela fila não devolve estoque duas vezes
+  if exists (select 1 from public.refunds where id = p_refund->>'id') then
+    return;
+  end if;
+
+  select total into v_total from public.sales where id = v_sale_id for update;
+  if not found then
+    raise exception 'Venda % não encontrada', v_sale_id;
+  end if;
+
+  -- Com a venda travada, nenhum produto sai além do vendido menos o já estornado
+  -- (outro terminal pode ter estornado, ou este não ter carregado estornos antigos)
+  select wanted.product_name, wanted.quantity as requested,
+         coalesce(sold.quantity, 0) - coalesce(done.quantity, 0) as available
+    into v_excess
+    from (
+      select coalesce(nullif(i->>'product_id', ''), i->>'product_name') as key,
+             min(i->>'product_name') as product_name,
+             sum((i->>'quantity')::integer) as quantity
+        from jsonb_array_elements(p_items) i
+       group by 1
+    ) wanted
+    left join lateral (
+      select sum(si.quantity) as quantity
+        from public.sale_items si
+       where si.sale_id = v_sale_id
+         and coalesce(nullif(si.product_id, ''), si.product_name) = wanted.key
+    ) sold on true
+    left join lateral (
+      select sum(ri.quantity) as quantity
+        from public.refund_items ri
+        join public.refunds r on r.id = ri.refund_id
+       where r.sale_id = v_sale_id
+         and coalesce(nullif(ri.product_id, ''), ri.product_name) = wanted.key
+    ) done on true
+   where wanted.quantity > coalesce(sold.quantity, 0) - coalesce(done.quantity, 0)
+   limit 1;
+  if found then
+    raise exception 'Estorno maior que o restante da venda: % (pedido %, restam %)',
+      v_excess.product_name, v_excess.requested, greatest(v_excess.available, 0);
+  end if;
+
+  -- O valor também não passa do que ainda não foi devolvido (centavo de folga no arredondamento)
+  if (p_refund->>'amount')::numeric
+     + coalesce((select sum(amount) from public.refunds where sale_id = v_sale_id), 0) > v_total + 0.01 then
+    raise exception 'Estorno de % passa do valor restante da venda', (p_refund->>'amount')::numeric;
+  end if;
+
+  insert into public.refunds (id, sale_id, amount, cash_amount, reason, operator, ts)
+  values (
+    p_refund->>'id',
+    v_sale_id,
+    (p_refund->>'amount')::numeric,
+    (p_refund->>'cash_amount')::numeric,
+    p_refund->>'reason',
+    p_refund->>'operator',
+    (p_refund->>'ts')::timestamptz
+  );
+
+  for v_item in select value from jsonb_array_elements(p_items) loop
+    v_components := case when jsonb_typeof(v_item->'components') = 'array' then v_item->'components' else '[]'::jsonb end;
+
+    insert into public.refund_items (id, refund_id, product_id, product_name, quantity, price_per_item, cost_per_item, components)
+    values (
+      v_item->>'id',
+      p_refund->>'id',
+      v_item->>'product_id',
+      v_item->>'product_name',
+      (v_item->>'quantity')::integer,
+      (v_item->>'price_per_item')::numeric,
+      (v_item->>'cost_per_item')::numeric,
+      nullif(v_components, '[]'::jsonb)
+    );
+
+    for v_line in
+      select c.value->>'product_id' as product_id,
+             c.value->>'product_name' as product_name,
+             (c.value->>'quantity')::integer * (v_item->>'quantity')::integer as quantity,
+             'mv-' || (v_item->>'id') || '-c' || (c.ordinality - 1) as movement_id
+        from jsonb_array_elements(v_components) with ordinality c
+      union all
+      select v_item->>'product_id', v_item->>'product_name', (v_item->>'quantity')::integer, 'mv-' || (v_item->>'id')
+       where jsonb_array_length(v_components) = 0
+         and v_item->>'product_id' is not null
+    loop
+      v_stock := null;
+      update public.products
+         set stock = stock + v_line.quantity,
+             updated_at = now()
+       where id = v_line.product_id
+      returning stock into v_stock;
+
+      if v_stock is not null then
+        insert into public.stock_movements (
+          id, product_id, type, quantity, stock_after, reason, operator, reference_id, ts
+        ) values (
+          v_line.movement_id,
+          v_line.product_id,
+          'refund',
+          v_line.quantity,
+          v_stock,
+          p_refund->>'reason',
+          p_refund->>'operator',
+          p_refund->>'id',
+          (p_refund->>'ts')::timestamptz
+        );
+      end if;
+    end loop;
+  end loop;
+
+  -- Quantidade vendida que ainda não foi estornada
+  select coalesce(sum(si.quantity), 0) - coalesce((
+           select sum(ri.quantity)
+             from public.refund_items ri
+             join public.refunds r on r.id = ri.refund_id
+            where r.sale_id = v_sale_id
+         ), 0)
+    into v_remaining
+    from public.sale_items si
+   where si.sale_id = v_sale_id;
+
+  update public.sales
+     set status = case when v_remaining <= 0 then 'cancelled' else 'partially_refunded' end
+   where id = v_sale_id;
+end;
+$$;
@@ -4,12 +4,57 @@ export enum PaymentMethod {
   Pix = 'Pix',
 }
 
+/** Categoria de produtos; cada uma vira uma aba na tela de vendas. */
+export interface Category {
+  id: string;
+  name: string;
+  /** Cor de destaque (hex, ex.: "#6366f1"). */
+  color: string;
+  /** Ordem das abas (menor primeiro). */
+  sortOrder: number;
+  /** Inativas somem das abas e do cadastro; os produtos continuam na busca. */
+  active: boolean;
+}
+
+/** Item de um kit/combo: quanto de um produto sai do estoque por unidade do kit. */
+export interface KitComponent {
+  productId: string;
+  quantity: number;
+}
+
 export interface Product {
   id: string;
   name: string;
   stock: number;
   price: number;
-  category: 'Alimentos' | 'Loja';
+  /** Preço de custo unitário; sem ele o produto fica fora do cálculo de margem. */
+  costPrice?: number;
+  /** Id da categoria (ver Category). */
+  category: string;
+  /** Código de barras (EAN-13) ou SKU interno. */
+  barcode?: string;
+  /** Estoque mínimo: no valor ou abaixo dele o produto entra na lista "Repor". */
+  minStock?: number;
+  /** Quantidade sugerida para comprar ao repor. */
+  reorderQuantity?: number;
+  /** false = arquivado: some da tela de vendas, mas continua no histórico. */
+  active?: boolean;
+  /**
+   * Preenchido = kit/combo: tem preço próprio, mas não tem estoque; a venda
+   * baixa os componentes e a disponibilidade vem do estoque deles.
+   */
+  components?: KitComponent[];
+}
+
+/** Componente de um kit vendido, congelado na venda (o kit pode mudar depois). */
+export interface SaleItemComponent {
+  productId: string;
+  productName: string;
+  /** Quantidade por unidade do kit. */
+  quantity: number;
+  /** Preço avulso do componente na hora da venda; usado para ratear o valor do kit. */
+  pricePerItem: number;
+  costPerItem?: number;
 }
 
 export interface SaleItem {
@@ -17,8 +62,20 @@ export interface SaleItem {
   productName: string;
   quantity: number;
   pricePerItem: number;
+  /** Custo unitário do produto no momento da venda (não muda se o cadastro mudar depois). */
+  costPerItem?: number;
+  /** Presente quando o item é um kit: o que saiu do estoque por unidade. */
+  components?: SaleItemComponent[];
+}
+
+export interface SalePayment {
+  method: PaymentMethod;
+  amount: number;
 }
 
+/** Vendas sem status são concluídas; estornadas continuam nos dados com o status ajustado. */
+export type SaleStatus = 'completed' | 'partially_refunded' | 'cancelled';
+
 export interface Sale {
   id: string;
   items: SaleItem[];
@@ -27,16 +84,126 @@ export interface Sale {
   discountValue?: number;
   discountAmount: number;
   total: number;
-  paymentMethod: PaymentMethod;
+  /** Formas de pagamento usadas; a soma dos valores é igual a `total`. */
+  payments: SalePayment[];
+  /** Legado: vendas antigas guardavam uma única forma de pagamento. */
+  paymentMethod?: PaymentMethod;
+  /** Valor entregue pelo cliente em dinheiro, quando informado. */
+  cashTendered?: number;
+  /** Troco devolvido (cashTendered − parte em dinheiro). */
+  changeDue?: number;
+  status?: SaleStatus;
+  /** Operador do terminal que registrou a venda. */
+  operator?: string;
+  timestamp: Date;
+}
+
+export interface RefundItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  pricePerItem: number;
+  /** Custo unitário copiado do item da venda. */
+  costPerItem?: number;
+  /** Componentes copiados do item da venda (kits). */
+  components?: SaleItemComponent[];
+}
+
+/** Estorno (total ou parcial) de uma venda. Os relatórios descontam `amount` no dia do estorno. */
+export interface Refund {
+  id: string;
+  saleId: string;
+  items: RefundItem[];
+  /** Valor devolvido ao cliente (já considerando o desconto da venda). */
+  amount: number;
+  /** Parte do valor devolvida em dinheiro (sai do caixa). */
+  cashAmount: number;
+  reason: string;
+  operator?: string;
+  timestamp: Date;
+}
+
+/**
+ * Entrada (compra/recebimento), venda, estorno, ajuste manual, perda/avaria
+ * ou correção de inventário.
+ */
+export type StockMovementType = 'receipt' | 'sale' | 'refund' | 'adjustment' | 'loss' | 'inventory';
+
+/** Movimento de estoque: o estoque do produto é a soma dos seus movimentos. */
+export interface StockMovement {
+  id: string;
+  productId: string;
+  type: StockMovementType;
+  /** Variação do estoque: positiva entra, negativa sai. */
+  quantity: number;
+  /** Só no inventário: quantidade contada. O backend calcula a variação a partir do estoque atual. */
+  countedStock?: number;
+  /** Estoque do produto logo após o movimento (preenchido pelo backend). */
+  stockAfter?: number;
+  reason: string;
+  operator: string;
+  /** Venda ou estorno que originou o movimento. */
+  referenceId?: string;
   timestamp: Date;
 }
 
-export type View = 'register' | 'sales' | 'report' | 'previousReport';
+/** Dados da finalização informados na tela de vendas. */
+export interface CheckoutOptions {
+  /** Id gerado pela tela (usado também como txid do Pix). */
+  saleId?: string;
+  discount?: { type: 'percentage' | 'fixed'; value: number };
+  /** Valor recebido em dinheiro, para cálculo do troco. */
+  cashTendered?: number;
+}
+
+export type View = 'register' | 'sales' | 'report' | 'previousReport' | 'analytics' | 'settings';
+
+export interface PixSettings {
+  /** Chave Pix (e-mail, telefone, CPF/CNPJ ou chave aleatória). */
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+}
+
+/** Como as datas dos relatórios e do caixa são calculadas (ver lib/businessDay). */
+export interface BusinessDaySettings {
+  /** Fuso IANA, ex.: "America/Sao_Paulo". */
+  timeZone: string;
+  /** Antes deste horário (0–23), o movimento ainda conta para o dia anterior. */
+  cutoffHour: number;
+}
+
+/** Cupom não fiscal entregue ao cliente (ver lib/receipt). */
+export interface ReceiptSettings {
+  /** Nome da cantina no topo do cupom. */
+  storeName: string;
+  /** Linhas abaixo do nome (endereço, CNPJ...), uma por linha. */
+  headerLines: string;
+  /** Mensagem no fim do cupom. */
+  footer: string;
+  /** Largura do papel da térmica, em mm. */
+  paperWidth: 58 | 80;
+  /** Ponte local que recebe os bytes ESC/POS por POST e os manda à impressora. Vazio: só navegador. */
+  bridgeUrl: string;
+  /** Abre o cupom ao finalizar cada venda. */
+  printAfterSale: boolean;
+}
+
+/** Configurações deste terminal (salvas no navegador). */
+export interface AppSettings {
+  /** Nome de quem opera este terminal; vai para vendas, estornos e movimentos de estoque. */
+  operatorName: string;
+  pix: PixSettings;
+  businessDay: BusinessDaySettings;
+  receipt: ReceiptSettings;
+}
 
 export interface CashDrawer {
   isOpen: boolean;
   openingCash: number;
   previousClosingCash: number;
+  /** Dia de operação em que o caixa aberto foi iniciado (o fechamento vale para ele, mesmo depois da virada). */
+  date?: string;
 }
 
 export interface Withdrawal {
@@ -46,9 +213,22 @@ export interface Withdrawal {
     timestamp: Date;
 }
 
+/** Conferência do caixa no fechamento: o operador conta sem ver o valor esperado. */
+export interface CashCount {
+  /** Abertura + vendas em dinheiro − sangrias − estornos em dinheiro. */
+  expectedCash: number;
+  countedCash: number;
+  /** Contado − esperado: positivo é sobra, negativo é falta. */
+  difference: number;
+  /** Quantidade por cédula/moeda, com o valor como chave (ex.: "0.25"). */
+  denominations: Record<string, number>;
+}
+
 export interface HistoricalReport {
   openingCash: number;
   closingCash: number;
   date: string;
   withdrawals: Withdrawal[];
+  /** Presente nos dias fechados com contagem. */
+  cashCount?: CashCount;
 }
\ No newline at end of file